@@ -0,0 +1,124 @@
+#!/usr/bin/env node
+/**
+ * Bitcoin Echo GUI — Stand-in event server
+ *
+ * Serves the WebSocket event stream the GUI subscribes to (see
+ * src/lib/rpc/subscriptions.ts) with synthetic data, so push updates can
+ * be developed without a running node.
+ *
+ * Usage:
+ *   npm run dev:events -- [--port 8334] [--block-interval 45] [--tx-rate 3]
+ *
+ * Then set "Event Stream" in Connection Settings to ws://localhost:8334/events
+ */
+
+import { createServer } from 'node:http';
+import { randomBytes } from 'node:crypto';
+import { parseArgs } from 'node:util';
+import { acceptWebSocket } from './lib/websocket.js';
+
+const { values: args } = parseArgs({
+	options: {
+		port: { type: 'string', default: '8334' },
+		'block-interval': { type: 'string', default: '45' }, // seconds between blocks
+		'tx-rate': { type: 'string', default: '3' } // transactions per second
+	}
+});
+
+const PORT = Number(args.port);
+const BLOCK_INTERVAL_MS = Number(args['block-interval']) * 1000;
+const TX_INTERVAL_MS = 1000 / Number(args['tx-rate']);
+const SYNC_STATUS_INTERVAL_MS = 2000;
+
+/** @type {Set<{ send: (text: string) => void, events: Set<string> }>} */
+const clients = new Set();
+
+/**
+ * Send an event to every client subscribed to it
+ */
+function broadcast(event, data) {
+	const frame = JSON.stringify({ event, data });
+	for (const client of clients) {
+		if (client.events.has(event)) client.send(frame);
+	}
+}
+
+function randomHash(leadingZeroBytes = 0) {
+	return '00'.repeat(leadingZeroBytes) + randomBytes(32 - leadingZeroBytes).toString('hex');
+}
+
+/*
+ * Synthetic network activity
+ */
+
+let tipHeight = 870000;
+let blocksPerSecond = 4.2;
+
+setInterval(() => {
+	// Blocks propagate: first announced by one peer, then more over ~10 seconds
+	const hash = randomHash(9);
+	const firstSeen = Date.now();
+	let peers = 1;
+	broadcast('block', { hash, first_seen: firstSeen, peer_count: peers });
+
+	const spread = setInterval(() => {
+		peers += 1 + Math.floor(Math.random() * 2);
+		broadcast('block', { hash, first_seen: firstSeen, peer_count: peers });
+		if (peers >= 8) clearInterval(spread);
+	}, 1500);
+}, BLOCK_INTERVAL_MS);
+
+setInterval(() => {
+	broadcast('tx', { txid: randomHash(), first_seen: Date.now() });
+}, TX_INTERVAL_MS);
+
+setInterval(() => {
+	tipHeight += Math.round(blocksPerSecond * (SYNC_STATUS_INTERVAL_MS / 1000));
+	blocksPerSecond = Math.max(0.5, blocksPerSecond + (Math.random() - 0.5));
+	broadcast('syncstatus', {
+		tip_height: tipHeight,
+		blocks_per_second: Number(blocksPerSecond.toFixed(2))
+	});
+}, SYNC_STATUS_INTERVAL_MS);
+
+/*
+ * Server
+ */
+
+const server = createServer((_request, response) => {
+	response.writeHead(426, { 'Content-Type': 'text/plain' });
+	response.end('Upgrade to WebSocket at /events\n');
+});
+
+server.on('upgrade', (request, socket) => {
+	if (new URL(request.url ?? '/', 'http://localhost').pathname !== '/events') {
+		socket.end('HTTP/1.1 404 Not Found\r\n\r\n');
+		return;
+	}
+
+	const client = { send: () => {}, events: new Set() };
+	const connection = acceptWebSocket(request, socket, {
+		onMessage(text) {
+			try {
+				const { subscribe } = JSON.parse(text);
+				if (Array.isArray(subscribe)) client.events = new Set(subscribe);
+			} catch {
+				// Ignore malformed client messages
+			}
+		},
+		onClose() {
+			clients.delete(client);
+			console.log(`Client disconnected (${clients.size} connected)`);
+		}
+	});
+	if (!connection) return;
+
+	client.send = connection.send;
+	clients.add(client);
+	console.log(`Client connected (${clients.size} connected)`);
+});
+
+server.listen(PORT, () => {
+	console.log(`Event stream: ws://localhost:${PORT}/events`);
+	console.log(`Blocks every ${BLOCK_INTERVAL_MS / 1000}s, ${args['tx-rate']} tx/s`);
+});
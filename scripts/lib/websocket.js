@@ -0,0 +1,151 @@
+/**
+ * Bitcoin Echo GUI — Minimal WebSocket server helper
+ *
+ * Just enough of RFC 6455 for the local development servers: the upgrade
+ * handshake, unfragmented text frames in both directions, ping/pong and
+ * close. Zero dependencies, in keeping with the node itself.
+ */
+
+import { createHash } from 'node:crypto';
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+/**
+ * Encode a single unmasked server frame
+ *
+ * @param {number} opcode
+ * @param {Buffer} payload
+ * @returns {Buffer}
+ */
+function encodeFrame(opcode, payload) {
+	let header;
+	if (payload.length < 126) {
+		header = Buffer.alloc(2);
+		header[1] = payload.length;
+	} else if (payload.length < 65536) {
+		header = Buffer.alloc(4);
+		header[1] = 126;
+		header.writeUInt16BE(payload.length, 2);
+	} else {
+		header = Buffer.alloc(10);
+		header[1] = 127;
+		header.writeBigUInt64BE(BigInt(payload.length), 2);
+	}
+	header[0] = 0x80 | opcode; // FIN + opcode
+	return Buffer.concat([header, payload]);
+}
+
+/**
+ * Decode as many complete client frames as the buffer holds
+ *
+ * @param {Buffer} buffer
+ * @returns {{ frames: Array<{ opcode: number, payload: Buffer }>, rest: Buffer }}
+ */
+function decodeFrames(buffer) {
+	const frames = [];
+	let offset = 0;
+
+	while (buffer.length - offset >= 2) {
+		const opcode = buffer[offset] & 0x0f;
+		const masked = (buffer[offset + 1] & 0x80) !== 0;
+		let length = buffer[offset + 1] & 0x7f;
+		let cursor = offset + 2;
+
+		if (length === 126) {
+			if (buffer.length < cursor + 2) break;
+			length = buffer.readUInt16BE(cursor);
+			cursor += 2;
+		} else if (length === 127) {
+			if (buffer.length < cursor + 8) break;
+			length = Number(buffer.readBigUInt64BE(cursor));
+			cursor += 8;
+		}
+
+		const maskLength = masked ? 4 : 0;
+		if (buffer.length < cursor + maskLength + length) break;
+
+		const mask = masked ? buffer.subarray(cursor, cursor + 4) : null;
+		cursor += maskLength;
+		const payload = Buffer.from(buffer.subarray(cursor, cursor + length));
+		if (mask) {
+			for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+		}
+
+		frames.push({ opcode, payload });
+		offset = cursor + length;
+	}
+
+	return { frames, rest: buffer.subarray(offset) };
+}
+
+/**
+ * Complete a WebSocket upgrade and return a small connection object
+ *
+ * @param {import('node:http').IncomingMessage} request
+ * @param {import('node:stream').Duplex} socket
+ * @param {{ onMessage?: (text: string) => void, onClose?: () => void }} handlers
+ * @returns {{ send: (text: string) => void, close: () => void } | null}
+ */
+export function acceptWebSocket(request, socket, handlers = {}) {
+	const key = request.headers['sec-websocket-key'];
+	if (typeof key !== 'string') {
+		socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+		return null;
+	}
+
+	const accept = createHash('sha1')
+		.update(key + HANDSHAKE_GUID)
+		.digest('base64');
+
+	socket.write(
+		'HTTP/1.1 101 Switching Protocols\r\n' +
+			'Upgrade: websocket\r\n' +
+			'Connection: Upgrade\r\n' +
+			`Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+	);
+
+	let open = true;
+	let pending = Buffer.alloc(0);
+
+	const close = () => {
+		if (!open) return;
+		open = false;
+		socket.end(encodeFrame(OPCODE_CLOSE, Buffer.alloc(0)));
+		handlers.onClose?.();
+	};
+
+	socket.on('data', (chunk) => {
+		const { frames, rest } = decodeFrames(Buffer.concat([pending, chunk]));
+		pending = rest;
+
+		for (const frame of frames) {
+			if (frame.opcode === OPCODE_TEXT) {
+				handlers.onMessage?.(frame.payload.toString('utf8'));
+			} else if (frame.opcode === OPCODE_PING) {
+				socket.write(encodeFrame(OPCODE_PONG, frame.payload));
+			} else if (frame.opcode === OPCODE_CLOSE) {
+				close();
+			}
+		}
+	});
+
+	socket.on('close', () => {
+		if (open) {
+			open = false;
+			handlers.onClose?.();
+		}
+	});
+	socket.on('error', () => socket.destroy());
+
+	return {
+		send(text) {
+			if (open) socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(text, 'utf8')));
+		},
+		close
+	};
+}
@@ -0,0 +1,1040 @@
+#!/usr/bin/env node
+/**
+ * Bitcoin Echo GUI — Simulated node
+ *
+ * A scriptable fake Bitcoin Echo node for offline development and demos.
+ * Speaks the JSON-RPC surface the GUI uses (single and batch requests) and
+ * serves the /events WebSocket stream on the same port.
+ *
+ * Usage:
+ *   npm run sim -- --scenario ibd [--port 8332] [--speed 25] [--start-height 205000]
+ *   npm run sim -- --list
+ *
+ * Options:
+ *   --scenario <name|file>   Built-in scenario or path to a custom scenario module
+ *   --network-height <n>     Height of the simulated network tip
+ *   --start-height <n>       Validated height when the node starts
+ *   --speed <n>              Blocks per second during IBD
+ *   --no-syncstatus          Emulate an older node without getsyncstatus
+ *   --drift                  Rename getsyncstatus.eta_seconds (exercises schema validation)
+ *   --rpcuser / --rpcpassword  Require HTTP Basic auth
+ */
+
+import { createServer } from 'node:http';
+import { createHash, randomBytes } from 'node:crypto';
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { parseArgs } from 'node:util';
+import { acceptWebSocket } from './lib/websocket.js';
+import { SCENARIOS, DEFAULT_OPTIONS, diskUsage, PRUNE_TARGET_BYTES } from './sim/scenarios.js';
+import { buildTransaction, decodeTransaction } from './sim/transactions.js';
+
+const { values: args } = parseArgs({
+	options: {
+		scenario: { type: 'string', default: 'ibd' },
+		port: { type: 'string', default: '8332' },
+		'network-height': { type: 'string' },
+		'start-height': { type: 'string' },
+		speed: { type: 'string' },
+		'no-syncstatus': { type: 'boolean', default: false },
+		drift: { type: 'boolean', default: false },
+		rpcuser: { type: 'string' },
+		rpcpassword: { type: 'string' },
+		list: { type: 'boolean', default: false }
+	}
+});
+
+if (args.list) {
+	for (const [name, scenario] of Object.entries(SCENARIOS)) {
+		console.log(`${name.padEnd(16)} ${scenario.description}`);
+	}
+	process.exit(0);
+}
+
+/**
+ * Load a built-in scenario by name, or a custom one from a module path
+ */
+async function loadScenario(name) {
+	if (SCENARIOS[name]) return SCENARIOS[name];
+	const module = await import(pathToFileURL(resolve(name)).href);
+	return module.default;
+}
+
+const scenario = await loadScenario(args.scenario);
+const options = {
+	networkHeight: Number(args['network-height'] ?? DEFAULT_OPTIONS.networkHeight),
+	startHeight: Number(args['start-height'] ?? DEFAULT_OPTIONS.startHeight),
+	speed: Number(args.speed ?? DEFAULT_OPTIONS.speed)
+};
+
+const PORT = Number(args.port);
+const VERSION = 'BitcoinEcho:0.0.0-sim';
+const OBSERVED_LIMIT = 100;
+const startedAt = Date.now();
+
+/*
+ * Simulation state
+ */
+
+const observedBlocks = [];
+const observedTxs = [];
+const messages = {
+	version: 0,
+	verack: 0,
+	ping: 0,
+	pong: 0,
+	addr: 0,
+	inv: 0,
+	getdata: 0,
+	block: 0,
+	tx: 0,
+	headers: 0,
+	getblocks: 0,
+	getheaders: 0,
+	other: 0
+};
+
+let lastPeers = 0;
+const initial = scenario.state(0, options);
+const startBlocks = initial.blocks;
+
+function elapsedSeconds() {
+	return (Date.now() - startedAt) / 1000;
+}
+
+function current() {
+	return scenario.state(elapsedSeconds(), options);
+}
+
+/** @type {Map<string, number>} Heights of every hash handed out, for getblockheader */
+const heightsByHash = new Map();
+
+function hashForHeight(height) {
+	const hash = '00000000' + createHash('sha256').update(`sim-block-${height}`).digest('hex').slice(8);
+	heightsByHash.set(hash, height);
+	return hash;
+}
+
+/** @type {Map<number, Array<{ txid: string, size: number, weight: number }>>} Transactions of each block built so far */
+const txsByHeight = new Map();
+
+/** @type {Map<string, { height: number, index: number }>} Where each handed-out txid lives */
+const txLocations = new Map();
+
+function txCountAt(height) {
+	return height === 0 ? 1 : 1 + (height % 3000);
+}
+
+/** @type {Map<string, { tx: ReturnType<typeof decodeTransaction>, fee: number, time: number, height: number, announced: boolean }>} Transactions accepted by sendrawtransaction, plus the relayed background */
+const mempool = new Map();
+
+/** @type {Map<string, Set<string>>} Unconfirmed children of each mempool transaction */
+const mempoolChildren = new Map();
+
+/** Feerate (sat/vB) assumed when a submitted tx spends outputs the sim never created */
+const ASSUMED_FEERATE = 12;
+
+/** sendrawtransaction / testmempoolaccept default maxfeerate (BTC/kvB) */
+const DEFAULT_MAX_FEERATE = 0.1;
+
+/** Background transactions in the mempool at startup */
+const MEMPOOL_SEED = 6000;
+
+/** Block space mined from the mempool per announced block (scaled down so a backlog persists) */
+const SIM_BLOCK_VSIZE = 150_000;
+
+/** Chance a relayed transaction spends an unconfirmed parent */
+const CHILD_CHANCE = 0.12;
+
+/** @type {string[]} Recently relayed txids, candidates to be parents */
+const recentRelayed = [];
+
+function gaussian() {
+	return Math.sqrt(-2 * Math.log(1 - Math.random())) * Math.cos(2 * Math.PI * Math.random());
+}
+
+function addToMempool(entry) {
+	mempool.set(entry.tx.txid, entry);
+	for (const input of entry.tx.inputs) {
+		if (!mempool.has(input.txid)) continue;
+		if (!mempoolChildren.has(input.txid)) mempoolChildren.set(input.txid, new Set());
+		mempoolChildren.get(input.txid).add(entry.tx.txid);
+	}
+}
+
+function removeFromMempool(txid) {
+	const entry = mempool.get(txid);
+	if (!entry) return;
+	mempool.delete(txid);
+	mempoolChildren.delete(txid);
+	for (const input of entry.tx.inputs) mempoolChildren.get(input.txid)?.delete(txid);
+}
+
+/**
+ * A transaction relayed by peers: log-normal feerate around 4 sat/vB with a long tail
+ */
+function addRelayedTx() {
+	const txid = randomBytes(32).toString('hex');
+	const vsize = 110 + Math.floor(Math.random() ** 2 * 900);
+	const feerate = Math.max(1, Math.exp(Math.log(4) + gaussian() * 1.1));
+	const inputs = [{ txid: randomBytes(32).toString('hex'), vout: 0, sequence: 0xfffffffd }];
+
+	const parent = recentRelayed[Math.floor(Math.random() * recentRelayed.length)];
+	if (parent && mempool.has(parent) && Math.random() < CHILD_CHANCE) {
+		inputs.push({ txid: parent, vout: 0, sequence: 0xfffffffd });
+	}
+
+	addToMempool({
+		tx: { txid, wtxid: txid, vsize, weight: vsize * 4, inputs, outputs: [] },
+		fee: Math.round(feerate * vsize),
+		time: Math.floor(Date.now() / 1000),
+		height: current().blocks,
+		announced: true
+	});
+	recentRelayed.push(txid);
+	if (recentRelayed.length > 50) recentRelayed.shift();
+	return txid;
+}
+
+/**
+ * Mine the best-paying transactions whose parents are mined too
+ */
+function mineMempool() {
+	const byFeerate = [...mempool.values()].sort((a, b) => b.fee / b.tx.vsize - a.fee / a.tx.vsize);
+	const mined = new Set();
+	let used = 0;
+	for (const entry of byFeerate) {
+		if (used + entry.tx.vsize > SIM_BLOCK_VSIZE) continue;
+		const parentsReady = entry.tx.inputs.every((input) => !mempool.has(input.txid) || mined.has(input.txid));
+		if (!parentsReady) continue;
+		mined.add(entry.tx.txid);
+		used += entry.tx.vsize;
+	}
+	for (const txid of mined) removeFromMempool(txid);
+}
+
+/**
+ * In-mempool relatives of a transaction, following parents or children
+ */
+function mempoolRelatives(txid, direction) {
+	const found = new Set();
+	const next = (id) =>
+		direction === 'ancestors'
+			? mempool.get(id).tx.inputs.map((input) => input.txid).filter((parent) => mempool.has(parent))
+			: [...(mempoolChildren.get(id) ?? [])];
+	const stack = next(txid);
+	while (stack.length > 0) {
+		const id = stack.pop();
+		if (found.has(id)) continue;
+		found.add(id);
+		stack.push(...next(id));
+	}
+	return [...found].map((id) => mempool.get(id));
+}
+
+/**
+ * getmempoolentry / getrawmempool verbose entry
+ */
+function describeMempoolEntry(entry) {
+	const ancestors = mempoolRelatives(entry.tx.txid, 'ancestors');
+	const descendants = mempoolRelatives(entry.tx.txid, 'descendants');
+	const sum = (list, field) => list.reduce((total, e) => total + (field === 'fee' ? e.fee : e.tx.vsize), 0);
+	const fee = entry.fee / 1e8;
+	return {
+		vsize: entry.tx.vsize,
+		weight: entry.tx.weight,
+		time: entry.time,
+		height: entry.height,
+		descendantcount: descendants.length + 1,
+		descendantsize: sum(descendants, 'vsize') + entry.tx.vsize,
+		ancestorcount: ancestors.length + 1,
+		ancestorsize: sum(ancestors, 'vsize') + entry.tx.vsize,
+		wtxid: entry.tx.wtxid,
+		fees: {
+			base: fee,
+			modified: fee,
+			ancestor: (sum(ancestors, 'fee') + entry.fee) / 1e8,
+			descendant: (sum(descendants, 'fee') + entry.fee) / 1e8
+		},
+		depends: [...new Set(entry.tx.inputs.map((input) => input.txid).filter((txid) => mempool.has(txid)))],
+		spentby: [...(mempoolChildren.get(entry.tx.txid) ?? [])],
+		'bip125-replaceable': entry.tx.inputs.some((input) => input.sequence < 0xfffffffe),
+		unbroadcast: !entry.announced
+	};
+}
+
+if (scenario.mode === 'full') {
+	for (let i = 0; i < MEMPOOL_SEED; i++) addRelayedTx();
+}
+
+/**
+ * Transactions of a block, building (and remembering) them on first use
+ */
+function txsAt(height) {
+	let txs = txsByHeight.get(height);
+	if (!txs) {
+		txs = Array.from({ length: txCountAt(height) }, (_, index) => {
+			const { txid, size, weight } = buildTransaction(height, index);
+			txLocations.set(txid, { height, index });
+			return { txid, size, weight };
+		});
+		txsByHeight.set(height, txs);
+	}
+	return txs;
+}
+
+/**
+ * Simulated difficulty: 1 for the CPU-mining era, then a steep climb to today
+ */
+function difficultyAt(height) {
+	return height < 32256 ? 1 : Math.round(1.1e14 * (height / options.networkHeight) ** 6);
+}
+
+/**
+ * Simulated block time: the network tip is "now", ten minutes per block before it
+ */
+function timeAt(height) {
+	return Math.floor(Date.now() / 1000) - (options.networkHeight - height) * 600;
+}
+
+/*
+ * Peers: getpeerinfo follows the scenario's peer count; disconnected or
+ * banned peers are replaced by fresh connections on the next step
+ */
+
+/** @type {Map<number, object>} */
+const peers = new Map();
+/** @type {Map<string, { ban_created: number, banned_until: number }>} Keyed by subnet ("1.2.3.4/32") */
+const bans = new Map();
+let nextPeerId = 0;
+
+const PEER_AGENTS = [
+	'/Satoshi:28.1.0/',
+	'/Satoshi:28.0.0/',
+	'/Satoshi:27.1.0/',
+	'/Satoshi:27.0.0/',
+	'/Satoshi:26.1.0/',
+	'/Satoshi:25.0.0/',
+	'/Satoshi:28.1.0(Knots)/',
+	'/btcd:0.24.2/',
+	`/${VERSION}/`
+];
+
+/** NETWORK | WITNESS | NETWORK_LIMITED, with COMPACT_FILTERS and P2P_V2 on some */
+const PEER_SERVICES = [0x409, 0x409, 0xc09, 0xc49, 0x408];
+
+/** Bits getpeerinfo names in servicesnames */
+const SERVICE_NAMES = [
+	[0, 'NETWORK'],
+	[3, 'WITNESS'],
+	[6, 'COMPACT_FILTERS'],
+	[10, 'NETWORK_LIMITED'],
+	[11, 'P2P_V2']
+];
+
+const BASE32 = 'abcdefghijklmnopqrstuvwxyz234567';
+
+function randomPeerAddress() {
+	const roll = Math.random();
+	if (roll < 0.7) {
+		const octets = [...randomBytes(4)].map((byte, i) => (i === 0 ? 1 + (byte % 222) : byte));
+		return { addr: `${octets.join('.')}:8333`, network: 'ipv4' };
+	}
+	if (roll < 0.85) {
+		const groups = [...Array(8)].map((_, i) => (i === 0 ? '2a01' : randomBytes(2).toString('hex')));
+		return { addr: `[${groups.join(':')}]:8333`, network: 'ipv6' };
+	}
+	const host = [...randomBytes(56)].map((byte) => BASE32[byte % 32]).join('');
+	return { addr: `${host}.onion:8333`, network: 'onion' };
+}
+
+function peerHost(addr) {
+	return addr.replace(/:\d+$/, '').replace(/^\[|\]$/g, '');
+}
+
+function isBanned(addr) {
+	const now = Math.floor(Date.now() / 1000);
+	for (const [subnet, ban] of bans) {
+		if (ban.banned_until <= now) bans.delete(subnet);
+	}
+	return bans.has(`${peerHost(addr)}/${addr.startsWith('[') ? 128 : 32}`);
+}
+
+function connectPeer(state) {
+	let address = randomPeerAddress();
+	while (isBanned(address.addr)) address = randomPeerAddress();
+	const inbound = Math.random() < 0.3;
+	const now = Math.floor(Date.now() / 1000);
+	const ping = 0.02 + Math.random() * 0.25;
+	const id = nextPeerId++;
+	peers.set(id, {
+		id,
+		...address,
+		services: PEER_SERVICES[Math.floor(Math.random() * PEER_SERVICES.length)],
+		subver: PEER_AGENTS[Math.floor(Math.random() * PEER_AGENTS.length)],
+		inbound,
+		connection_type: inbound ? 'inbound' : Math.random() < 0.25 ? 'block-relay-only' : 'outbound-full-relay',
+		conntime: now,
+		lastsend: now,
+		lastrecv: now,
+		last_block: 0,
+		bytessent: 0,
+		bytesrecv: 0,
+		baseping: ping,
+		pingtime: ping,
+		minping: ping,
+		startingheight: state.headers || state.blocks
+	});
+}
+
+/**
+ * Peers blocks are being downloaded from (outbound full-relay, as Core prefers)
+ */
+function servingPeers(state) {
+	return [...peers.values()]
+		.filter((peer) => peer.connection_type === 'outbound-full-relay')
+		.slice(0, state.activeSyncPeers);
+}
+
+/**
+ * Match the scenario's peer count and advance each peer's traffic
+ */
+function stepPeers(state) {
+	while (peers.size < state.peers) connectPeer(state);
+	for (const id of [...peers.keys()].slice(0, Math.max(0, peers.size - state.peers))) peers.delete(id);
+
+	const now = Math.floor(Date.now() / 1000);
+	const servers = servingPeers(state);
+
+	for (const peer of peers.values()) {
+		const serving = servers.includes(peer);
+		peer.bytessent += 200 + Math.floor(Math.random() * 400);
+		peer.bytesrecv +=
+			200 + Math.floor(Math.random() * 2000) + (serving ? Math.round((state.blocksPerSecond / servers.length) * 1.5e6) : 0);
+		peer.lastsend = now;
+		peer.lastrecv = now;
+		peer.pingtime = peer.baseping * (0.8 + Math.random() * 0.6);
+		peer.minping = Math.min(peer.minping, peer.pingtime);
+		if (serving) peer.last_block = now;
+	}
+}
+
+function describePeer(peer, state, servers) {
+	const full = scenario.mode === 'full';
+	const serving = servers.indexOf(peer);
+	const inflight = [];
+	if (serving >= 0 && state.syncMode === 'BLOCKS') {
+		const start = state.blocks + 1 + serving * 16;
+		for (let height = start; height < start + 16 && height <= state.headers; height++) inflight.push(height);
+	}
+	return {
+		id: peer.id,
+		addr: peer.addr,
+		network: peer.network,
+		services: peer.services.toString(16).padStart(16, '0'),
+		servicesnames: SERVICE_NAMES.filter(([bit]) => peer.services & (1 << bit)).map(([, name]) => name),
+		relaytxes: peer.connection_type !== 'block-relay-only',
+		lastsend: peer.lastsend,
+		lastrecv: peer.lastrecv,
+		last_block: peer.last_block,
+		bytessent: peer.bytessent,
+		bytesrecv: peer.bytesrecv,
+		conntime: peer.conntime,
+		pingtime: Number(peer.pingtime.toFixed(6)),
+		minping: Number(peer.minping.toFixed(6)),
+		version: 70016,
+		subver: peer.subver,
+		inbound: peer.inbound,
+		connection_type: peer.connection_type,
+		startingheight: peer.startingheight,
+		synced_headers: full ? state.headers : -1,
+		synced_blocks: full ? Math.min(state.blocks, state.headers) : -1,
+		inflight
+	};
+}
+
+function pushRing(list, item) {
+	list.push(item);
+	if (list.length > OBSERVED_LIMIT) list.shift();
+}
+
+/** @type {Set<{ send: (text: string) => void, events: Set<string> }>} */
+const eventClients = new Set();
+
+function broadcast(event, data) {
+	const frame = JSON.stringify({ event, data });
+	for (const client of eventClients) {
+		if (client.events.has(event)) client.send(frame);
+	}
+}
+
+/**
+ * Advance message counters and announcements once per second
+ */
+function step() {
+	const state = current();
+	stepPeers(state);
+
+	if (state.peers > lastPeers) {
+		messages.version += state.peers - lastPeers;
+		messages.verack += state.peers - lastPeers;
+	}
+	lastPeers = state.peers;
+
+	messages.ping += Math.round(state.peers / 4);
+	messages.pong += Math.round(state.peers / 4);
+	messages.addr += state.peers > 0 && Math.random() < 0.2 ? 1 : 0;
+	messages.headers += state.syncMode === 'HEADERS' ? state.peers : 0;
+	messages.block += Math.round(state.blocksPerSecond);
+	messages.getheaders += state.syncMode === 'HEADERS' ? 1 : 0;
+
+	if (!state.announcing) return;
+
+	// Transaction announcements: a handful per second, each from several peers
+	const txCount = 1 + Math.floor(Math.random() * 4);
+	for (let i = 0; i < txCount; i++) {
+		// A validating node keeps what it's told about in its mempool
+		const txid = scenario.mode === 'full' ? addRelayedTx() : randomBytes(32).toString('hex');
+		const tx = { txid, first_seen: Date.now() };
+		pushRing(observedTxs, tx);
+		messages.inv += state.peers;
+		messages.tx += 1;
+		broadcast('tx', tx);
+	}
+
+	// More arrive than get announced to us individually
+	if (scenario.mode === 'full') {
+		const unannounced = Math.floor(Math.random() * 10);
+		for (let i = 0; i < unannounced; i++) addRelayedTx();
+	}
+
+	// Block announcements roughly every 45 seconds, spreading over a few peers
+	const latest = observedBlocks.findLast((block) => !staleHashes.has(block.hash));
+	if (latest && latest.peer_count < state.peers && Date.now() - latest.first_seen < 15000) {
+		latest.peer_count += 1;
+		messages.inv += 1;
+		broadcast('block', { ...latest });
+	} else if (Math.random() < 1 / 45) {
+		announceBlock();
+		if (scenario.mode === 'full') mineMempool();
+		// Now and then a competing block at the same height turns up, reaches a peer or two and loses
+		if (Math.random() < COMPETING_BLOCK_CHANCE) {
+			setTimeout(() => staleHashes.add(announceBlock().hash), 2000 + Math.random() * 6000);
+		}
+	}
+}
+
+/** Share of new blocks that get a short-lived competitor */
+const COMPETING_BLOCK_CHANCE = 0.15;
+
+/** @type {Set<string>} Announced blocks that lost a race (they stop spreading) */
+const staleHashes = new Set();
+
+function announceBlock() {
+	const block = {
+		hash: '000000000000000000' + randomBytes(23).toString('hex'),
+		first_seen: Date.now(),
+		peer_count: 1
+	};
+	pushRing(observedBlocks, block);
+	messages.inv += 1;
+	broadcast('block', { ...block });
+	return block;
+}
+
+setInterval(step, 1000);
+
+// Sync status deltas for push clients
+setInterval(() => {
+	if (scenario.mode !== 'full' || args['no-syncstatus']) return;
+	const state = current();
+	broadcast('syncstatus', {
+		mode: state.syncMode,
+		tip_height: state.blocks,
+		blocks_per_second: state.blocksPerSecond,
+		active_sync_peers: state.activeSyncPeers,
+		total_peers: state.peers
+	});
+}, 2000);
+
+/*
+ * RPC methods
+ */
+
+class RPCMethodError extends Error {
+	constructor(code, message) {
+		super(message);
+		this.code = code;
+	}
+}
+
+const METHOD_NOT_FOUND = -32601;
+
+function requireFullMode() {
+	if (scenario.mode !== 'full') {
+		throw new RPCMethodError(METHOD_NOT_FOUND, 'Method not available in observer mode');
+	}
+}
+
+const methods = {
+	getobserverstats() {
+		const state = current();
+		return {
+			mode: scenario.mode,
+			uptime_seconds: Math.floor(elapsedSeconds()),
+			peer_count: state.peers,
+			start_height: startBlocks,
+			messages_received: { ...messages }
+		};
+	},
+
+	getobservedblocks() {
+		return { blocks: observedBlocks.map((block) => ({ ...block })) };
+	},
+
+	getobservedtxs() {
+		return { transactions: observedTxs.map((tx) => ({ ...tx })) };
+	},
+
+	getblockchaininfo() {
+		requireFullMode();
+		const state = current();
+		const pruned = Boolean(scenario.pruned);
+		return {
+			chain: 'main',
+			blocks: state.blocks,
+			headers: state.headers,
+			bestblockhash: hashForHeight(state.blocks),
+			difficulty: difficultyAt(state.blocks),
+			mediantime: Math.floor(Date.now() / 1000) - 3600,
+			verificationprogress: state.blocks / options.networkHeight,
+			initialblockdownload: state.syncMode !== 'DONE',
+			chainwork: (BigInt(state.blocks) * 2n ** 64n).toString(16).padStart(64, '0'),
+			size_on_disk: diskUsage(state.blocks, pruned),
+			pruned,
+			...(pruned && {
+				pruneheight: Math.max(0, state.blocks - 14000),
+				prune_target_size: PRUNE_TARGET_BYTES
+			})
+		};
+	},
+
+	getsyncstatus() {
+		requireFullMode();
+		if (args['no-syncstatus']) {
+			throw new RPCMethodError(METHOD_NOT_FOUND, 'Method not found');
+		}
+		const state = current();
+		const remaining = Math.max(0, options.networkHeight - state.blocks);
+		const eta = state.blocksPerSecond > 0 ? Math.round(remaining / state.blocksPerSecond) : 0;
+		return {
+			mode: state.syncMode,
+			blocks_validated: state.blocks - startBlocks,
+			best_header_height: state.headers,
+			tip_height: state.blocks,
+			blocks_pending: Math.min(remaining, 1024),
+			blocks_in_flight: Math.min(remaining, state.activeSyncPeers * 16),
+			sync_percentage: (state.blocks / options.networkHeight) * 100,
+			blocks_per_second: state.blocksPerSecond,
+			...(args.drift ? { eta } : { eta_seconds: eta }),
+			network_median_latency_ms: 80 + Math.round(Math.random() * 40),
+			active_sync_peers: state.activeSyncPeers,
+			total_peers: state.peers,
+			initialblockdownload: state.syncMode !== 'DONE'
+		};
+	},
+
+	getblockhash(height) {
+		requireFullMode();
+		if (!Number.isInteger(height) || height < 0 || height > current().blocks) {
+			throw new RPCMethodError(-8, 'Block height out of range');
+		}
+		return hashForHeight(height);
+	},
+
+	getblockheader(hash) {
+		requireFullMode();
+		const height = heightsByHash.get(hash);
+		const tip = current().blocks;
+		if (height === undefined || height > tip) {
+			throw new RPCMethodError(-5, 'Block not found');
+		}
+		return {
+			hash,
+			confirmations: tip - height + 1,
+			height,
+			version: 0x20000000,
+			versionHex: '20000000',
+			merkleroot: createHash('sha256').update(`sim-merkle-${height}`).digest('hex'),
+			time: timeAt(height),
+			mediantime: timeAt(height) - 3600,
+			nonce: (height * 7919) % 2 ** 32,
+			bits: '17034219',
+			difficulty: difficultyAt(height),
+			chainwork: (BigInt(height) * 2n ** 64n).toString(16).padStart(64, '0'),
+			nTx: txCountAt(height),
+			...(height > 0 && { previousblockhash: hashForHeight(height - 1) }),
+			...(height < tip && { nextblockhash: hashForHeight(height + 1) })
+		};
+	},
+
+	getblock(hash, verbosity = 1) {
+		const header = methods.getblockheader(hash);
+		if (verbosity !== 1) {
+			throw new RPCMethodError(-8, 'Only verbosity 1 is simulated');
+		}
+		const { height } = header;
+		const txs = txsAt(height);
+		// Header plus a 3-byte transaction count
+		const size = 83 + txs.reduce((sum, t) => sum + t.size, 0);
+		const weight = 332 + txs.reduce((sum, t) => sum + t.weight, 0);
+		return {
+			...header,
+			size,
+			strippedsize: Math.round((weight - size) / 3),
+			weight,
+			tx: txs.map((t) => t.txid)
+		};
+	},
+
+	getrawtransaction(txid, verbose = false, blockhash) {
+		requireFullMode();
+		if (blockhash !== undefined) txsAt(methods.getblockheader(blockhash).height);
+		const location = txLocations.get(txid);
+		if (!location) {
+			throw new RPCMethodError(-5, 'No such mempool or blockchain transaction');
+		}
+		const tx = buildTransaction(location.height, location.index, verbose === 2 ? 2 : 1);
+		if (!verbose) return tx.hex;
+
+		const tip = current().blocks;
+		return {
+			...tx,
+			blockhash: hashForHeight(location.height),
+			confirmations: tip - location.height + 1,
+			time: timeAt(location.height),
+			blocktime: timeAt(location.height)
+		};
+	},
+
+	testmempoolaccept(rawtxs, maxfeerate = DEFAULT_MAX_FEERATE) {
+		requireFullMode();
+		return rawtxs.map((hex) => {
+			const { verdict } = checkMempoolAccept(hex, maxfeerate);
+			return verdict;
+		});
+	},
+
+	sendrawtransaction(hex, maxfeerate = DEFAULT_MAX_FEERATE) {
+		requireFullMode();
+		const { verdict, tx, fee } = checkMempoolAccept(hex, maxfeerate);
+		if (verdict['reject-reason'] === 'txn-already-in-mempool') return tx.txid;
+		if (!verdict.allowed) {
+			const reason = verdict['reject-reason'];
+			throw new RPCMethodError(reason === 'max-fee-exceeded' ? -25 : -26, reason);
+		}
+
+		const state = current();
+		const entry = { tx, fee, time: Math.floor(Date.now() / 1000), height: state.blocks, announced: false };
+		addToMempool(entry);
+
+		// Peers announce it back after a moment, as a real relay would look
+		if (state.peers > 0) {
+			setTimeout(() => {
+				entry.announced = true;
+				const announced = { txid: tx.txid, first_seen: Date.now() };
+				pushRing(observedTxs, announced);
+				messages.inv += current().peers;
+				broadcast('tx', announced);
+			}, 1500 + Math.random() * 2500);
+		}
+		return tx.txid;
+	},
+
+	getmempoolentry(txid) {
+		requireFullMode();
+		const entry = mempool.get(txid);
+		if (!entry) throw new RPCMethodError(-5, 'Transaction not in mempool');
+		return describeMempoolEntry(entry);
+	},
+
+	getrawmempool(verbose = false) {
+		requireFullMode();
+		if (!verbose) return [...mempool.keys()];
+		return Object.fromEntries([...mempool].map(([txid, entry]) => [txid, describeMempoolEntry(entry)]));
+	},
+
+	getmempoolinfo() {
+		requireFullMode();
+		const entries = [...mempool.values()];
+		const bytes = entries.reduce((sum, entry) => sum + entry.tx.vsize, 0);
+		return {
+			loaded: true,
+			size: entries.length,
+			bytes,
+			usage: bytes * 4,
+			total_fee: entries.reduce((sum, entry) => sum + entry.fee, 0) / 1e8,
+			maxmempool: 300_000_000,
+			mempoolminfee: 0.00001,
+			minrelaytxfee: 0.00001,
+			incrementalrelayfee: 0.00001,
+			unbroadcastcount: entries.filter((entry) => !entry.announced).length,
+			fullrbf: true
+		};
+	},
+
+	getpeerinfo() {
+		const state = current();
+		const servers = servingPeers(state);
+		return [...peers.values()].map((peer) => describePeer(peer, state, servers));
+	},
+
+	disconnectnode(address = '', nodeid) {
+		const peer =
+			nodeid !== undefined
+				? peers.get(nodeid)
+				: [...peers.values()].find((candidate) => candidate.addr === address);
+		if (!peer) throw new RPCMethodError(-29, 'Node not found in connected nodes');
+		peers.delete(peer.id);
+		return null;
+	},
+
+	setban(subnet, command, bantime = 86400, absolute = false) {
+		const host = String(subnet ?? '').replace(/\/\d+$/, '');
+		const ipv4 = /^\d{1,3}(\.\d{1,3}){3}$/.test(host);
+		const ipv6 = !ipv4 && /^[0-9a-f:]+$/i.test(host) && host.includes(':');
+		if (!ipv4 && !ipv6) throw new RPCMethodError(-30, 'Error: Invalid IP/Subnet');
+		const key = subnet.includes('/') ? subnet : `${host}/${ipv4 ? 32 : 128}`;
+
+		if (command === 'remove') {
+			if (!bans.delete(key)) {
+				throw new RPCMethodError(-30, 'Error: Unban failed. Requested address/subnet was not previously manually banned.');
+			}
+			return null;
+		}
+		if (command !== 'add') throw new RPCMethodError(-8, 'Invalid command: use "add" or "remove"');
+		if (bans.has(key)) throw new RPCMethodError(-23, 'Error: IP/Subnet already banned');
+
+		const now = Math.floor(Date.now() / 1000);
+		bans.set(key, { ban_created: now, banned_until: absolute ? bantime : now + bantime });
+		for (const peer of [...peers.values()]) {
+			if (peerHost(peer.addr) === host) peers.delete(peer.id);
+		}
+		return null;
+	},
+
+	listbanned() {
+		const now = Math.floor(Date.now() / 1000);
+		return [...bans]
+			.filter(([, ban]) => ban.banned_until > now)
+			.map(([address, ban]) => ({
+				address,
+				ban_created: ban.ban_created,
+				banned_until: ban.banned_until,
+				ban_duration: ban.banned_until - ban.ban_created,
+				time_remaining: ban.banned_until - now
+			}));
+	},
+
+	getnetworkinfo() {
+		return {
+			version: 0,
+			subversion: `/${VERSION}/`,
+			protocolversion: 70016,
+			connections: current().peers
+		};
+	},
+
+	help(command) {
+		if (command === undefined) {
+			return Object.entries(HELP)
+				.map(([section, entries]) => `== ${section} ==\n${entries.join('\n')}`)
+				.join('\n\n');
+		}
+		const signature = Object.values(HELP)
+			.flat()
+			.find((entry) => entry.split(' ')[0] === command);
+		return signature ? `${signature}\n\n(sim-node has no detailed help)` : `help: unknown command: ${command}`;
+	}
+};
+
+/**
+ * Method signatures for help, grouped the way Bitcoin Core groups them
+ */
+const HELP = {
+	Blockchain: [
+		'getblock "blockhash" ( verbosity )',
+		'getblockchaininfo',
+		'getblockhash height',
+		'getblockheader "blockhash" ( verbose )',
+		'getmempoolentry "txid"',
+		'getmempoolinfo',
+		'getrawmempool ( verbose )'
+	],
+	Control: ['help ( "command" )'],
+	Network: [
+		'disconnectnode ( "address" nodeid )',
+		'getnetworkinfo',
+		'getpeerinfo',
+		'listbanned',
+		'setban "subnet" "command" ( bantime absolute )'
+	],
+	Observer: ['getobservedblocks', 'getobservedtxs', 'getobserverstats', 'getsyncstatus'],
+	Rawtransactions: [
+		'getrawtransaction "txid" ( verbosity "blockhash" )',
+		'sendrawtransaction "hexstring" ( maxfeerate )',
+		'testmempoolaccept ["rawtx",...] ( maxfeerate )'
+	]
+};
+
+/**
+ * Mempool policy check shared by testmempoolaccept and sendrawtransaction
+ *
+ * Inputs spending sim block transactions are valued from those outputs;
+ * anything else is assumed to pay ASSUMED_FEERATE.
+ */
+function checkMempoolAccept(hex, maxfeerate) {
+	let tx;
+	try {
+		tx = decodeTransaction(hex);
+	} catch {
+		throw new RPCMethodError(-22, 'TX decode failed. Make sure the tx has at least one input.');
+	}
+
+	const reject = (reason) => ({
+		verdict: { txid: tx.txid, wtxid: tx.wtxid, allowed: false, 'reject-reason': reason },
+		tx,
+		fee: 0
+	});
+
+	if (tx.inputs.some((input) => input.coinbase)) return reject('coinbase');
+	if (mempool.has(tx.txid)) return reject('txn-already-in-mempool');
+	if (txLocations.has(tx.txid)) return reject('txn-already-known');
+
+	const outputTotal = tx.outputs.reduce((sum, output) => sum + output.value, 0);
+	let fee = tx.vsize * ASSUMED_FEERATE;
+	if (tx.inputs.every((input) => txLocations.has(input.txid))) {
+		let inputTotal = 0;
+		for (const input of tx.inputs) {
+			const { height, index } = txLocations.get(input.txid);
+			const spent = buildTransaction(height, index).vout[input.vout];
+			if (!spent) return reject('bad-txns-inputs-missingorspent');
+			inputTotal += Math.round(spent.value * 1e8);
+		}
+		fee = inputTotal - outputTotal;
+		if (fee < 0) return reject('bad-txns-in-belowout');
+	}
+
+	if (fee < tx.vsize) return reject('min relay fee not met');
+	if (maxfeerate > 0 && (fee / tx.vsize) * 1000 > maxfeerate * 1e8) return reject('max-fee-exceeded');
+
+	return {
+		verdict: { txid: tx.txid, wtxid: tx.wtxid, allowed: true, vsize: tx.vsize, fees: { base: fee / 1e8 } },
+		tx,
+		fee
+	};
+}
+
+/**
+ * Execute one JSON-RPC request object
+ */
+function execute(request) {
+	const id = request?.id ?? null;
+	const handler = methods[request?.method];
+
+	if (!handler) {
+		return { result: null, error: { code: METHOD_NOT_FOUND, message: 'Method not found' }, id };
+	}
+
+	try {
+		return { result: handler(...(request.params ?? [])), error: null, id };
+	} catch (error) {
+		const code = error instanceof RPCMethodError ? error.code : -1;
+		return { result: null, error: { code, message: error.message }, id };
+	}
+}
+
+/*
+ * HTTP server
+ */
+
+const CORS_HEADERS = {
+	'Access-Control-Allow-Origin': '*',
+	'Access-Control-Allow-Methods': 'POST, OPTIONS',
+	'Access-Control-Allow-Headers': 'Content-Type, Authorization'
+};
+
+function authorized(request) {
+	if (!args.rpcuser) return true;
+	const expected =
+		'Basic ' + Buffer.from(`${args.rpcuser}:${args.rpcpassword ?? ''}`).toString('base64');
+	return request.headers.authorization === expected;
+}
+
+const server = createServer((request, response) => {
+	if (request.method === 'OPTIONS') {
+		response.writeHead(204, CORS_HEADERS);
+		response.end();
+		return;
+	}
+
+	if (request.method !== 'POST') {
+		response.writeHead(405, CORS_HEADERS);
+		response.end();
+		return;
+	}
+
+	if (!authorized(request)) {
+		response.writeHead(401, { ...CORS_HEADERS, 'WWW-Authenticate': 'Basic realm="jsonrpc"' });
+		response.end();
+		return;
+	}
+
+	let body = '';
+	request.on('data', (chunk) => (body += chunk));
+	request.on('end', () => {
+		let payload;
+		try {
+			payload = JSON.parse(body);
+		} catch {
+			response.writeHead(400, CORS_HEADERS);
+			response.end();
+			return;
+		}
+
+		const result = Array.isArray(payload) ? payload.map(execute) : execute(payload);
+		response.writeHead(200, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+		response.end(JSON.stringify(result));
+	});
+});
+
+server.on('upgrade', (request, socket) => {
+	if (new URL(request.url ?? '/', 'http://localhost').pathname !== '/events') {
+		socket.end('HTTP/1.1 404 Not Found\r\n\r\n');
+		return;
+	}
+
+	const client = { send: () => {}, events: new Set() };
+	const connection = acceptWebSocket(request, socket, {
+		onMessage(text) {
+			try {
+				const { subscribe } = JSON.parse(text);
+				if (Array.isArray(subscribe)) client.events = new Set(subscribe);
+			} catch {
+				// Ignore malformed client messages
+			}
+		},
+		onClose: () => eventClients.delete(client)
+	});
+	if (!connection) return;
+
+	client.send = connection.send;
+	eventClients.add(client);
+});
+
+server.listen(PORT, () => {
+	console.log(`Simulated Bitcoin Echo node (${args.scenario}): http://localhost:${PORT}`);
+	console.log(`  ${scenario.description}`);
+	console.log(`  Event stream: ws://localhost:${PORT}/events`);
+	if (args.rpcuser) console.log(`  RPC auth required (user: ${args.rpcuser})`);
+});
@@ -0,0 +1,144 @@
+/**
+ * Bitcoin Echo GUI — Simulated node scenarios
+ *
+ * A scenario maps elapsed time to the node's observable state. The sim
+ * server turns that state into RPC responses, so every scenario is
+ * deterministic apart from the random hashes of announced blocks and txs.
+ *
+ * Custom scenarios: pass `--scenario ./path/to/file.js` where the module's
+ * default export has the same shape as the entries below:
+ *
+ *   {
+ *     description: string,
+ *     mode: 'observer' | 'full',
+ *     pruned?: boolean,
+ *     state(t: number, options): ScenarioState   // t = seconds since start
+ *   }
+ */
+
+/**
+ * @typedef {object} ScenarioState
+ * @property {number} peers - Connected peers
+ * @property {number} blocks - Validated height (full mode)
+ * @property {number} headers - Best header height (full mode)
+ * @property {number} blocksPerSecond - Current validation rate
+ * @property {string} syncMode - IDLE | HEADERS | BLOCKS | DONE | STALLED
+ * @property {number} activeSyncPeers - Peers currently serving blocks
+ * @property {boolean} announcing - Whether peers are relaying blocks/txs
+ */
+
+const MB = 1024 * 1024;
+
+/**
+ * Default options (overridable from the command line)
+ */
+export const DEFAULT_OPTIONS = {
+	networkHeight: 925000,
+	startHeight: 205000,
+	speed: 25 // blocks per second during simulated IBD
+};
+
+/**
+ * Peers ramp up over the first minute, like a real node finding its feet
+ */
+function peersAt(t, max = 8, delay = 5) {
+	if (t < delay) return 0;
+	return Math.min(max, 1 + Math.floor((t - delay) / 6));
+}
+
+/**
+ * Validation progress for a steady IBD from startHeight toward networkHeight
+ */
+function ibdState(t, options, { speed = options.speed, stallAfter = Infinity } = {}) {
+	const activeTime = Math.min(t, stallAfter);
+	const blocks = Math.min(options.networkHeight, Math.floor(options.startHeight + activeTime * speed));
+	const stalled = t >= stallAfter && blocks < options.networkHeight;
+	const done = blocks >= options.networkHeight;
+
+	return {
+		peers: stalled ? 0 : peersAt(t),
+		blocks,
+		headers: options.networkHeight,
+		blocksPerSecond: done || stalled ? 0 : speed,
+		syncMode: done ? 'DONE' : stalled ? 'STALLED' : 'BLOCKS',
+		activeSyncPeers: done || stalled ? 0 : Math.min(peersAt(t), 6),
+		announcing: done
+	};
+}
+
+export const SCENARIOS = {
+	'observer-start': {
+		description: 'Fresh observer start: zero peers for ~90s, then the network arrives',
+		mode: 'observer',
+		state(t) {
+			const peers = peersAt(t, 8, 90);
+			return {
+				peers,
+				blocks: 0,
+				headers: 0,
+				blocksPerSecond: 0,
+				syncMode: 'IDLE',
+				activeSyncPeers: 0,
+				announcing: peers > 0
+			};
+		}
+	},
+
+	headers: {
+		description: 'Brand new validating node downloading headers before blocks',
+		mode: 'full',
+		state(t, options) {
+			const headers = Math.min(options.networkHeight, Math.floor(t * 4000));
+			const done = headers >= options.networkHeight;
+			return {
+				peers: peersAt(t),
+				blocks: 0,
+				headers,
+				blocksPerSecond: 0,
+				syncMode: done ? 'BLOCKS' : 'HEADERS',
+				activeSyncPeers: Math.min(peersAt(t), 6),
+				announcing: false
+			};
+		}
+	},
+
+	ibd: {
+		description: 'Initial block download crossing milestones (starts just before the first halving)',
+		mode: 'full',
+		state: (t, options) => ibdState(t, options)
+	},
+
+	stall: {
+		description: 'IBD that stalls after 30s: all sync peers drop and progress stops',
+		mode: 'full',
+		state: (t, options) => ibdState(t, options, { stallAfter: 30 })
+	},
+
+	pruned: {
+		description: 'Pruned node (--prune=10000) in IBD',
+		mode: 'full',
+		pruned: true,
+		state: (t, options) => ibdState(t, options)
+	},
+
+	complete: {
+		description: 'IBD finishing: 300 blocks from the tip, completes within ~30s',
+		mode: 'full',
+		state(t, options) {
+			return ibdState(t, { ...options, startHeight: options.networkHeight - 300 }, { speed: 10 });
+		}
+	}
+};
+
+/**
+ * Disk usage model: ~0.7 MB per block on average, capped by the prune target
+ */
+export function diskUsage(blocks, pruned) {
+	const bytes = Math.floor(blocks * 0.7 * MB);
+	return pruned ? Math.min(bytes, PRUNE_TARGET_BYTES) : bytes;
+}
+
+/**
+ * Prune target used by pruned scenarios (10,000 MB)
+ */
+export const PRUNE_TARGET_BYTES = 10000 * MB;
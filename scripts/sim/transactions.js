@@ -0,0 +1,597 @@
+/**
+ * Bitcoin Echo GUI — Simulated transactions
+ *
+ * Deterministic, correctly serialized transactions for the sim node's
+ * blocks. Each (height, index) always yields the same transaction, and its
+ * txid is the real double-SHA256 of its serialization, so the GUI can
+ * decode the hex and get the same answer the "node" gave.
+ *
+ * Output types follow the era: legacy P2PKH/P2SH before SegWit activated,
+ * P2WPKH after, P2TR after Taproot. Inputs spend synthetic outputs (their
+ * funding transactions don't exist), but verbosity 2 reports each input's
+ * prevout, so fees add up.
+ */
+
+import { createHash } from 'node:crypto';
+
+const SEGWIT_HEIGHT = 481824;
+const TAPROOT_HEIGHT = 709632;
+const HALVING_INTERVAL = 210000;
+const COIN = 100000000;
+
+/**
+ * Mainnet genesis coinbase (serializes to txid 4a5e1e4b...a33b)
+ */
+const GENESIS_SCRIPTSIG =
+	'04ffff001d0104455468652054696d65732030332f4a616e2f32303039204368616e63656c6c6f72206f6e206272696e6b206f66207365636f6e64206261696c6f757420666f722062616e6b73';
+const GENESIS_PUBKEY =
+	'04678afdb0fe5548271967f1a67130b7105cd6a828e03909a67962e0ea1f61deb649f6bc3f4cef38c4f35504e51ec112de5c384df7ba0b8d578a4c702b6bf11d5f';
+
+/**
+ * Pool tag in simulated coinbase scripts
+ */
+const POOL_TAG = '/Bitcoin Echo sim/';
+
+/*
+ * Encoding helpers
+ */
+
+function sha256(data) {
+	return createHash('sha256').update(data).digest();
+}
+
+/**
+ * Deterministic pseudo-random bytes for a label
+ */
+function bytesFor(label, length) {
+	let out = Buffer.alloc(0);
+	for (let i = 0; out.length < length; i++) {
+		out = Buffer.concat([out, sha256(`${label}:${i}`)]);
+	}
+	return out.subarray(0, length);
+}
+
+/**
+ * Deterministic integer in [0, max) for a label
+ */
+function intFor(label, max) {
+	return bytesFor(label, 4).readUInt32LE(0) % max;
+}
+
+function varint(n) {
+	if (n < 0xfd) return Buffer.from([n]);
+	if (n <= 0xffff) {
+		const b = Buffer.alloc(3);
+		b[0] = 0xfd;
+		b.writeUInt16LE(n, 1);
+		return b;
+	}
+	const b = Buffer.alloc(5);
+	b[0] = 0xfe;
+	b.writeUInt32LE(n, 1);
+	return b;
+}
+
+function u32(n) {
+	const b = Buffer.alloc(4);
+	b.writeUInt32LE(n >>> 0, 0);
+	return b;
+}
+
+function u64(n) {
+	const b = Buffer.alloc(8);
+	b.writeBigUInt64LE(BigInt(n), 0);
+	return b;
+}
+
+function withLength(buffer) {
+	return Buffer.concat([varint(buffer.length), buffer]);
+}
+
+/**
+ * Minimal push of a byte string (data up to 75 bytes)
+ */
+function push(data) {
+	return Buffer.concat([Buffer.from([data.length]), data]);
+}
+
+/**
+ * BIP34 height push (script number, little-endian, minimal)
+ */
+function heightPush(height) {
+	const bytes = [];
+	let n = height;
+	while (n > 0) {
+		bytes.push(n & 0xff);
+		n >>= 8;
+	}
+	if (bytes.length === 0 || bytes[bytes.length - 1] & 0x80) bytes.push(0);
+	return push(Buffer.from(bytes));
+}
+
+/*
+ * Addresses
+ */
+
+const BASE58 = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+function base58check(version, payload) {
+	const data = Buffer.concat([Buffer.from([version]), payload]);
+	const full = Buffer.concat([data, sha256(sha256(data)).subarray(0, 4)]);
+
+	let n = BigInt('0x' + full.toString('hex'));
+	let out = '';
+	while (n > 0n) {
+		out = BASE58[Number(n % 58n)] + out;
+		n /= 58n;
+	}
+	for (const byte of full) {
+		if (byte !== 0) break;
+		out = '1' + out;
+	}
+	return out;
+}
+
+const BECH32_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+
+function bech32Polymod(values) {
+	const GEN = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+	let chk = 1;
+	for (const v of values) {
+		const top = chk >>> 25;
+		chk = ((chk & 0x1ffffff) << 5) ^ v;
+		for (let i = 0; i < 5; i++) {
+			if ((top >>> i) & 1) chk ^= GEN[i];
+		}
+	}
+	return chk >>> 0;
+}
+
+/**
+ * Segwit address (BIP173 bech32 for v0, BIP350 bech32m for v1+)
+ */
+function segwitAddress(hrp, version, program) {
+	const words = [version];
+	let acc = 0;
+	let bits = 0;
+	for (const byte of program) {
+		acc = (acc << 8) | byte;
+		bits += 8;
+		while (bits >= 5) {
+			bits -= 5;
+			words.push((acc >>> bits) & 31);
+		}
+	}
+	if (bits > 0) words.push((acc << (5 - bits)) & 31);
+
+	const constant = version === 0 ? 1 : 0x2bc830a3;
+	const expanded = [...hrp].map((c) => c.charCodeAt(0) >> 5);
+	expanded.push(0, ...[...hrp].map((c) => c.charCodeAt(0) & 31));
+	const polymod = bech32Polymod([...expanded, ...words, 0, 0, 0, 0, 0, 0]) ^ constant;
+	const checksum = Array.from({ length: 6 }, (_, i) => (polymod >>> (5 * (5 - i))) & 31);
+
+	return hrp + '1' + [...words, ...checksum].map((w) => BECH32_CHARSET[w]).join('');
+}
+
+/*
+ * Scripts
+ */
+
+/**
+ * Build an output script of a type, with Core-style asm, type and address
+ */
+function outputScript(type, label) {
+	switch (type) {
+		case 'pubkeyhash': {
+			const hash = bytesFor(label, 20);
+			return {
+				script: Buffer.concat([Buffer.from('76a914', 'hex'), hash, Buffer.from('88ac', 'hex')]),
+				asm: `OP_DUP OP_HASH160 ${hash.toString('hex')} OP_EQUALVERIFY OP_CHECKSIG`,
+				address: base58check(0x00, hash)
+			};
+		}
+		case 'scripthash': {
+			const hash = bytesFor(label, 20);
+			return {
+				script: Buffer.concat([Buffer.from('a914', 'hex'), hash, Buffer.from('87', 'hex')]),
+				asm: `OP_HASH160 ${hash.toString('hex')} OP_EQUAL`,
+				address: base58check(0x05, hash)
+			};
+		}
+		case 'witness_v0_keyhash': {
+			const hash = bytesFor(label, 20);
+			return {
+				script: Buffer.concat([Buffer.from('0014', 'hex'), hash]),
+				asm: `0 ${hash.toString('hex')}`,
+				address: segwitAddress('bc', 0, hash)
+			};
+		}
+		case 'witness_v1_taproot': {
+			const key = bytesFor(label, 32);
+			return {
+				script: Buffer.concat([Buffer.from('5120', 'hex'), key]),
+				asm: `1 ${key.toString('hex')}`,
+				address: segwitAddress('bc', 1, key)
+			};
+		}
+		case 'nulldata': {
+			const data = Buffer.from('echo sim', 'ascii');
+			return {
+				script: Buffer.concat([Buffer.from([0x6a]), push(data)]),
+				asm: `OP_RETURN ${data.toString('hex')}`
+			};
+		}
+		default:
+			throw new Error(`Unknown output type ${type}`);
+	}
+}
+
+/**
+ * Output types in use at a height
+ */
+function outputTypesAt(height) {
+	if (height >= TAPROOT_HEIGHT) {
+		return ['witness_v0_keyhash', 'witness_v1_taproot', 'witness_v0_keyhash', 'scripthash', 'pubkeyhash'];
+	}
+	if (height >= SEGWIT_HEIGHT) return ['witness_v0_keyhash', 'scripthash', 'pubkeyhash'];
+	return ['pubkeyhash', 'pubkeyhash', 'scripthash'];
+}
+
+/**
+ * A plausible DER signature (with SIGHASH_ALL) and compressed pubkey
+ */
+function fakeSignature(label) {
+	const der = Buffer.concat([
+		Buffer.from('30440220', 'hex'),
+		bytesFor(`${label}:r`, 32),
+		Buffer.from('0220', 'hex'),
+		bytesFor(`${label}:s`, 32),
+		Buffer.from('01', 'hex')
+	]);
+	const pubkey = Buffer.concat([Buffer.from([0x02 + intFor(`${label}:parity`, 2)]), bytesFor(`${label}:pk`, 32)]);
+	return { der, pubkey };
+}
+
+/*
+ * Transactions
+ */
+
+/**
+ * Block subsidy in satoshis
+ */
+export function subsidyAt(height) {
+	const halvings = Math.floor(height / HALVING_INTERVAL);
+	return halvings >= 64 ? 0 : Math.floor((50 * COIN) / 2 ** halvings);
+}
+
+/**
+ * Serialize a transaction
+ *
+ * @param {object} tx - { version, inputs: [{ txid, vout, script, sequence, witness }], outputs: [{ value, script }], locktime }
+ * @param {boolean} withWitness - Include witness data (BIP144) if any input has some
+ */
+function serialize(tx, withWitness) {
+	const segwit = withWitness && tx.inputs.some((input) => input.witness.length > 0);
+	const parts = [u32(tx.version)];
+	if (segwit) parts.push(Buffer.from([0x00, 0x01]));
+
+	parts.push(varint(tx.inputs.length));
+	for (const input of tx.inputs) {
+		parts.push(Buffer.from(input.txid, 'hex').reverse(), u32(input.vout), withLength(input.script), u32(input.sequence));
+	}
+
+	parts.push(varint(tx.outputs.length));
+	for (const output of tx.outputs) {
+		parts.push(u64(output.value), withLength(output.script));
+	}
+
+	if (segwit) {
+		for (const input of tx.inputs) {
+			parts.push(varint(input.witness.length), ...input.witness.map(withLength));
+		}
+	}
+
+	parts.push(u32(tx.locktime));
+	return Buffer.concat(parts);
+}
+
+/**
+ * Coinbase transaction of a block (pays the subsidy; simulated fees aren't collected)
+ */
+function coinbaseTx(height) {
+	if (height === 0) {
+		return {
+			version: 1,
+			inputs: [
+				{
+					txid: '00'.repeat(32),
+					vout: 0xffffffff,
+					script: Buffer.from(GENESIS_SCRIPTSIG, 'hex'),
+					sequence: 0xffffffff,
+					witness: [],
+					coinbase: true
+				}
+			],
+			outputs: [
+				{
+					value: 50 * COIN,
+					script: Buffer.concat([push(Buffer.from(GENESIS_PUBKEY, 'hex')), Buffer.from('ac', 'hex')]),
+					asm: `${GENESIS_PUBKEY} OP_CHECKSIG`,
+					type: 'pubkey'
+				}
+			],
+			locktime: 0
+		};
+	}
+
+	const segwit = height >= SEGWIT_HEIGHT;
+	const payout = outputScript(segwit ? 'witness_v0_keyhash' : 'pubkeyhash', `coinbase-${height}`);
+	const outputs = [
+		{
+			value: subsidyAt(height),
+			script: payout.script,
+			asm: payout.asm,
+			address: payout.address,
+			type: segwit ? 'witness_v0_keyhash' : 'pubkeyhash'
+		}
+	];
+	if (segwit) {
+		// BIP141 witness commitment
+		const commitment = Buffer.concat([Buffer.from('aa21a9ed', 'hex'), bytesFor(`commitment-${height}`, 32)]);
+		outputs.push({
+			value: 0,
+			script: Buffer.concat([Buffer.from([0x6a]), push(commitment)]),
+			asm: `OP_RETURN ${commitment.toString('hex')}`,
+			type: 'nulldata'
+		});
+	}
+
+	return {
+		version: segwit ? 2 : 1,
+		inputs: [
+			{
+				txid: '00'.repeat(32),
+				vout: 0xffffffff,
+				script: Buffer.concat([heightPush(height), push(Buffer.from(POOL_TAG, 'ascii')), push(bytesFor(`extranonce-${height}`, 8))]),
+				sequence: 0xffffffff,
+				witness: segwit ? [Buffer.alloc(32)] : [],
+				coinbase: true
+			}
+		],
+		outputs,
+		locktime: 0
+	};
+}
+
+/**
+ * Ordinary (non-coinbase) transaction
+ */
+function spendTx(height, index) {
+	const label = `tx-${height}-${index}`;
+	const segwit = height >= SEGWIT_HEIGHT;
+	const types = outputTypesAt(height);
+
+	// Sequence semantics: final, RBF-signalling, or a relative timelock (BIP68)
+	const flavor = intFor(`${label}:flavor`, 10);
+	const sequence = flavor < 4 ? 0xffffffff : flavor < 8 ? 0xfffffffd : flavor === 8 ? 144 : 0x00400000 | 10;
+	const version = flavor >= 8 || segwit ? 2 : 1;
+
+	const inputCount = 1 + intFor(`${label}:inputs`, 3);
+	const inputs = [];
+	for (let i = 0; i < inputCount; i++) {
+		const { der, pubkey } = fakeSignature(`${label}:in${i}`);
+		const spentType = segwit ? 'witness_v0_keyhash' : 'pubkeyhash';
+		inputs.push({
+			txid: bytesFor(`${label}:prev${i}`, 32).toString('hex'),
+			vout: intFor(`${label}:prevvout${i}`, 3),
+			script: segwit ? Buffer.alloc(0) : Buffer.concat([push(der), push(pubkey)]),
+			sequence,
+			witness: segwit ? [der, pubkey] : [],
+			prevout: {
+				height: Math.max(0, height - 1 - intFor(`${label}:age${i}`, 5000)),
+				type: spentType,
+				...outputScript(spentType, `${label}:prevspk${i}`)
+			}
+		});
+	}
+
+	const outputCount = 1 + intFor(`${label}:outputs`, 3);
+	const outputs = [];
+	for (let o = 0; o < outputCount; o++) {
+		const type = intFor(`${label}:opreturn`, 50) === 0 && o === 1 ? 'nulldata' : types[intFor(`${label}:type${o}`, types.length)];
+		const spk = outputScript(type, `${label}:out${o}`);
+		outputs.push({
+			value: type === 'nulldata' ? 0 : 10000 + intFor(`${label}:value${o}`, 50000000),
+			script: spk.script,
+			asm: spk.asm,
+			address: spk.address,
+			type
+		});
+	}
+
+	// Anti fee-sniping locktime on some transactions
+	const locktime = intFor(`${label}:locktime`, 3) === 0 ? height - 1 : 0;
+
+	return { version, inputs, outputs, locktime, feeRate: 1 + intFor(`${label}:feerate`, 60) };
+}
+
+/**
+ * Build transaction (height, index) in Core's verbose format
+ *
+ * @param {number} height - Block height
+ * @param {number} index - Position in the block (0 = coinbase)
+ * @param {number} verbosity - 1 for getrawtransaction verbose, 2 adds fee and prevouts
+ */
+export function buildTransaction(height, index, verbosity = 1) {
+	const tx = index === 0 ? coinbaseTx(height) : spendTx(height, index);
+
+	const full = serialize(tx, true);
+	const stripped = serialize(tx, false);
+	const weight = stripped.length * 3 + full.length;
+	const vsize = Math.ceil(weight / 4);
+	const txid = Buffer.from(sha256(sha256(stripped))).reverse().toString('hex');
+	const wtxid = Buffer.from(sha256(sha256(full))).reverse().toString('hex');
+
+	// Input values are the outputs plus a fee at the transaction's feerate
+	const outputTotal = tx.outputs.reduce((sum, output) => sum + output.value, 0);
+	const fee = index === 0 ? 0 : vsize * tx.feeRate;
+	const inputShare = Math.floor((outputTotal + fee) / tx.inputs.length);
+
+	const vin = tx.inputs.map((input, i) => {
+		if (input.coinbase) {
+			return {
+				coinbase: input.script.toString('hex'),
+				...(input.witness.length > 0 && { txinwitness: input.witness.map((w) => w.toString('hex')) }),
+				sequence: input.sequence
+			};
+		}
+		const value = i === 0 ? outputTotal + fee - inputShare * (tx.inputs.length - 1) : inputShare;
+		return {
+			txid: input.txid,
+			vout: input.vout,
+			scriptSig: {
+				asm: scriptSigAsm(input.script),
+				hex: input.script.toString('hex')
+			},
+			...(input.witness.length > 0 && { txinwitness: input.witness.map((w) => w.toString('hex')) }),
+			...(verbosity >= 2 && {
+				prevout: {
+					generated: false,
+					height: input.prevout.height,
+					value: value / COIN,
+					scriptPubKey: {
+						asm: input.prevout.asm,
+						hex: input.prevout.script.toString('hex'),
+						address: input.prevout.address,
+						type: input.prevout.type
+					}
+				}
+			}),
+			sequence: input.sequence
+		};
+	});
+
+	const vout = tx.outputs.map((output, n) => ({
+		value: output.value / COIN,
+		n,
+		scriptPubKey: {
+			asm: output.asm,
+			hex: output.script.toString('hex'),
+			...(output.address && { address: output.address }),
+			type: output.type
+		}
+	}));
+
+	return {
+		txid,
+		hash: wtxid,
+		version: tx.version,
+		size: full.length,
+		vsize,
+		weight,
+		locktime: tx.locktime,
+		vin,
+		vout,
+		...(verbosity >= 2 && index !== 0 && { fee: fee / COIN }),
+		hex: full.toString('hex')
+	};
+}
+
+/**
+ * Disassemble a signature + pubkey scriptSig the way Core prints it
+ */
+function scriptSigAsm(script) {
+	const items = [];
+	let offset = 0;
+	while (offset < script.length) {
+		const length = script[offset];
+		const data = script.subarray(offset + 1, offset + 1 + length);
+		const hex = data.toString('hex');
+		// Signatures end in a sighash byte, shown as [ALL]
+		items.push(data[0] === 0x30 && data[data.length - 1] === 0x01 ? `${hex.slice(0, -2)}[ALL]` : hex);
+		offset += 1 + length;
+	}
+	return items.join(' ');
+}
+
+/*
+ * Decoding (transactions submitted to the sim)
+ */
+
+/**
+ * Parse a serialized transaction far enough to relay it
+ *
+ * @param {string} hex - Serialized transaction
+ * @returns {{ txid: string, wtxid: string, size: number, vsize: number, weight: number,
+ *   inputs: Array<{ txid: string, vout: number, sequence: number, coinbase: boolean }>,
+ *   outputs: Array<{ value: number }> }} Values in satoshis
+ * @throws {Error} If the hex isn't a well-formed transaction
+ */
+export function decodeTransaction(hex) {
+	if (!/^([0-9a-fA-F]{2})+$/.test(hex)) throw new Error('TX decode failed');
+	const bytes = Buffer.from(hex, 'hex');
+	let offset = 0;
+
+	const take = (length) => {
+		if (offset + length > bytes.length) throw new Error('TX decode failed');
+		const slice = bytes.subarray(offset, offset + length);
+		offset += length;
+		return slice;
+	};
+	const readVarInt = () => {
+		const first = take(1)[0];
+		if (first < 0xfd) return first;
+		if (first === 0xfd) return take(2).readUInt16LE(0);
+		if (first === 0xfe) return take(4).readUInt32LE(0);
+		return Number(take(8).readBigUInt64LE(0));
+	};
+
+	take(4);
+	const segwit = bytes[offset] === 0 && bytes[offset + 1] === 1;
+	if (segwit) take(2);
+	const bodyStart = offset;
+
+	const inputs = [];
+	for (let i = readVarInt(); i > 0; i--) {
+		const txid = Buffer.from(take(32)).reverse().toString('hex');
+		const vout = take(4).readUInt32LE(0);
+		take(readVarInt());
+		const sequence = take(4).readUInt32LE(0);
+		inputs.push({ txid, vout, sequence, coinbase: /^0+$/.test(txid) });
+	}
+
+	const outputs = [];
+	for (let i = readVarInt(); i > 0; i--) {
+		const value = Number(take(8).readBigUInt64LE(0));
+		take(readVarInt());
+		outputs.push({ value });
+	}
+	const bodyEnd = offset;
+
+	if (segwit) {
+		for (let i = 0; i < inputs.length; i++) {
+			for (let items = readVarInt(); items > 0; items--) take(readVarInt());
+		}
+	}
+	take(4);
+	if (offset !== bytes.length || inputs.length === 0 || outputs.length === 0) {
+		throw new Error('TX decode failed');
+	}
+
+	const stripped = Buffer.concat([
+		bytes.subarray(0, 4),
+		bytes.subarray(bodyStart, bodyEnd),
+		bytes.subarray(bytes.length - 4)
+	]);
+	const weight = stripped.length * 3 + bytes.length;
+
+	return {
+		txid: Buffer.from(sha256(sha256(stripped))).reverse().toString('hex'),
+		wtxid: Buffer.from(sha256(sha256(bytes))).reverse().toString('hex'),
+		size: bytes.length,
+		vsize: Math.ceil(weight / 4),
+		weight,
+		inputs,
+		outputs
+	};
+}
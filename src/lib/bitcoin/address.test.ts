@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { base58Check, decodeAddress, segwitAddress } from './address';
+import { bytesToHex, hexToBytes } from './bytes';
+import { DecodeError } from './errors';
+
+/**
+ * BIP350 valid segwit addresses (BIP173 vectors re-checked with bech32m for v1+)
+ */
+const VALID_SEGWIT: [address: string, scriptPubKey: string][] = [
+	['BC1QW508D6QEJXTDG4Y5R3ZARVARY0C5XW7KV8F3T4', '0014751e76e8199196d454941c45d1b3a323f1433bd6'],
+	[
+		'tb1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3q0sl5k7',
+		'00201863143c14c5166804bd19203356da136c985678cd4d27a1b8c6329604903262'
+	],
+	[
+		'bc1pw508d6qejxtdg4y5r3zarvary0c5xw7kw508d6qejxtdg4y5r3zarvary0c5xw7kt5nd6y',
+		'5128751e76e8199196d454941c45d1b3a323f1433bd6751e76e8199196d454941c45d1b3a323f1433bd6'
+	],
+	['BC1SW50QGDZ25J', '6002751e'],
+	['bc1zw508d6qejxtdg4y5r3zarvaryvaxxpcs', '5210751e76e8199196d454941c45d1b3a323'],
+	[
+		'tb1qqqqqp399et2xygdj5xreqhjjvcmzhxw4aywxecjdzew6hylgvsesrxh6hy',
+		'0020000000c4a5cad46221b2a187905e5266362b99d5e91c6ce24d165dab93e86433'
+	],
+	[
+		'tb1pqqqqp399et2xygdj5xreqhjjvcmzhxw4aywxecjdzew6hylgvsesf3hn0c',
+		'5120000000c4a5cad46221b2a187905e5266362b99d5e91c6ce24d165dab93e86433'
+	],
+	[
+		'bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0',
+		'512079be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798'
+	]
+];
+
+/**
+ * BIP350 invalid segwit addresses, with the error expected
+ */
+const INVALID_SEGWIT: [address: string, error: string][] = [
+	// Invalid human-readable part
+	['tc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vq5zuyut', 'Invalid base58 character'],
+	// Bech32 checksum on v1
+	['bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqh2y7hd', 'checksum mismatch'],
+	// Bech32 checksum on v2
+	['tb1z0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqglt7rf', 'checksum mismatch'],
+	// Bech32 checksum on v16
+	['BC1S0XLXVLHEMJA6C4DQV22UAPCTQUPFHLXM9H8Z3K2E72Q4K9HCZ7VQ54WELL', 'checksum mismatch'],
+	// Bech32m checksum on v0
+	['bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kemeawh', 'checksum mismatch'],
+	// Bech32m checksum on v0
+	['tb1q0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vq24jc47', 'checksum mismatch'],
+	// Invalid character
+	['bc1p38j9r5y49hruaue7wxjce0updqjuyyx0kh56v8s25huc6995vvpql3jow4', 'Invalid bech32 character'],
+	// Invalid witness version
+	['BC130XLXVLHEMJA6C4DQV22UAPCTQUPFHLXM9H8Z3K2E72Q4K9HCZ7VQ7ZWS8R', 'Invalid witness version 17'],
+	// Program too short
+	['bc1pw5dgrnzv', 'Invalid witness program length 1'],
+	// Program too long
+	['bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7v8n0nx0muaewav253zgeav', 'Invalid witness program length 41'],
+	// Invalid v0 program length
+	['BC1QR508D6QEJXTDG4Y5R3ZARVARYV98GJ9P', 'Version 0 witness programs are 20 or 32 bytes'],
+	// Mixed case
+	['tb1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vq47Zagq', 'Mixed-case'],
+	// More than 4 padding bits
+	['bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7v07qwwzcrf', 'Invalid padding'],
+	// Non-zero padding
+	['tb1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vpggkg4j', 'Invalid padding'],
+	// Empty data section
+	['bc1gmk9yu', 'Address too short']
+];
+
+describe('segwit addresses', () => {
+	it.each(VALID_SEGWIT)('decodes %s', (address, scriptPubKey) => {
+		expect(bytesToHex(decodeAddress(address).scriptPubKey)).toBe(scriptPubKey);
+	});
+
+	it.each(VALID_SEGWIT)('encodes %s', (address, scriptPubKey) => {
+		const script = hexToBytes(scriptPubKey);
+		const version = script[0] === 0 ? 0 : script[0] - 0x50;
+		const hrp = address.toLowerCase().slice(0, 2);
+		expect(segwitAddress(hrp, version, script.slice(2))).toBe(address.toLowerCase());
+	});
+
+	it.each(INVALID_SEGWIT)('rejects %s', (address, error) => {
+		expect(() => decodeAddress(address)).toThrow(DecodeError);
+		expect(() => decodeAddress(address)).toThrow(error);
+	});
+
+	it('names the networks sharing a prefix', () => {
+		expect(decodeAddress('bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4').networks).toEqual(['main']);
+		expect(decodeAddress(VALID_SEGWIT[1][0]).networks).toContain('test');
+	});
+});
+
+describe('base58check addresses', () => {
+	it('encodes the genesis coinbase address', () => {
+		expect(base58Check(0x00, hexToBytes('62e907b15cbf27d5425399ebf6f0fb50ebb88f18'))).toBe(
+			'1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa'
+		);
+	});
+
+	it('keeps leading zero bytes as leading "1"s', () => {
+		expect(base58Check(0x00, new Uint8Array(20))).toBe('1111111111111111111114oLvT2');
+	});
+
+	it('decodes P2PKH back to its script', () => {
+		expect(bytesToHex(decodeAddress('1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa').scriptPubKey)).toBe(
+			'76a91462e907b15cbf27d5425399ebf6f0fb50ebb88f1888ac'
+		);
+	});
+
+	it('round-trips P2SH', () => {
+		const hash = hexToBytes('f54a5851e9372b87810a8e60cdd2e7cfd80b6e31');
+		const address = base58Check(0x05, hash);
+		expect(address[0]).toBe('3');
+		expect(bytesToHex(decodeAddress(address).scriptPubKey)).toBe(
+			'a914f54a5851e9372b87810a8e60cdd2e7cfd80b6e3187'
+		);
+	});
+
+	it('rejects a bad checksum', () => {
+		expect(() => decodeAddress('1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNb')).toThrow('Address checksum mismatch');
+	});
+
+	it('rejects characters outside the alphabet', () => {
+		expect(() => decodeAddress('1A1zP1eP5QGefi2DMPTfTL5SLmv7Divf0a')).toThrow(DecodeError);
+	});
+
+	it('rejects the wrong length', () => {
+		expect(() => decodeAddress('1111111111111111111114oLvT')).toThrow(DecodeError);
+	});
+});
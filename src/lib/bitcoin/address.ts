@@ -0,0 +1,296 @@
+/**
+ * Bitcoin Echo GUI — Address Encoding
+ *
+ * Base58Check for legacy P2PKH / P2SH addresses, bech32 (BIP173) for
+ * segwit v0 and bech32m (BIP350) for v1+ (taproot), with per-network
+ * prefixes keyed by the chain name getblockchaininfo reports. Decoding
+ * goes the other way, back to the output script an address pays to.
+ */
+
+import { concatBytes, hash256 } from './bytes';
+import { DecodeError } from './errors';
+import { OP } from './script';
+
+/**
+ * Address prefixes for one network
+ */
+export interface AddressNetwork {
+	pubkeyHash: number; // Base58 version byte for P2PKH
+	scriptHash: number; // Base58 version byte for P2SH
+	hrp: string; // Bech32 human-readable part
+}
+
+/**
+ * Networks by chain name (getblockchaininfo.chain)
+ */
+export const ADDRESS_NETWORKS: Record<string, AddressNetwork> = {
+	main: { pubkeyHash: 0x00, scriptHash: 0x05, hrp: 'bc' },
+	test: { pubkeyHash: 0x6f, scriptHash: 0xc4, hrp: 'tb' },
+	testnet4: { pubkeyHash: 0x6f, scriptHash: 0xc4, hrp: 'tb' },
+	signet: { pubkeyHash: 0x6f, scriptHash: 0xc4, hrp: 'tb' },
+	regtest: { pubkeyHash: 0x6f, scriptHash: 0xc4, hrp: 'bcrt' }
+};
+
+/**
+ * Look up a network, defaulting to mainnet for unknown chain names
+ */
+export function addressNetwork(chain: string | null | undefined): AddressNetwork {
+	return ADDRESS_NETWORKS[chain ?? 'main'] ?? ADDRESS_NETWORKS.main;
+}
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const BECH32_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const BECH32_GENERATOR = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+const BECH32_CONST = 1;
+const BECH32M_CONST = 0x2bc830a3;
+
+/**
+ * Base58Check: version byte + payload + 4-byte double-SHA256 checksum
+ *
+ * @example
+ * base58Check(0x00, hexToBytes('62e907b15cbf27d5425399ebf6f0fb50ebb88f18'))
+ * // '1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa'
+ */
+export function base58Check(version: number, payload: Uint8Array): string {
+	const data = concatBytes(new Uint8Array([version]), payload);
+	const full = concatBytes(data, hash256(data).slice(0, 4));
+
+	// Repeated division of the big-endian number by 58
+	const digits: number[] = [];
+	for (const byte of full) {
+		let carry = byte;
+		for (let i = 0; i < digits.length; i++) {
+			carry += digits[i] << 8;
+			digits[i] = carry % 58;
+			carry = Math.floor(carry / 58);
+		}
+		while (carry > 0) {
+			digits.push(carry % 58);
+			carry = Math.floor(carry / 58);
+		}
+	}
+
+	// Each leading zero byte is a leading '1'
+	let zeros = 0;
+	while (zeros < full.length && full[zeros] === 0) zeros++;
+
+	return '1'.repeat(zeros) + digits.reverse().map((d) => BASE58_ALPHABET[d]).join('');
+}
+
+function bech32Polymod(values: number[]): number {
+	let chk = 1;
+	for (const value of values) {
+		const top = chk >>> 25;
+		chk = ((chk & 0x1ffffff) << 5) ^ value;
+		for (let i = 0; i < 5; i++) {
+			if ((top >>> i) & 1) chk ^= BECH32_GENERATOR[i];
+		}
+	}
+	return chk >>> 0;
+}
+
+function hrpExpand(hrp: string): number[] {
+	const chars = Array.from(hrp, (c) => c.charCodeAt(0));
+	return [...chars.map((c) => c >> 5), 0, ...chars.map((c) => c & 31)];
+}
+
+/**
+ * Regroup 8-bit bytes into 5-bit words (with padding)
+ */
+function toWords(bytes: Uint8Array): number[] {
+	const words: number[] = [];
+	let acc = 0;
+	let bits = 0;
+	for (const byte of bytes) {
+		acc = ((acc << 8) | byte) & 0xfff;
+		bits += 8;
+		while (bits >= 5) {
+			bits -= 5;
+			words.push((acc >> bits) & 31);
+		}
+	}
+	if (bits > 0) words.push((acc << (5 - bits)) & 31);
+	return words;
+}
+
+/**
+ * Encode a witness program as a segwit address
+ *
+ * Version 0 uses bech32 (BIP173); versions 1-16 use bech32m (BIP350).
+ *
+ * @example
+ * // BIP173
+ * segwitAddress('bc', 0, hexToBytes('751e76e8199196d454941c45d1b3a323f1433bd6'))
+ * // 'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4'
+ *
+ * // BIP350
+ * segwitAddress('bc', 1, hexToBytes('751e76e8199196d454941c45d1b3a323f1433bd6751e76e8199196d454941c45d1b3a323f1433bd6'))
+ * // 'bc1pw508d6qejxtdg4y5r3zarvary0c5xw7kw508d6qejxtdg4y5r3zarvary0c5xw7kt5nd6y'
+ */
+export function segwitAddress(hrp: string, version: number, program: Uint8Array): string {
+	const words = [version, ...toWords(program)];
+	const constant = version === 0 ? BECH32_CONST : BECH32M_CONST;
+	const polymod = bech32Polymod([...hrpExpand(hrp), ...words, 0, 0, 0, 0, 0, 0]) ^ constant;
+
+	const checksum: number[] = [];
+	for (let i = 0; i < 6; i++) checksum.push((polymod >>> (5 * (5 - i))) & 31);
+
+	return hrp + '1' + [...words, ...checksum].map((w) => BECH32_CHARSET[w]).join('');
+}
+
+/**
+ * An address decoded back to the output script it pays to
+ */
+export interface DecodedAddress {
+	networks: string[]; // Chain names whose prefixes match (testnets share theirs)
+	scriptPubKey: Uint8Array;
+}
+
+/**
+ * Longest bech32 string (BIP173)
+ */
+const BECH32_MAX_LENGTH = 90;
+
+function base58Decode(text: string): Uint8Array {
+	// Repeated multiplication of the big-endian number by 58
+	const bytes: number[] = [];
+	for (const char of text) {
+		let carry = BASE58_ALPHABET.indexOf(char);
+		if (carry === -1) throw new DecodeError(`Invalid base58 character "${char}"`);
+		for (let i = 0; i < bytes.length; i++) {
+			carry += bytes[i] * 58;
+			bytes[i] = carry & 0xff;
+			carry >>= 8;
+		}
+		while (carry > 0) {
+			bytes.push(carry & 0xff);
+			carry >>= 8;
+		}
+	}
+
+	// Each leading '1' is a leading zero byte
+	let zeros = 0;
+	while (zeros < text.length && text[zeros] === '1') zeros++;
+
+	return Uint8Array.from([...new Array(zeros).fill(0), ...bytes.reverse()]);
+}
+
+/**
+ * Regroup 5-bit words into 8-bit bytes, rejecting non-zero or overlong padding
+ */
+function fromWords(words: number[]): Uint8Array {
+	const bytes: number[] = [];
+	let acc = 0;
+	let bits = 0;
+	for (const word of words) {
+		acc = ((acc << 5) | word) & 0xfff;
+		bits += 5;
+		if (bits >= 8) {
+			bits -= 8;
+			bytes.push((acc >> bits) & 0xff);
+		}
+	}
+	if (bits >= 5 || ((acc << (8 - bits)) & 0xff) !== 0) {
+		throw new DecodeError('Invalid padding in witness program');
+	}
+	return Uint8Array.from(bytes);
+}
+
+function decodeBase58Address(address: string): DecodedAddress {
+	const full = base58Decode(address);
+	if (full.length !== 25) throw new DecodeError('Not a valid address');
+
+	const data = full.slice(0, 21);
+	const checksum = hash256(data).slice(0, 4);
+	if (!checksum.every((b, i) => b === full[21 + i])) {
+		throw new DecodeError('Address checksum mismatch');
+	}
+
+	const [version] = data;
+	const hash = data.slice(1);
+	const names = Object.keys(ADDRESS_NETWORKS);
+
+	const pubkeyHashNetworks = names.filter((name) => ADDRESS_NETWORKS[name].pubkeyHash === version);
+	if (pubkeyHashNetworks.length > 0) {
+		return {
+			networks: pubkeyHashNetworks,
+			scriptPubKey: concatBytes(
+				new Uint8Array([OP.OP_DUP, OP.OP_HASH160, 20]),
+				hash,
+				new Uint8Array([OP.OP_EQUALVERIFY, OP.OP_CHECKSIG])
+			)
+		};
+	}
+
+	const scriptHashNetworks = names.filter((name) => ADDRESS_NETWORKS[name].scriptHash === version);
+	if (scriptHashNetworks.length > 0) {
+		return {
+			networks: scriptHashNetworks,
+			scriptPubKey: concatBytes(new Uint8Array([OP.OP_HASH160, 20]), hash, new Uint8Array([OP.OP_EQUAL]))
+		};
+	}
+
+	throw new DecodeError(`Unknown address version byte ${version}`);
+}
+
+function decodeSegwitAddress(address: string): DecodedAddress {
+	if (address !== address.toLowerCase() && address !== address.toUpperCase()) {
+		throw new DecodeError('Mixed-case bech32 address');
+	}
+	if (address.length > BECH32_MAX_LENGTH) throw new DecodeError('Address too long');
+
+	const lower = address.toLowerCase();
+	const separator = lower.lastIndexOf('1');
+	const hrp = lower.slice(0, separator);
+	const words = Array.from(lower.slice(separator + 1), (char) => {
+		const word = BECH32_CHARSET.indexOf(char);
+		if (word === -1) throw new DecodeError(`Invalid bech32 character "${char}"`);
+		return word;
+	});
+	if (words.length < 7) throw new DecodeError('Address too short');
+
+	const networks = Object.keys(ADDRESS_NETWORKS).filter((name) => ADDRESS_NETWORKS[name].hrp === hrp);
+	if (networks.length === 0) throw new DecodeError(`Unknown address prefix "${hrp}"`);
+
+	const version = words[0];
+	const constant = bech32Polymod([...hrpExpand(hrp), ...words]);
+	if (constant !== (version === 0 ? BECH32_CONST : BECH32M_CONST)) {
+		throw new DecodeError('Address checksum mismatch');
+	}
+	if (version > 16) throw new DecodeError(`Invalid witness version ${version}`);
+
+	const program = fromWords(words.slice(1, -6));
+	if (program.length < 2 || program.length > 40) {
+		throw new DecodeError(`Invalid witness program length ${program.length}`);
+	}
+	if (version === 0 && program.length !== 20 && program.length !== 32) {
+		throw new DecodeError('Version 0 witness programs are 20 or 32 bytes');
+	}
+
+	return {
+		networks,
+		scriptPubKey: concatBytes(
+			new Uint8Array([version === 0 ? OP.OP_0 : OP.OP_1 + version - 1, program.length]),
+			program
+		)
+	};
+}
+
+/**
+ * Decode an address of any supported format
+ *
+ * @throws DecodeError if the address is malformed or its checksum doesn't match
+ *
+ * @example
+ * bytesToHex(decodeAddress('bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4').scriptPubKey)
+ * // '0014751e76e8199196d454941c45d1b3a323f1433bd6'
+ */
+export function decodeAddress(address: string): DecodedAddress {
+	const trimmed = address.trim();
+	// No base58 version byte encodes to a leading "bc1", "tb1" or "bcrt1"
+	const lower = trimmed.toLowerCase();
+	if (Object.values(ADDRESS_NETWORKS).some((network) => lower.startsWith(`${network.hrp}1`))) {
+		return decodeSegwitAddress(trimmed);
+	}
+	return decodeBase58Address(trimmed);
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { ByteReader, bytesToHex, hash256, hashToHex, hexToBytes, sha256 } from './bytes';
+import { DecodeError } from './errors';
+
+const utf8 = (text: string) => new TextEncoder().encode(text);
+
+describe('hex', () => {
+	it('round-trips', () => {
+		expect(bytesToHex(hexToBytes('00ff10Ab'))).toBe('00ff10ab');
+		expect(hexToBytes('')).toEqual(new Uint8Array());
+	});
+
+	it('rejects odd lengths and non-hex characters', () => {
+		expect(() => hexToBytes('abc')).toThrow(DecodeError);
+		expect(() => hexToBytes('zz')).toThrow(DecodeError);
+	});
+
+	it('reverses hashes for display', () => {
+		expect(hashToHex(hexToBytes('0102'))).toBe('0201');
+	});
+});
+
+describe('sha256', () => {
+	// FIPS 180-4 examples
+	it.each([
+		['', 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'],
+		['abc', 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'],
+		[
+			'abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq',
+			'248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1'
+		]
+	])('hashes "%s"', (message, digest) => {
+		expect(bytesToHex(sha256(utf8(message)))).toBe(digest);
+	});
+
+	it('handles input across block boundaries', () => {
+		expect(bytesToHex(sha256(utf8('a'.repeat(1000))))).toBe(
+			'41edece42d63e8d9bf515a9ba6932e1c20cbc9f5a5d134645adb5db1b9737ea3'
+		);
+	});
+
+	it('double-hashes', () => {
+		expect(bytesToHex(hash256(utf8('hello')))).toBe(
+			'9595c9df90075148eb06860365df33584b75bff782a510c6cd4883a419833d50'
+		);
+	});
+});
+
+describe('ByteReader', () => {
+	it('reads little-endian integers and varints', () => {
+		const reader = new ByteReader(hexToBytes('01020304fd0302fe07060504ff0000000001000000'));
+		expect(reader.readU32('u32')).toBe(0x04030201);
+		expect(reader.readVarInt('varint')).toBe(0x0203);
+		expect(reader.readVarInt('varint')).toBe(0x04050607);
+		expect(reader.readVarInt('varint')).toBe(2 ** 32);
+		expect(reader.remaining).toBe(0);
+	});
+
+	it('names the field and offset it ran out at', () => {
+		const reader = new ByteReader(hexToBytes('0102'));
+		reader.readU8('first');
+		expect(() => reader.readU32('value')).toThrow(DecodeError);
+	});
+});
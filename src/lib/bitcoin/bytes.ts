@@ -0,0 +1,226 @@
+/**
+ * Bitcoin Echo GUI — Byte Helpers
+ *
+ * Hex conversion, a little-endian reader for Bitcoin serialization, and
+ * SHA-256. Hashing is synchronous (no WebCrypto) so decoding stays a plain
+ * function call.
+ */
+
+import { DecodeError } from './errors';
+
+/**
+ * Parse a hex string into bytes
+ *
+ * @throws DecodeError if the string isn't even-length hex
+ */
+export function hexToBytes(hex: string): Uint8Array {
+	const clean = hex.trim();
+	if (clean.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(clean)) {
+		throw new DecodeError('Not valid hex');
+	}
+
+	const bytes = new Uint8Array(clean.length / 2);
+	for (let i = 0; i < bytes.length; i++) {
+		bytes[i] = parseInt(clean.slice(i * 2, i * 2 + 2), 16);
+	}
+	return bytes;
+}
+
+/**
+ * Format bytes as lowercase hex
+ */
+export function bytesToHex(bytes: Uint8Array): string {
+	return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Format a hash the way Bitcoin displays it (byte-reversed hex)
+ */
+export function hashToHex(hash: Uint8Array): string {
+	return bytesToHex(hash.slice().reverse());
+}
+
+/**
+ * Concatenate byte arrays
+ */
+export function concatBytes(...parts: Uint8Array[]): Uint8Array {
+	const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+	let offset = 0;
+	for (const part of parts) {
+		out.set(part, offset);
+		offset += part.length;
+	}
+	return out;
+}
+
+/**
+ * Sequential little-endian reader over a byte array
+ *
+ * Every read checks bounds and throws DecodeError with the offset, so
+ * truncated input fails with a useful message rather than garbage.
+ */
+export class ByteReader {
+	readonly bytes: Uint8Array;
+	offset = 0;
+
+	constructor(bytes: Uint8Array) {
+		this.bytes = bytes;
+	}
+
+	get remaining(): number {
+		return this.bytes.length - this.offset;
+	}
+
+	private take(length: number, what: string): number {
+		if (length > this.remaining) {
+			throw new DecodeError(`Unexpected end of data reading ${what}`, this.offset);
+		}
+		const start = this.offset;
+		this.offset += length;
+		return start;
+	}
+
+	peek(ahead = 0): number | undefined {
+		return this.bytes[this.offset + ahead];
+	}
+
+	readU8(what = 'byte'): number {
+		return this.bytes[this.take(1, what)];
+	}
+
+	readU16(what = 'uint16'): number {
+		const at = this.take(2, what);
+		return this.bytes[at] | (this.bytes[at + 1] << 8);
+	}
+
+	readU32(what = 'uint32'): number {
+		const at = this.take(4, what);
+		return (
+			(this.bytes[at] |
+				(this.bytes[at + 1] << 8) |
+				(this.bytes[at + 2] << 16) |
+				(this.bytes[at + 3] << 24)) >>>
+			0
+		);
+	}
+
+	readI32(what = 'int32'): number {
+		return this.readU32(what) | 0;
+	}
+
+	/**
+	 * Read a uint64 as a number
+	 *
+	 * Exact up to 2^53, far beyond the 21M BTC supply in satoshis.
+	 */
+	readU64(what = 'uint64'): number {
+		const low = this.readU32(what);
+		const high = this.readU32(what);
+		return high * 0x100000000 + low;
+	}
+
+	/**
+	 * Read a CompactSize length prefix
+	 */
+	readVarInt(what = 'length'): number {
+		const first = this.readU8(what);
+		if (first < 0xfd) return first;
+		if (first === 0xfd) return this.readU16(what);
+		if (first === 0xfe) return this.readU32(what);
+		return this.readU64(what);
+	}
+
+	readBytes(length: number, what = 'bytes'): Uint8Array {
+		const at = this.take(length, what);
+		return this.bytes.slice(at, at + length);
+	}
+
+	/**
+	 * Read a length-prefixed byte string
+	 */
+	readVarBytes(what = 'bytes'): Uint8Array {
+		return this.readBytes(this.readVarInt(what), what);
+	}
+}
+
+const SHA256_K = new Uint32Array([
+	0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+	0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+	0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+	0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+	0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+	0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+	0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+	0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+]);
+
+/**
+ * SHA-256 (FIPS 180-4)
+ */
+export function sha256(data: Uint8Array): Uint8Array {
+	const h = new Uint32Array([
+		0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19
+	]);
+
+	// Pad: 0x80, zeros, then the bit length as a 64-bit big-endian integer
+	const paddedLength = Math.ceil((data.length + 9) / 64) * 64;
+	const padded = new Uint8Array(paddedLength);
+	padded.set(data);
+	padded[data.length] = 0x80;
+	const view = new DataView(padded.buffer);
+	view.setUint32(paddedLength - 8, Math.floor(data.length / 0x20000000));
+	view.setUint32(paddedLength - 4, (data.length * 8) >>> 0);
+
+	const w = new Uint32Array(64);
+	for (let block = 0; block < paddedLength; block += 64) {
+		for (let i = 0; i < 16; i++) w[i] = view.getUint32(block + i * 4);
+		for (let i = 16; i < 64; i++) {
+			const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+			const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+			w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+		}
+
+		let [a, b, c, d, e, f, g, hh] = h;
+		for (let i = 0; i < 64; i++) {
+			const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+			const ch = (e & f) ^ (~e & g);
+			const t1 = (hh + s1 + ch + SHA256_K[i] + w[i]) >>> 0;
+			const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+			const maj = (a & b) ^ (a & c) ^ (b & c);
+			const t2 = (s0 + maj) >>> 0;
+			hh = g;
+			g = f;
+			f = e;
+			e = (d + t1) >>> 0;
+			d = c;
+			c = b;
+			b = a;
+			a = (t1 + t2) >>> 0;
+		}
+
+		h[0] += a;
+		h[1] += b;
+		h[2] += c;
+		h[3] += d;
+		h[4] += e;
+		h[5] += f;
+		h[6] += g;
+		h[7] += hh;
+	}
+
+	const out = new Uint8Array(32);
+	const outView = new DataView(out.buffer);
+	h.forEach((word, i) => outView.setUint32(i * 4, word));
+	return out;
+}
+
+/**
+ * Double SHA-256, used for txids and base58check checksums
+ */
+export function hash256(data: Uint8Array): Uint8Array {
+	return sha256(sha256(data));
+}
+
+function rotr(x: number, n: number): number {
+	return (x >>> n) | (x << (32 - n));
+}
@@ -0,0 +1,17 @@
+/**
+ * Bitcoin Echo GUI — Decoding Errors
+ */
+
+/**
+ * Raw data that can't be decoded (bad hex, truncated or malformed serialization)
+ */
+export class DecodeError extends Error {
+	/** Byte offset where decoding failed (null when not tied to a position) */
+	readonly offset: number | null;
+
+	constructor(message: string, offset: number | null = null) {
+		super(offset === null ? message : `${message} (at byte ${offset})`);
+		this.name = 'DecodeError';
+		this.offset = offset;
+	}
+}
@@ -0,0 +1,42 @@
+/**
+ * Bitcoin Echo GUI — Bitcoin Primitives
+ *
+ * Client-side decoding of transactions and scripts, so pages can show
+ * raw data (a pasted transaction, a script) without asking the node,
+ * plus the service flags peers advertise.
+ *
+ * Encoders follow the vectors in BIP173 (bech32), BIP350 (bech32m) and
+ * BIP341 (taproot); examples in the doc comments are taken from them.
+ */
+
+export { DecodeError } from './errors';
+export { ByteReader, bytesToHex, hexToBytes, hashToHex, sha256, hash256 } from './bytes';
+export {
+	OP,
+	parseScript,
+	opcodeName,
+	smallIntValue,
+	toAsm,
+	isPushOnly,
+	isDerSignature
+} from './script';
+export type { ScriptOp, ParsedScript } from './script';
+export {
+	ADDRESS_NETWORKS,
+	addressNetwork,
+	base58Check,
+	segwitAddress,
+	decodeAddress
+} from './address';
+export type { AddressNetwork, DecodedAddress } from './address';
+export { OUTPUT_TYPE_LABELS, classifyOutput, outputAddress } from './outputs';
+export type { OutputType, OutputScript } from './outputs';
+export { SERVICE_FLAGS, decodeServices } from './services';
+export type { ServiceFlag } from './services';
+export { parseTransaction, describeTaprootWitness } from './transaction';
+export type {
+	Transaction,
+	TransactionInput,
+	TransactionOutput,
+	TaprootWitness
+} from './transaction';
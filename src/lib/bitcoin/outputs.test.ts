@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { classifyOutput, outputAddress } from './outputs';
+import type { OutputType } from './outputs';
+import { bytesToHex, hexToBytes } from './bytes';
+
+/**
+ * Genesis block coinbase output (P2PK, uncompressed key)
+ */
+const GENESIS_PUBKEY =
+	'04678afdb0fe5548271967f1a67130b7105cd6a828e03909a67962e0ea1f61deb649f6bc3f4cef38c4f35504e51ec112de5c384df7ba0b8d578a4c702b6bf11d5f';
+
+const KEY_A = '0279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798';
+const KEY_B = '03c6047f9441ed7d6d3045406e95c07cd85c778e4b8cef3ca7abac09b95c709ee5';
+
+describe('classifyOutput', () => {
+	it.each<[name: string, script: string, type: OutputType, program: string | undefined]>([
+		[
+			'P2PKH',
+			'76a91462e907b15cbf27d5425399ebf6f0fb50ebb88f1888ac',
+			'pubkeyhash',
+			'62e907b15cbf27d5425399ebf6f0fb50ebb88f18'
+		],
+		[
+			'P2SH',
+			'a914f54a5851e9372b87810a8e60cdd2e7cfd80b6e3187',
+			'scripthash',
+			'f54a5851e9372b87810a8e60cdd2e7cfd80b6e31'
+		],
+		[
+			'P2WPKH',
+			'0014751e76e8199196d454941c45d1b3a323f1433bd6',
+			'witness_v0_keyhash',
+			'751e76e8199196d454941c45d1b3a323f1433bd6'
+		],
+		[
+			'P2WSH',
+			'00201863143c14c5166804bd19203356da136c985678cd4d27a1b8c6329604903262',
+			'witness_v0_scripthash',
+			'1863143c14c5166804bd19203356da136c985678cd4d27a1b8c6329604903262'
+		],
+		[
+			'P2TR',
+			'512079be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798',
+			'witness_v1_taproot',
+			'79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798'
+		],
+		['P2A', '51024e73', 'anchor', '4e73'],
+		['witness v2', '5210751e76e8199196d454941c45d1b3a323', 'witness_unknown', '751e76e8199196d454941c45d1b3a323'],
+		['P2PK', `41${GENESIS_PUBKEY}ac`, 'pubkey', GENESIS_PUBKEY],
+		['P2PK (compressed)', `21${KEY_A}ac`, 'pubkey', KEY_A],
+		['v0 program of the wrong length', '0010751e76e8199196d454941c45d1b3a323', 'nonstandard', undefined],
+		['P2TR with a short program', '511f' + '00'.repeat(31), 'witness_unknown', '00'.repeat(31)],
+		['a truncated push', '76a914', 'nonstandard', undefined],
+		['an empty script', '', 'nonstandard', undefined]
+	])('recognizes %s', (_name, script, type, program) => {
+		const output = classifyOutput(hexToBytes(script));
+		expect(output.type).toBe(type);
+		expect(output.program && bytesToHex(output.program)).toBe(program);
+	});
+
+	it('reads the witness version', () => {
+		expect(classifyOutput(hexToBytes('6002751e')).witnessVersion).toBe(16);
+		expect(classifyOutput(hexToBytes('0014751e76e8199196d454941c45d1b3a323f1433bd6')).witnessVersion).toBe(0);
+	});
+
+	it('recognizes bare multisig', () => {
+		const output = classifyOutput(hexToBytes(`5121${KEY_A}21${KEY_B}52ae`));
+		expect(output.type).toBe('multisig');
+		expect(output.required).toBe(1);
+		expect(output.keys?.map(bytesToHex)).toEqual([KEY_A, KEY_B]);
+	});
+
+	it('rejects multisig whose key count disagrees with n', () => {
+		expect(classifyOutput(hexToBytes(`5121${KEY_A}21${KEY_B}53ae`)).type).toBe('nonstandard');
+		expect(classifyOutput(hexToBytes(`5321${KEY_A}21${KEY_B}52ae`)).type).toBe('nonstandard');
+	});
+
+	it('collects OP_RETURN data', () => {
+		const output = classifyOutput(hexToBytes('6a0568656c6c6f0120'));
+		expect(output.type).toBe('nulldata');
+		expect(bytesToHex(output.data!)).toBe('68656c6c6f20');
+	});
+
+	it('rejects OP_RETURN followed by non-push opcodes', () => {
+		expect(classifyOutput(hexToBytes('6a0568656c6c6fac')).type).toBe('nonstandard');
+		expect(classifyOutput(hexToBytes('6a0568656c')).type).toBe('nonstandard');
+	});
+});
+
+describe('outputAddress', () => {
+	// BIP341 wallet test vectors (scriptPubKey -> bip350Address)
+	it.each([
+		[
+			'512053a1f6e454df1aa2776a2814a721372d6258050de330b3c6d10ee8f4e0dda343',
+			'bc1p2wsldez5mud2yam29q22wgfh9439spgduvct83k3pm50fcxa5dps59h4z5'
+		],
+		[
+			'5120147c9c57132f6e7ecddba9800bb0c4449251c92a1e60371ee77557b6620f3ea3',
+			'bc1pz37fc4cn9ah8anwm4xqqhvxygjf9rjf2resrw8h8w4tmvcs0863sa2e586'
+		],
+		[
+			'5120e4d810fd50586274face62b8a807eb9719cef49c04177cc6b76a9a4251d5450e',
+			'bc1punvppl2stp38f7kwv2u2spltjuvuaayuqsthe34hd2dyy5w4g58qqfuag5'
+		]
+	])('addresses %s', (scriptPubKey, address) => {
+		expect(outputAddress(hexToBytes(scriptPubKey), 'main')).toBe(address);
+	});
+
+	it('uses the chain prefix', () => {
+		expect(outputAddress(hexToBytes('0014751e76e8199196d454941c45d1b3a323f1433bd6'), 'test')).toMatch(/^tb1q/);
+		expect(outputAddress(hexToBytes('0014751e76e8199196d454941c45d1b3a323f1433bd6'), 'regtest')).toMatch(
+			/^bcrt1q/
+		);
+	});
+
+	it('has no address for OP_RETURN', () => {
+		expect(outputAddress(hexToBytes('6a0568656c6c6f'), 'main')).toBeNull();
+	});
+});
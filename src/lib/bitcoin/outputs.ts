@@ -0,0 +1,197 @@
+/**
+ * Bitcoin Echo GUI — Output Classification
+ *
+ * Recognizes the standard scriptPubKey templates the same way Bitcoin
+ * Core's Solver does, and names them with Core's type strings so results
+ * line up with scriptPubKey.type from the node's RPCs.
+ */
+
+import { addressNetwork, base58Check, segwitAddress } from './address';
+import { OP, isPushOnly, parseScript, smallIntValue } from './script';
+
+/**
+ * scriptPubKey types (Bitcoin Core's names)
+ */
+export type OutputType =
+	| 'pubkey'
+	| 'pubkeyhash'
+	| 'scripthash'
+	| 'multisig'
+	| 'witness_v0_keyhash'
+	| 'witness_v0_scripthash'
+	| 'witness_v1_taproot'
+	| 'witness_unknown'
+	| 'anchor'
+	| 'nulldata'
+	| 'nonstandard';
+
+/**
+ * Short labels for output types
+ */
+export const OUTPUT_TYPE_LABELS: Record<OutputType, string> = {
+	pubkey: 'P2PK',
+	pubkeyhash: 'P2PKH',
+	scripthash: 'P2SH',
+	multisig: 'Bare multisig',
+	witness_v0_keyhash: 'P2WPKH',
+	witness_v0_scripthash: 'P2WSH',
+	witness_v1_taproot: 'P2TR',
+	witness_unknown: 'Future witness',
+	anchor: 'Anchor',
+	nulldata: 'OP_RETURN',
+	nonstandard: 'Non-standard'
+};
+
+/**
+ * A classified output script
+ */
+export interface OutputScript {
+	type: OutputType;
+	/** Hash, key or witness program the template commits to */
+	program?: Uint8Array;
+	/** Witness version (witness outputs only) */
+	witnessVersion?: number;
+	/** Required and total keys (multisig only) */
+	required?: number;
+	keys?: Uint8Array[];
+	/** Concatenated pushes after OP_RETURN (nulldata only) */
+	data?: Uint8Array;
+}
+
+/**
+ * Pay-to-anchor program (BIP 431 ephemeral anchors)
+ */
+const ANCHOR_PROGRAM = [0x4e, 0x73];
+
+function isPubkey(data: Uint8Array | undefined): data is Uint8Array {
+	if (!data) return false;
+	if (data.length === 33) return data[0] === 0x02 || data[0] === 0x03;
+	if (data.length === 65) return data[0] === 0x04;
+	return false;
+}
+
+/**
+ * Witness version and program, if the script is a witness output (BIP141)
+ */
+function witnessProgram(script: Uint8Array): { version: number; program: Uint8Array } | null {
+	if (script.length < 4 || script.length > 42) return null;
+	const first = script[0];
+	if (first !== OP.OP_0 && (first < OP.OP_1 || first > OP.OP_16)) return null;
+	if (script[1] + 2 !== script.length) return null;
+	return { version: smallIntValue(first)!, program: script.slice(2) };
+}
+
+/**
+ * Classify an output script
+ */
+export function classifyOutput(script: Uint8Array): OutputScript {
+	// P2PKH: OP_DUP OP_HASH160 <20> OP_EQUALVERIFY OP_CHECKSIG
+	if (
+		script.length === 25 &&
+		script[0] === OP.OP_DUP &&
+		script[1] === OP.OP_HASH160 &&
+		script[2] === 20 &&
+		script[23] === OP.OP_EQUALVERIFY &&
+		script[24] === OP.OP_CHECKSIG
+	) {
+		return { type: 'pubkeyhash', program: script.slice(3, 23) };
+	}
+
+	// P2SH: OP_HASH160 <20> OP_EQUAL
+	if (
+		script.length === 23 &&
+		script[0] === OP.OP_HASH160 &&
+		script[1] === 20 &&
+		script[22] === OP.OP_EQUAL
+	) {
+		return { type: 'scripthash', program: script.slice(2, 22) };
+	}
+
+	const witness = witnessProgram(script);
+	if (witness) {
+		const { version, program } = witness;
+		if (version === 0 && program.length === 20) {
+			return { type: 'witness_v0_keyhash', program, witnessVersion: 0 };
+		}
+		if (version === 0 && program.length === 32) {
+			return { type: 'witness_v0_scripthash', program, witnessVersion: 0 };
+		}
+		if (version === 1 && program.length === 32) {
+			return { type: 'witness_v1_taproot', program, witnessVersion: 1 };
+		}
+		if (version === 1 && program.length === 2 && program.every((b, i) => b === ANCHOR_PROGRAM[i])) {
+			return { type: 'anchor', program, witnessVersion: 1 };
+		}
+		if (version !== 0) {
+			return { type: 'witness_unknown', program, witnessVersion: version };
+		}
+		return { type: 'nonstandard' };
+	}
+
+	const { ops, truncated } = parseScript(script);
+
+	// OP_RETURN followed only by pushes
+	if (script[0] === OP.OP_RETURN && !truncated && isPushOnly(ops.slice(1))) {
+		return {
+			type: 'nulldata',
+			data: Uint8Array.from(ops.slice(1).flatMap((op) => Array.from(op.data ?? [])))
+		};
+	}
+
+	if (truncated) return { type: 'nonstandard' };
+
+	// P2PK: <pubkey> OP_CHECKSIG
+	if (ops.length === 2 && isPubkey(ops[0].data) && ops[1].opcode === OP.OP_CHECKSIG) {
+		return { type: 'pubkey', program: ops[0].data };
+	}
+
+	// Bare multisig: OP_m <pubkey>... OP_n OP_CHECKMULTISIG
+	if (ops.length >= 4 && ops[ops.length - 1].opcode === OP.OP_CHECKMULTISIG) {
+		const required = smallIntValue(ops[0].opcode);
+		const total = smallIntValue(ops[ops.length - 2].opcode);
+		const keys = ops.slice(1, -2);
+		if (
+			required !== null &&
+			total !== null &&
+			required >= 1 &&
+			required <= total &&
+			total === keys.length &&
+			keys.every((op) => isPubkey(op.data))
+		) {
+			return { type: 'multisig', required, keys: keys.map((op) => op.data!) };
+		}
+	}
+
+	return { type: 'nonstandard' };
+}
+
+/**
+ * Address for an output script on a network, if the type has one
+ *
+ * @param script - scriptPubKey bytes
+ * @param chain - Chain name as reported by getblockchaininfo ("main", "test", "signet", ...)
+ *
+ * @example
+ * // BIP341 wallet test vector
+ * outputAddress(hexToBytes('512053a1f6e454df1aa2776a2814a721372d6258050de330b3c6d10ee8f4e0dda343'), 'main')
+ * // 'bc1p2wsldez5mud2yam29q22wgfh9439spgduvct83k3pm50fcxa5dps59h4z5'
+ */
+export function outputAddress(script: Uint8Array, chain?: string | null): string | null {
+	const network = addressNetwork(chain);
+	const output = classifyOutput(script);
+
+	switch (output.type) {
+		case 'pubkeyhash':
+			return base58Check(network.pubkeyHash, output.program!);
+		case 'scripthash':
+			return base58Check(network.scriptHash, output.program!);
+		case 'witness_v0_keyhash':
+		case 'witness_v0_scripthash':
+		case 'witness_v1_taproot':
+		case 'witness_unknown':
+		case 'anchor':
+			return segwitAddress(network.hrp, output.witnessVersion!, output.program!);
+		default:
+			return null;
+	}
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { OP, isDerSignature, isPushOnly, opcodeName, parseScript, smallIntValue, toAsm } from './script';
+import { bytesToHex, hexToBytes } from './bytes';
+
+/**
+ * Signature from the BIP143 native P2WPKH example (SIGHASH_ALL)
+ */
+const SIGNATURE =
+	'304402203609e17b84f6a7d30c80bfa610b5b4542f32a8a0d5447a12fb1366d7f01cc44a0220573a954c4518331561406f90300e8f3358f51928d43c212a8caed02de67eebee01';
+const PUBKEY = '025476c2e83188368da1ff3e292e7acafcdb3566bb0ad253f62fc70f07aeee6357';
+
+describe('parseScript', () => {
+	it('splits opcodes and pushes', () => {
+		const { ops, truncated } = parseScript(hexToBytes('76a91462e907b15cbf27d5425399ebf6f0fb50ebb88f1888ac'));
+		expect(truncated).toBe(false);
+		expect(ops.map((op) => op.opcode)).toEqual([OP.OP_DUP, OP.OP_HASH160, 20, OP.OP_EQUALVERIFY, OP.OP_CHECKSIG]);
+		expect(bytesToHex(ops[2].data!)).toBe('62e907b15cbf27d5425399ebf6f0fb50ebb88f18');
+	});
+
+	it('reads PUSHDATA1, PUSHDATA2 and PUSHDATA4 lengths', () => {
+		const { ops } = parseScript(hexToBytes('4c02aabb4d0100cc4e01000000dd'));
+		expect(ops.map((op) => bytesToHex(op.data!))).toEqual(['aabb', 'cc', 'dd']);
+	});
+
+	it('marks a push past the end as truncated', () => {
+		expect(parseScript(hexToBytes('0302aa'))).toEqual({ ops: [], truncated: true });
+		expect(parseScript(hexToBytes('514d01'))).toEqual({ ops: [{ opcode: OP.OP_1 }], truncated: true });
+	});
+});
+
+describe('toAsm', () => {
+	it('matches Bitcoin Core for P2PKH', () => {
+		expect(toAsm(hexToBytes('76a91462e907b15cbf27d5425399ebf6f0fb50ebb88f1888ac'))).toBe(
+			'OP_DUP OP_HASH160 62e907b15cbf27d5425399ebf6f0fb50ebb88f18 OP_EQUALVERIFY OP_CHECKSIG'
+		);
+	});
+
+	it('shows small numbers and short pushes as decimal', () => {
+		expect(toAsm(hexToBytes('0051604f0102028000'))).toBe('0 1 16 -1 2 128');
+		expect(toAsm(hexToBytes('0181'))).toBe('-1');
+	});
+
+	it('names the sighash type of scriptSig signatures', () => {
+		const scriptSig = hexToBytes(`47${SIGNATURE}21${PUBKEY}`);
+		expect(toAsm(scriptSig, { sighash: true })).toBe(`${SIGNATURE.slice(0, -2)}[ALL] ${PUBKEY}`);
+		expect(toAsm(scriptSig)).toBe(`${SIGNATURE} ${PUBKEY}`);
+	});
+
+	it('flags truncated scripts', () => {
+		expect(toAsm(hexToBytes('6a05aabb'))).toBe('OP_RETURN [error]');
+	});
+});
+
+describe('opcodes', () => {
+	it('names opcodes', () => {
+		expect(opcodeName(OP.OP_CHECKSIG)).toBe('OP_CHECKSIG');
+		expect(opcodeName(OP.OP_16)).toBe('OP_16');
+		expect(opcodeName(0xff)).toBe('OP_UNKNOWN');
+	});
+
+	it('reads small integers', () => {
+		expect([OP.OP_0, OP.OP_1NEGATE, OP.OP_1, OP.OP_16].map(smallIntValue)).toEqual([0, -1, 1, 16]);
+		expect(smallIntValue(OP.OP_CHECKSIG)).toBeNull();
+	});
+
+	it('tells push-only scripts apart', () => {
+		expect(isPushOnly(parseScript(hexToBytes('00510201ff')).ops)).toBe(true);
+		expect(isPushOnly(parseScript(hexToBytes('0051ac')).ops)).toBe(false);
+	});
+});
+
+describe('isDerSignature', () => {
+	it('accepts a strict-DER signature with a sighash byte', () => {
+		expect(isDerSignature(hexToBytes(SIGNATURE))).toBe(true);
+	});
+
+	it('rejects an unknown sighash type or a bad length', () => {
+		expect(isDerSignature(hexToBytes(`${SIGNATURE.slice(0, -2)}04`))).toBe(false);
+		expect(isDerSignature(hexToBytes(SIGNATURE.slice(0, -4) + '01'))).toBe(false);
+		expect(isDerSignature(hexToBytes(PUBKEY))).toBe(false);
+	});
+});
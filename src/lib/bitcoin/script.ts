@@ -0,0 +1,285 @@
+/**
+ * Bitcoin Echo GUI — Script Disassembly
+ *
+ * Splits a script into opcodes and data pushes, and renders the "asm"
+ * form Bitcoin Core prints (pushes as hex, small numbers as decimal).
+ */
+
+import { bytesToHex } from './bytes';
+
+/**
+ * Opcodes referenced by name elsewhere in the library
+ */
+export const OP = {
+	OP_0: 0x00,
+	OP_PUSHDATA1: 0x4c,
+	OP_PUSHDATA2: 0x4d,
+	OP_PUSHDATA4: 0x4e,
+	OP_1NEGATE: 0x4f,
+	OP_1: 0x51,
+	OP_16: 0x60,
+	OP_RETURN: 0x6a,
+	OP_DUP: 0x76,
+	OP_EQUAL: 0x87,
+	OP_EQUALVERIFY: 0x88,
+	OP_HASH160: 0xa9,
+	OP_CHECKSIG: 0xac,
+	OP_CHECKMULTISIG: 0xae
+} as const;
+
+/**
+ * Opcode names, by value (pushes and small integers are handled separately)
+ */
+const OPCODE_NAMES: Record<number, string> = {
+	0x50: 'OP_RESERVED',
+	0x61: 'OP_NOP',
+	0x62: 'OP_VER',
+	0x63: 'OP_IF',
+	0x64: 'OP_NOTIF',
+	0x65: 'OP_VERIF',
+	0x66: 'OP_VERNOTIF',
+	0x67: 'OP_ELSE',
+	0x68: 'OP_ENDIF',
+	0x69: 'OP_VERIFY',
+	0x6a: 'OP_RETURN',
+	0x6b: 'OP_TOALTSTACK',
+	0x6c: 'OP_FROMALTSTACK',
+	0x6d: 'OP_2DROP',
+	0x6e: 'OP_2DUP',
+	0x6f: 'OP_3DUP',
+	0x70: 'OP_2OVER',
+	0x71: 'OP_2ROT',
+	0x72: 'OP_2SWAP',
+	0x73: 'OP_IFDUP',
+	0x74: 'OP_DEPTH',
+	0x75: 'OP_DROP',
+	0x76: 'OP_DUP',
+	0x77: 'OP_NIP',
+	0x78: 'OP_OVER',
+	0x79: 'OP_PICK',
+	0x7a: 'OP_ROLL',
+	0x7b: 'OP_ROT',
+	0x7c: 'OP_SWAP',
+	0x7d: 'OP_TUCK',
+	0x7e: 'OP_CAT',
+	0x7f: 'OP_SUBSTR',
+	0x80: 'OP_LEFT',
+	0x81: 'OP_RIGHT',
+	0x82: 'OP_SIZE',
+	0x83: 'OP_INVERT',
+	0x84: 'OP_AND',
+	0x85: 'OP_OR',
+	0x86: 'OP_XOR',
+	0x87: 'OP_EQUAL',
+	0x88: 'OP_EQUALVERIFY',
+	0x89: 'OP_RESERVED1',
+	0x8a: 'OP_RESERVED2',
+	0x8b: 'OP_1ADD',
+	0x8c: 'OP_1SUB',
+	0x8d: 'OP_2MUL',
+	0x8e: 'OP_2DIV',
+	0x8f: 'OP_NEGATE',
+	0x90: 'OP_ABS',
+	0x91: 'OP_NOT',
+	0x92: 'OP_0NOTEQUAL',
+	0x93: 'OP_ADD',
+	0x94: 'OP_SUB',
+	0x95: 'OP_MUL',
+	0x96: 'OP_DIV',
+	0x97: 'OP_MOD',
+	0x98: 'OP_LSHIFT',
+	0x99: 'OP_RSHIFT',
+	0x9a: 'OP_BOOLAND',
+	0x9b: 'OP_BOOLOR',
+	0x9c: 'OP_NUMEQUAL',
+	0x9d: 'OP_NUMEQUALVERIFY',
+	0x9e: 'OP_NUMNOTEQUAL',
+	0x9f: 'OP_LESSTHAN',
+	0xa0: 'OP_GREATERTHAN',
+	0xa1: 'OP_LESSTHANOREQUAL',
+	0xa2: 'OP_GREATERTHANOREQUAL',
+	0xa3: 'OP_MIN',
+	0xa4: 'OP_MAX',
+	0xa5: 'OP_WITHIN',
+	0xa6: 'OP_RIPEMD160',
+	0xa7: 'OP_SHA1',
+	0xa8: 'OP_SHA256',
+	0xa9: 'OP_HASH160',
+	0xaa: 'OP_HASH256',
+	0xab: 'OP_CODESEPARATOR',
+	0xac: 'OP_CHECKSIG',
+	0xad: 'OP_CHECKSIGVERIFY',
+	0xae: 'OP_CHECKMULTISIG',
+	0xaf: 'OP_CHECKMULTISIGVERIFY',
+	0xb0: 'OP_NOP1',
+	0xb1: 'OP_CHECKLOCKTIMEVERIFY',
+	0xb2: 'OP_CHECKSEQUENCEVERIFY',
+	0xb3: 'OP_NOP4',
+	0xb4: 'OP_NOP5',
+	0xb5: 'OP_NOP6',
+	0xb6: 'OP_NOP7',
+	0xb7: 'OP_NOP8',
+	0xb8: 'OP_NOP9',
+	0xb9: 'OP_NOP10',
+	0xba: 'OP_CHECKSIGADD'
+};
+
+/**
+ * One element of a script
+ */
+export interface ScriptOp {
+	opcode: number;
+	/** Pushed data (push opcodes only) */
+	data?: Uint8Array;
+}
+
+/**
+ * Result of splitting a script into ops
+ */
+export interface ParsedScript {
+	ops: ScriptOp[];
+	/** True when a push runs past the end of the script */
+	truncated: boolean;
+}
+
+/**
+ * Split a script into opcodes and pushes
+ *
+ * Never throws: scripts are arbitrary bytes (scriptSigs of coinbases,
+ * nonstandard outputs), so a push that runs off the end just marks the
+ * result truncated.
+ */
+export function parseScript(script: Uint8Array): ParsedScript {
+	const ops: ScriptOp[] = [];
+	let offset = 0;
+
+	while (offset < script.length) {
+		const opcode = script[offset++];
+		let length: number | null = null;
+
+		if (opcode > OP.OP_0 && opcode < OP.OP_PUSHDATA1) {
+			length = opcode;
+		} else if (opcode === OP.OP_PUSHDATA1) {
+			if (offset + 1 > script.length) return { ops, truncated: true };
+			length = script[offset];
+			offset += 1;
+		} else if (opcode === OP.OP_PUSHDATA2) {
+			if (offset + 2 > script.length) return { ops, truncated: true };
+			length = script[offset] | (script[offset + 1] << 8);
+			offset += 2;
+		} else if (opcode === OP.OP_PUSHDATA4) {
+			if (offset + 4 > script.length) return { ops, truncated: true };
+			length =
+				(script[offset] |
+					(script[offset + 1] << 8) |
+					(script[offset + 2] << 16) |
+					(script[offset + 3] << 24)) >>>
+				0;
+			offset += 4;
+		}
+
+		if (length === null) {
+			ops.push({ opcode });
+			continue;
+		}
+		if (offset + length > script.length) return { ops, truncated: true };
+		ops.push({ opcode, data: script.slice(offset, offset + length) });
+		offset += length;
+	}
+
+	return { ops, truncated: false };
+}
+
+/**
+ * Name of a non-push opcode (e.g. "OP_CHECKSIG", "OP_5")
+ */
+export function opcodeName(opcode: number): string {
+	if (opcode === OP.OP_0) return 'OP_0';
+	if (opcode === OP.OP_1NEGATE) return 'OP_1NEGATE';
+	if (opcode >= OP.OP_1 && opcode <= OP.OP_16) return `OP_${opcode - OP.OP_1 + 1}`;
+	return OPCODE_NAMES[opcode] ?? 'OP_UNKNOWN';
+}
+
+/**
+ * Value of a small-integer opcode (OP_0, OP_1NEGATE, OP_1-OP_16), or null
+ */
+export function smallIntValue(opcode: number): number | null {
+	if (opcode === OP.OP_0) return 0;
+	if (opcode === OP.OP_1NEGATE) return -1;
+	if (opcode >= OP.OP_1 && opcode <= OP.OP_16) return opcode - OP.OP_1 + 1;
+	return null;
+}
+
+/**
+ * Decode a minimally encoded script number (up to 4 bytes), as Core's asm does
+ */
+function scriptNum(data: Uint8Array): number {
+	if (data.length === 0) return 0;
+
+	let value = 0;
+	for (let i = 0; i < data.length; i++) value += data[i] * 2 ** (8 * i);
+
+	const last = data[data.length - 1];
+	if (last & 0x80) return -(value - 0x80 * 2 ** (8 * (data.length - 1)));
+	return value;
+}
+
+/**
+ * Sighash type names (BIP143 / legacy)
+ */
+const SIGHASH_NAMES: Record<number, string> = {
+	0x01: 'ALL',
+	0x02: 'NONE',
+	0x03: 'SINGLE',
+	0x81: 'ALL|ANYONECANPAY',
+	0x82: 'NONE|ANYONECANPAY',
+	0x83: 'SINGLE|ANYONECANPAY'
+};
+
+/**
+ * Whether a push is a strict-DER ECDSA signature followed by a sighash byte (BIP66)
+ */
+export function isDerSignature(data: Uint8Array): boolean {
+	if (data.length < 9 || data.length > 73) return false;
+	if (data[0] !== 0x30 || data[1] !== data.length - 3) return false;
+
+	const rLength = data[3];
+	if (data[2] !== 0x02 || rLength === 0 || 5 + rLength >= data.length) return false;
+	const sLength = data[5 + rLength];
+	if (data[4 + rLength] !== 0x02 || sLength === 0) return false;
+	return rLength + sLength + 7 === data.length && SIGHASH_NAMES[data[data.length - 1]] !== undefined;
+}
+
+/**
+ * Disassemble a script into Bitcoin Core's asm format
+ *
+ * With sighash set (for scriptSigs), signature pushes show their sighash
+ * type by name, e.g. "3044...01" becomes "3044...[ALL]".
+ *
+ * @example
+ * toAsm(hexToBytes('76a91462e907b15cbf27d5425399ebf6f0fb50ebb88f1888ac'))
+ * // 'OP_DUP OP_HASH160 62e907b15cbf27d5425399ebf6f0fb50ebb88f18 OP_EQUALVERIFY OP_CHECKSIG'
+ */
+export function toAsm(script: Uint8Array, { sighash = false } = {}): string {
+	const { ops, truncated } = parseScript(script);
+
+	const parts = ops.map(({ opcode, data }) => {
+		if (data && data.length <= 4) return String(scriptNum(data));
+		if (data && sighash && isDerSignature(data)) {
+			return `${bytesToHex(data.slice(0, -1))}[${SIGHASH_NAMES[data[data.length - 1]]}]`;
+		}
+		if (data) return bytesToHex(data);
+		const small = smallIntValue(opcode);
+		return small !== null ? String(small) : opcodeName(opcode);
+	});
+
+	if (truncated) parts.push('[error]');
+	return parts.join(' ');
+}
+
+/**
+ * Whether a script contains only pushes (and small-integer opcodes)
+ */
+export function isPushOnly(ops: ScriptOp[]): boolean {
+	return ops.every((op) => op.opcode <= OP.OP_16);
+}
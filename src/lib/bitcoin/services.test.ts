@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { decodeServices } from './services';
+
+describe('decodeServices', () => {
+	it('names the bits a pruned segwit node sets', () => {
+		expect(decodeServices('0000000000000409').map((flag) => flag.name)).toEqual([
+			'NETWORK',
+			'WITNESS',
+			'NETWORK_LIMITED'
+		]);
+	});
+
+	it('names the bits a v2-transport node with filters sets', () => {
+		expect(decodeServices('0000000000000c49').map((flag) => flag.name)).toEqual([
+			'NETWORK',
+			'WITNESS',
+			'COMPACT_FILTERS',
+			'NETWORK_LIMITED',
+			'P2P_V2'
+		]);
+	});
+
+	it('keeps unknown bits, past 32 too', () => {
+		expect(decodeServices('0000010001000000')).toEqual([
+			{ bit: 24, name: 'BIT_24', description: null },
+			{ bit: 40, name: 'BIT_40', description: null }
+		]);
+	});
+
+	it('has no flags for zero or empty', () => {
+		expect(decodeServices('0000000000000000')).toEqual([]);
+		expect(decodeServices('')).toEqual([]);
+	});
+});
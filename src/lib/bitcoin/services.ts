@@ -0,0 +1,45 @@
+/**
+ * Bitcoin Echo GUI — Service Flags
+ *
+ * Names the service bits a peer advertises in its version message, using
+ * Bitcoin Core's NODE_* names (getpeerinfo's servicesnames drops the
+ * prefix; older nodes only send the hex).
+ */
+
+/**
+ * Known service bits
+ */
+export const SERVICE_FLAGS: ReadonlyArray<{ bit: number; name: string; description: string }> = [
+	{ bit: 0, name: 'NETWORK', description: 'Serves the full block chain' },
+	{ bit: 1, name: 'GETUTXO', description: 'Answers getutxo requests (BIP64)' },
+	{ bit: 2, name: 'BLOOM', description: 'Serves bloom-filtered connections (BIP111)' },
+	{ bit: 3, name: 'WITNESS', description: 'Serves witness data (BIP144)' },
+	{ bit: 6, name: 'COMPACT_FILTERS', description: 'Serves compact block filters (BIP157)' },
+	{ bit: 10, name: 'NETWORK_LIMITED', description: 'Serves the last 288 blocks (BIP159)' },
+	{ bit: 11, name: 'P2P_V2', description: 'Supports encrypted transport (BIP324)' }
+];
+
+/**
+ * A decoded service bit
+ */
+export interface ServiceFlag {
+	bit: number;
+	name: string; // e.g. "WITNESS", or "BIT_24" for unknown bits
+	description: string | null;
+}
+
+/**
+ * Decode a services field (hex, as getpeerinfo reports it)
+ *
+ * @example decodeServices('0000000000000409') // NETWORK, WITNESS, NETWORK_LIMITED
+ */
+export function decodeServices(hex: string): ServiceFlag[] {
+	let services = BigInt(`0x${hex || '0'}`);
+	const flags: ServiceFlag[] = [];
+	for (let bit = 0; services > 0n; bit++, services >>= 1n) {
+		if ((services & 1n) === 0n) continue;
+		const known = SERVICE_FLAGS.find((flag) => flag.bit === bit);
+		flags.push({ bit, name: known?.name ?? `BIT_${bit}`, description: known?.description ?? null });
+	}
+	return flags;
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { describeTaprootWitness, parseTransaction } from './transaction';
+import { bytesToHex, hexToBytes } from './bytes';
+import { DecodeError } from './errors';
+
+/**
+ * Genesis block coinbase (legacy serialization)
+ */
+const GENESIS_COINBASE =
+	'01000000010000000000000000000000000000000000000000000000000000000000000000ffffffff4d04ffff001d0104455468652054696d65732030332f4a616e2f32303039204368616e63656c6c6f72206f6e206272696e6b206f66207365636f6e64206261696c6f757420666f722062616e6b73ffffffff0100f2052a01000000434104678afdb0fe5548271967f1a67130b7105cd6a828e03909a67962e0ea1f61deb649f6bc3f4cef38c4f35504e51ec112de5c384df7ba0b8d578a4c702b6bf11d5fac00000000';
+
+/**
+ * BIP143 "Native P2WPKH" example, signed: a P2PK input and a P2WPKH input
+ */
+const BIP143_P2WPKH =
+	'01000000000102fff7f7881a8099afa6940d42d1e7f6362bec38171ea3edf433541db4e4ad969f00000000494830450221008b9d1dc26ba6a9cb62127b02742fa9d754cd3bebf337f7a55d114c8e5cdd30be022040529b194ba3f9281a99f2b1c0a19c0489bc22ede944ccf4ecbab4cc618ef3ed01eeffffffef51e1b804cc89d182d279655c3aa89e815b1b309fe287d9b2b55d57b90ec68a0100000000ffffffff02202cb206000000001976a9148280b37df378db99f66f85c95a783a76ac7a6d5988ac9093510d000000001976a9143bde42dbee7e4dbe6a21b2d50ce2f0167faa815988ac000247304402203609e17b84f6a7d30c80bfa610b5b4542f32a8a0d5447a12fb1366d7f01cc44a0220573a954c4518331561406f90300e8f3358f51928d43c212a8caed02de67eebee0121025476c2e83188368da1ff3e292e7acafcdb3566bb0ad253f62fc70f07aeee635711000000';
+
+/**
+ * BIP143 "P2SH-P2WPKH" example, signed
+ */
+const BIP143_P2SH_P2WPKH =
+	'01000000000101db6b1b20aa0fd7b23880be2ecbd4a98130974cf4748fb66092ac4d3ceb1a5477010000001716001479091972186c449eb1ded22b78e40d009bdf0089feffffff02b8b4eb0b000000001976a914a457b684d7f0d539a46a45bbc043f35b59d0d96388ac0008af2f000000001976a914fd270b1ee6abcaea97fea7ad0402e8bd8ad6d77c88ac02473044022047ac8e878352d3ebbde1c94ce3a10d057c24175747116f8288e5d794d12d482f0220217f36a485cae903c713331d877c1f64677e3622ad4010726870540656fe9dcb012103ad1d8e89212f0b92c74d23bb710c00662ad1470198ac48c43f7d6f93a2a2687392040000';
+
+describe('parseTransaction', () => {
+	it('parses the genesis coinbase', () => {
+		const tx = parseTransaction(GENESIS_COINBASE);
+		expect(tx.txid).toBe('4a5e1e4baab89f3a32518a88c31bc87f618f76673e2cc77ab2127b7afdeda33b');
+		expect(tx.wtxid).toBe(tx.txid);
+		expect(tx.segwit).toBe(false);
+		expect(tx.inputs).toHaveLength(1);
+		expect(tx.inputs[0].coinbase).toBe(true);
+		expect(tx.outputs).toEqual([{ value: 5_000_000_000, scriptPubKey: expect.any(Uint8Array) }]);
+		expect(tx).toMatchObject({ size: 204, baseSize: 204, weight: 816, vsize: 204, locktime: 0 });
+	});
+
+	it('accepts bytes as well as hex', () => {
+		expect(parseTransaction(hexToBytes(GENESIS_COINBASE)).txid).toBe(parseTransaction(GENESIS_COINBASE).txid);
+	});
+
+	it('parses the BIP143 native P2WPKH example', () => {
+		const tx = parseTransaction(BIP143_P2WPKH);
+		expect(tx.segwit).toBe(true);
+		expect(tx.txid).toBe('e8151a2af31c368a35053ddd4bdb285a8595c769a3ad83e0fa02314a602d4609');
+		expect(tx.wtxid).toBe('c36c38370907df2324d9ce9d149d191192f338b37665a82e78e76a12c909b762');
+		expect(tx).toMatchObject({ size: 343, baseSize: 233, weight: 1042, vsize: 261, locktime: 17 });
+
+		const [p2pk, p2wpkh] = tx.inputs;
+		expect(p2pk.txid).toBe('9f96ade4b41d5433f4eda31e1738ec2b36f6e7d1420d94a6af99801a88f7f7ff');
+		expect(p2pk.sequence).toBe(0xffffffee);
+		expect(p2pk.witness).toEqual([]);
+		expect(p2wpkh.vout).toBe(1);
+		expect(p2wpkh.scriptSig).toHaveLength(0);
+		expect(p2wpkh.witness.map((item) => item.length)).toEqual([71, 33]);
+		expect(tx.outputs.map((output) => output.value)).toEqual([112_340_000, 223_450_000]);
+	});
+
+	it('parses the BIP143 P2SH-P2WPKH example', () => {
+		const tx = parseTransaction(BIP143_P2SH_P2WPKH);
+		expect(tx.txid).toBe('ef48d9d0f595052e0f8cdcf825f7a5e50b6a388a81f206f3f4846e5ecd7a0c23');
+		expect(tx.wtxid).toBe('680f483b2bf6c5dcbf111e69e885ba248a41a5e92070cfb0afec3cfc49a9fabb');
+		expect(tx).toMatchObject({ size: 251, baseSize: 142, weight: 677, vsize: 170, locktime: 1170 });
+		expect(bytesToHex(tx.inputs[0].scriptSig)).toBe('16001479091972186c449eb1ded22b78e40d009bdf0089');
+	});
+
+	it('rejects truncated data', () => {
+		expect(() => parseTransaction(GENESIS_COINBASE.slice(0, -10))).toThrow(DecodeError);
+	});
+
+	it('rejects trailing bytes', () => {
+		expect(() => parseTransaction(`${GENESIS_COINBASE}00`)).toThrow('1 unexpected bytes after locktime');
+	});
+
+	it('rejects a segwit flag other than 1', () => {
+		expect(() => parseTransaction(`010000000002${BIP143_P2WPKH.slice(12)}`)).toThrow(
+			'Unknown segwit flag 0x2'
+		);
+	});
+
+	it('rejects a segwit serialization with empty witnesses', () => {
+		// Native P2WPKH example with the second input's witness emptied
+		const witnessStart = BIP143_P2WPKH.indexOf('000247304402');
+		const stripped = `${BIP143_P2WPKH.slice(0, witnessStart)}0000${BIP143_P2WPKH.slice(-8)}`;
+		expect(() => parseTransaction(stripped)).toThrow('Segwit serialization with no witness data');
+	});
+
+	it('rejects bad hex', () => {
+		expect(() => parseTransaction('0100zz')).toThrow(DecodeError);
+	});
+});
+
+describe('describeTaprootWitness', () => {
+	const signature = new Uint8Array(64).fill(1);
+	const script = hexToBytes('20' + '02'.repeat(32) + 'ac');
+	const controlBlock = (depth: number) => new Uint8Array(33 + 32 * depth).fill(0xc0, 0, 1).fill(3, 1);
+
+	it('recognizes a key-path spend', () => {
+		expect(describeTaprootWitness([signature])).toEqual({ path: 'key', signature, annex: undefined });
+		expect(describeTaprootWitness([new Uint8Array(65)])?.path).toBe('key');
+	});
+
+	it('splits off the annex (BIP341: last item starting 0x50)', () => {
+		const annex = hexToBytes('50aa');
+		expect(describeTaprootWitness([signature, annex])).toEqual({ path: 'key', signature, annex });
+	});
+
+	it('recognizes a script-path spend', () => {
+		const witness = describeTaprootWitness([signature, script, controlBlock(2)]);
+		expect(witness).toMatchObject({
+			path: 'script',
+			stack: [signature],
+			script,
+			leafVersion: 0xc0,
+			internalKey: new Uint8Array(32).fill(3),
+			depth: 2
+		});
+	});
+
+	it('rejects witnesses that fit neither path', () => {
+		expect(describeTaprootWitness([])).toBeNull();
+		expect(describeTaprootWitness([new Uint8Array(63)])).toBeNull();
+		expect(describeTaprootWitness([script, new Uint8Array(34)])).toBeNull();
+	});
+});
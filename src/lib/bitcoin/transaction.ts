@@ -0,0 +1,220 @@
+/**
+ * Bitcoin Echo GUI — Transaction Parsing
+ *
+ * Decodes serialized transactions in both the legacy format and the
+ * BIP144 segwit format (marker 0x00, flag 0x01, witness after outputs),
+ * computing txid, wtxid, size, weight and vsize locally.
+ *
+ * Taproot witnesses (BIP341) are the same wire format; describeTaprootWitness
+ * splits a v1 witness into key-path or script-path parts.
+ */
+
+import { ByteReader, concatBytes, hash256, hashToHex, hexToBytes } from './bytes';
+import { DecodeError } from './errors';
+
+/**
+ * Decoded transaction input
+ */
+export interface TransactionInput {
+	txid: string; // Spent transaction (display byte order)
+	vout: number;
+	scriptSig: Uint8Array;
+	witness: Uint8Array[];
+	sequence: number;
+	coinbase: boolean; // Null prevout (all-zero txid, vout 0xffffffff)
+}
+
+/**
+ * Decoded transaction output
+ */
+export interface TransactionOutput {
+	value: number; // Satoshis
+	scriptPubKey: Uint8Array;
+}
+
+/**
+ * Decoded transaction
+ */
+export interface Transaction {
+	txid: string;
+	wtxid: string;
+	version: number;
+	segwit: boolean; // Serialized with a witness section
+	inputs: TransactionInput[];
+	outputs: TransactionOutput[];
+	locktime: number;
+	size: number; // Serialized size in bytes
+	baseSize: number; // Size without witness data
+	weight: number; // baseSize × 3 + size (BIP141)
+	vsize: number; // ceil(weight / 4)
+}
+
+const NULL_TXID = '0'.repeat(64);
+
+/**
+ * Parse a serialized transaction
+ *
+ * @param raw - Transaction as hex or bytes
+ * @throws DecodeError if the data isn't a well-formed transaction
+ *
+ * @example
+ * parseTransaction(genesisCoinbaseHex).txid
+ * // '4a5e1e4baab89f3a32518a88c31bc87f618f76673e2cc77ab2127b7afdeda33b'
+ */
+export function parseTransaction(raw: string | Uint8Array): Transaction {
+	const bytes = typeof raw === 'string' ? hexToBytes(raw) : raw;
+	const reader = new ByteReader(bytes);
+
+	const version = reader.readI32('version');
+
+	// BIP144: a zero "input count" followed by a non-zero flag marks segwit
+	const segwit = reader.peek() === 0x00 && reader.peek(1) !== undefined && reader.peek(1) !== 0x00;
+	if (segwit) {
+		reader.readU8('marker');
+		const flag = reader.readU8('flag');
+		if (flag !== 0x01) throw new DecodeError(`Unknown segwit flag 0x${flag.toString(16)}`, 5);
+	}
+
+	const bodyStart = reader.offset;
+
+	const inputCount = reader.readVarInt('input count');
+	if (inputCount > reader.remaining / 41) {
+		throw new DecodeError('Input count exceeds data length', bodyStart);
+	}
+	const inputs: TransactionInput[] = [];
+	for (let i = 0; i < inputCount; i++) {
+		const txid = hashToHex(reader.readBytes(32, `input ${i} txid`));
+		const vout = reader.readU32(`input ${i} vout`);
+		const scriptSig = reader.readVarBytes(`input ${i} scriptSig`);
+		const sequence = reader.readU32(`input ${i} sequence`);
+		inputs.push({
+			txid,
+			vout,
+			scriptSig,
+			witness: [],
+			sequence,
+			coinbase: txid === NULL_TXID && vout === 0xffffffff
+		});
+	}
+
+	const outputCount = reader.readVarInt('output count');
+	if (outputCount > reader.remaining / 9) {
+		throw new DecodeError('Output count exceeds data length', reader.offset);
+	}
+	const outputs: TransactionOutput[] = [];
+	for (let i = 0; i < outputCount; i++) {
+		const value = reader.readU64(`output ${i} value`);
+		const scriptPubKey = reader.readVarBytes(`output ${i} scriptPubKey`);
+		outputs.push({ value, scriptPubKey });
+	}
+
+	const bodyEnd = reader.offset;
+
+	if (segwit) {
+		for (const [i, input] of inputs.entries()) {
+			const items = reader.readVarInt(`input ${i} witness count`);
+			for (let j = 0; j < items; j++) {
+				input.witness.push(reader.readVarBytes(`input ${i} witness item ${j}`));
+			}
+		}
+		if (inputs.every((input) => input.witness.length === 0)) {
+			throw new DecodeError('Segwit serialization with no witness data');
+		}
+	}
+
+	const locktimeStart = reader.offset;
+	const locktime = reader.readU32('locktime');
+
+	if (reader.remaining > 0) {
+		throw new DecodeError(`${reader.remaining} unexpected bytes after locktime`, reader.offset);
+	}
+
+	// txid commits to the legacy serialization: version, inputs, outputs, locktime
+	const base = concatBytes(
+		bytes.slice(0, 4),
+		bytes.slice(bodyStart, bodyEnd),
+		bytes.slice(locktimeStart)
+	);
+	const txid = hashToHex(hash256(base));
+	const weight = base.length * 3 + bytes.length;
+
+	return {
+		txid,
+		wtxid: segwit ? hashToHex(hash256(bytes)) : txid,
+		version,
+		segwit,
+		inputs,
+		outputs,
+		locktime,
+		size: bytes.length,
+		baseSize: base.length,
+		weight,
+		vsize: Math.ceil(weight / 4)
+	};
+}
+
+/**
+ * Taproot (BIP341) witness, split into its parts
+ */
+export type TaprootWitness =
+	| {
+			path: 'key';
+			signature: Uint8Array; // 64-byte Schnorr signature (+ optional sighash byte)
+			annex?: Uint8Array;
+	  }
+	| {
+			path: 'script';
+			stack: Uint8Array[]; // Inputs to the leaf script
+			script: Uint8Array; // Leaf script being executed
+			controlBlock: Uint8Array;
+			leafVersion: number; // 0xc0 for tapscript
+			internalKey: Uint8Array; // 32-byte x-only key
+			depth: number; // Merkle path length
+			annex?: Uint8Array;
+	  };
+
+/**
+ * First byte of a taproot annex
+ */
+const ANNEX_TAG = 0x50;
+
+/**
+ * Split the witness of a taproot (v1) input into key-path or script-path parts
+ *
+ * Only meaningful when the spent output is P2TR. Returns null if the
+ * witness doesn't fit either spending path.
+ */
+export function describeTaprootWitness(witness: Uint8Array[]): TaprootWitness | null {
+	let items = witness;
+	let annex: Uint8Array | undefined;
+
+	// With two or more items, a last item starting 0x50 is the annex
+	if (items.length >= 2 && items[items.length - 1][0] === ANNEX_TAG) {
+		annex = items[items.length - 1];
+		items = items.slice(0, -1);
+	}
+
+	if (items.length === 1) {
+		const signature = items[0];
+		if (signature.length !== 64 && signature.length !== 65) return null;
+		return { path: 'key', signature, annex };
+	}
+
+	if (items.length >= 2) {
+		const controlBlock = items[items.length - 1];
+		if (controlBlock.length < 33 || (controlBlock.length - 33) % 32 !== 0) return null;
+		if ((controlBlock.length - 33) / 32 > 128) return null;
+		return {
+			path: 'script',
+			stack: items.slice(0, -2),
+			script: items[items.length - 2],
+			controlBlock,
+			leafVersion: controlBlock[0] & 0xfe,
+			internalKey: controlBlock.slice(1, 33),
+			depth: (controlBlock.length - 33) / 32,
+			annex
+		};
+	}
+
+	return null;
+}
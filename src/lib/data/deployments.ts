@@ -0,0 +1,103 @@
+/**
+ * Bitcoin Echo GUI — Version Bits Deployments
+ *
+ * Soft forks deployed through BIP9 version bits signalling, and helpers
+ * to decode a block's version field into the deployments it signalled.
+ *
+ * Sources:
+ * - https://github.com/bitcoin/bips/blob/master/bip-0009.mediawiki
+ * - https://github.com/bitcoin/bips/blob/master/bip-0320.mediawiki
+ */
+
+/**
+ * A soft fork signalled with a version bit
+ */
+export interface Deployment {
+	/** Version bit (0-28) */
+	bit: number;
+	/** Deployment name */
+	name: string;
+	/** BIPs it activated */
+	bips: string;
+	/** Signalling window: roughly the start time's height, through activation */
+	startHeight: number;
+	endHeight: number;
+}
+
+/**
+ * BIP9-style deployments per chain (BlockchainInfo.chain), by bit
+ *
+ * Bits are reused once a deployment ends, so a bit only means a deployment
+ * inside that deployment's signalling window. Heights differ per chain;
+ * chains without an entry (testnets, signet, regtest) aren't decoded.
+ */
+export const DEPLOYMENTS: Partial<Record<string, Deployment[]>> = {
+	main: [
+		{ bit: 0, name: 'CSV', bips: 'BIP 68, 112, 113', startHeight: 409000, endHeight: 419327 },
+		{ bit: 1, name: 'SegWit', bips: 'BIP 141, 143, 147', startHeight: 439000, endHeight: 481823 },
+		{ bit: 4, name: 'Mandatory SegWit signalling', bips: 'BIP 91', startHeight: 475000, endHeight: 481823 },
+		{ bit: 2, name: 'Taproot', bips: 'BIP 340, 341, 342', startHeight: 681408, endHeight: 709631 }
+	]
+};
+
+/**
+ * Whether deployment data exists for a chain
+ */
+export function hasDeployments(chain: string | null): boolean {
+	return chain !== null && DEPLOYMENTS[chain] !== undefined;
+}
+
+/**
+ * Top three bits 001 mark a version as using BIP9 signalling
+ */
+const VERSIONBITS_TOP_MASK = 0xe0000000;
+const VERSIONBITS_TOP_BITS = 0x20000000;
+
+/**
+ * Bits miners commonly roll for ASICBoost (BIP320 general-purpose bits 13-28)
+ */
+const VERSION_ROLLING_MASK = 0x1fffe000;
+
+/**
+ * A version's decoded signalling
+ */
+export interface VersionBits {
+	/** Whether the version uses BIP9 signalling at all */
+	versionBits: boolean;
+	/** Every set bit in 0-28 */
+	bits: number[];
+	/** Known deployments signalled at this height */
+	deployments: Deployment[];
+	/** Bits inside the BIP320 version-rolling range */
+	rolledBits: number[];
+}
+
+/**
+ * Decode a block version into its signalling bits
+ *
+ * @param version - Block version field
+ * @param height - Block height (deployments only count inside their window)
+ * @param chain - Chain the block is on (BlockchainInfo.chain)
+ */
+export function decodeVersionBits(version: number, height: number, chain: string): VersionBits {
+	const unsigned = version >>> 0;
+	const versionBits = (unsigned & VERSIONBITS_TOP_MASK) >>> 0 === VERSIONBITS_TOP_BITS;
+
+	if (!versionBits) {
+		return { versionBits, bits: [], deployments: [], rolledBits: [] };
+	}
+
+	const bits: number[] = [];
+	for (let bit = 0; bit <= 28; bit++) {
+		if (unsigned & (1 << bit)) bits.push(bit);
+	}
+
+	return {
+		versionBits,
+		bits,
+		deployments: (DEPLOYMENTS[chain] ?? []).filter(
+			(d) => bits.includes(d.bit) && height >= d.startHeight && height <= d.endHeight
+		),
+		rolledBits: bits.filter((bit) => VERSION_ROLLING_MASK & (1 << bit))
+	};
+}
@@ -12,6 +12,7 @@ export { default as Sidebar } from './components/Sidebar.svelte';
 // Connection components
 export { default as ConnectionStatus } from './components/ConnectionStatus.svelte';
 export { default as ConnectionSettings } from './components/ConnectionSettings.svelte';
+export { default as CompatibilityWarning } from './components/CompatibilityWarning.svelte';
 
 // Help components
 export { default as ObserverHelp } from './components/ObserverHelp.svelte';
@@ -0,0 +1,281 @@
+/**
+ * Bitcoin Echo GUI — Network Reference Providers
+ *
+ * The GUI compares the local node against "the network": its current
+ * height and hashrate. A provider answers that question for one chain.
+ *
+ * - node (default): The connected node itself. Height is its best header;
+ *   hashrate is derived from difficulty and recent block times. Works
+ *   air-gapped and on any chain, including regtest.
+ * - mempool: mempool.space (main, testnet, testnet4, signet).
+ * - esplora: A self-hosted Esplora / electrs HTTP API. Its genesis block is
+ *   checked against the node's chain before any numbers are trusted.
+ *
+ * Providers are chosen per connection profile.
+ */
+
+import { getBlockHash, getBlockHeader } from '$lib/rpc/client';
+import type { BlockchainInfo, RPCConfig } from '$lib/rpc/types';
+
+/**
+ * Available providers
+ */
+export type NetworkProviderId = 'node' | 'mempool' | 'esplora';
+
+/**
+ * Provider choice saved with a connection profile
+ */
+export interface NetworkReferenceSettings {
+	provider: NetworkProviderId;
+	esploraUrl?: string; // Base API URL for the esplora provider (e.g., "http://localhost:3002/api")
+}
+
+/**
+ * Network state as reported by a provider
+ */
+export interface NetworkReference {
+	height: number; // Network tip height
+	hashrate: number; // Network hashrate in EH/s (0 if unknown)
+}
+
+/**
+ * What a provider knows about the node it's answering for
+ */
+export interface ProviderContext {
+	chain: string; // BlockchainInfo.chain ("main", "test", "testnet4", "signet", "regtest")
+	chainInfo: BlockchainInfo | null; // Null in observer mode
+	config: RPCConfig;
+}
+
+/**
+ * A source of network height and hashrate
+ */
+export interface NetworkReferenceProvider {
+	id: NetworkProviderId;
+	label: string; // Shown as "via <label>"
+	supports(chain: string): boolean;
+	fetch(context: ProviderContext): Promise<NetworkReference>;
+}
+
+export const DEFAULT_NETWORK_REFERENCE: NetworkReferenceSettings = { provider: 'node' };
+
+/**
+ * Human-readable provider names for settings
+ */
+export const PROVIDER_LABELS: Record<NetworkProviderId, string> = {
+	node: 'Connected node',
+	mempool: 'mempool.space',
+	esplora: 'Esplora (self-hosted)'
+};
+
+/**
+ * Genesis block hash of each chain, used to confirm an Esplora server
+ * serves the same network as the node
+ */
+const GENESIS_HASHES: Record<string, string> = {
+	main: '000000000019d6689c085ae165831e934ff763ae46a2a6c172b3f1b60a8ce26f',
+	test: '000000000933ea01ad0ee984209779baaec3ced90fa3f408719526f8d77f4943',
+	testnet4: '00000000da84f2bafbbc53dee25a72ae507ff4914b867c565be350b0da8bf043',
+	signet: '00000008819873e925422c1ff0f99f7cc9bbb232af63a077a480a3633bee1ef6',
+	regtest: '0f9188f13cb7b2c71f2a335e3a4fc328bf5beb436012afca590b1a11466e2206'
+};
+
+/**
+ * mempool.space API base per chain (regtest has no public explorer)
+ */
+const MEMPOOL_API_BASES: Record<string, string> = {
+	main: 'https://mempool.space/api',
+	test: 'https://mempool.space/testnet/api',
+	testnet4: 'https://mempool.space/testnet4/api',
+	signet: 'https://mempool.space/signet/api'
+};
+
+/**
+ * Blocks averaged when deriving hashrate from block times (~1 day)
+ */
+const HASHRATE_WINDOW = 144;
+
+/**
+ * Hashrate implied by a difficulty and an average block interval
+ *
+ * Expected hashes per block are difficulty × 2^32.
+ *
+ * @returns Hashrate in EH/s
+ */
+export function hashrateFromDifficulty(difficulty: number, secondsPerBlock: number): number {
+	if (secondsPerBlock <= 0) return 0;
+	return (difficulty * 2 ** 32) / secondsPerBlock / 1e18;
+}
+
+/**
+ * GET a JSON body from an HTTP API
+ */
+async function fetchJSON<T>(url: string): Promise<T> {
+	const response = await fetch(url);
+	if (!response.ok) throw new Error(`HTTP ${response.status} from ${url}`);
+	return (await response.json()) as T;
+}
+
+/**
+ * GET a plain-text body from an HTTP API
+ */
+async function fetchText(url: string): Promise<string> {
+	const response = await fetch(url);
+	if (!response.ok) throw new Error(`HTTP ${response.status} from ${url}`);
+	return (await response.text()).trim();
+}
+
+/*
+ * Providers
+ */
+
+/**
+ * The connected node itself
+ */
+const nodeProvider: NetworkReferenceProvider = {
+	id: 'node',
+	label: 'node',
+
+	supports: () => true,
+
+	async fetch({ chainInfo, config }) {
+		// Observer mode has no chain state to report
+		if (!chainInfo) throw new Error('Node has no chain state (observer mode)');
+
+		let hashrate = 0;
+
+		// During IBD the tip is years old - its block times say nothing about today
+		if (!chainInfo.initialblockdownload && chainInfo.blocks > HASHRATE_WINDOW) {
+			const pastHash = await getBlockHash(chainInfo.blocks - HASHRATE_WINDOW, config);
+			const [tip, past] = await Promise.all([
+				getBlockHeader(chainInfo.bestblockhash, config),
+				getBlockHeader(pastHash, config)
+			]);
+			hashrate = hashrateFromDifficulty(tip.difficulty, (tip.time - past.time) / HASHRATE_WINDOW);
+		}
+
+		return { height: chainInfo.headers, hashrate };
+	}
+};
+
+/**
+ * Esplora block summary (subset of GET /blocks)
+ */
+interface EsploraBlock {
+	height: number;
+	timestamp: number;
+	difficulty: number;
+}
+
+/**
+ * Chains confirmed per Esplora base URL (genesis hash checked once)
+ */
+const verifiedChains = new Map<string, string>();
+
+/**
+ * Confirm an Esplora server serves the node's chain
+ */
+async function verifyEsploraChain(base: string, chain: string): Promise<void> {
+	if (verifiedChains.get(base) === chain) return;
+
+	const expected = GENESIS_HASHES[chain];
+	if (!expected) return; // Unknown chain - nothing to compare against
+
+	const genesis = await fetchText(`${base}/block-height/0`);
+	if (genesis !== expected) {
+		throw new Error(`${base} serves a different network than the node (${chain})`);
+	}
+	verifiedChains.set(base, chain);
+}
+
+/**
+ * Height and hashrate from an Esplora-compatible API
+ *
+ * Hashrate is derived from the difficulty and timestamps of the most
+ * recent blocks (GET /blocks returns the last 10).
+ */
+async function fetchFromEsplora(base: string): Promise<NetworkReference> {
+	const blocks = await fetchJSON<EsploraBlock[]>(`${base}/blocks`);
+	if (!Array.isArray(blocks) || blocks.length === 0) {
+		throw new Error(`No blocks returned by ${base}`);
+	}
+
+	const newest = blocks[0];
+	const oldest = blocks[blocks.length - 1];
+	const span = newest.height - oldest.height;
+	const secondsPerBlock = span > 0 ? (newest.timestamp - oldest.timestamp) / span : 0;
+	const hashrate = hashrateFromDifficulty(newest.difficulty, secondsPerBlock);
+
+	return { height: newest.height, hashrate };
+}
+
+/**
+ * Host part of a URL for display, falling back to the raw string
+ */
+function hostOf(url: string): string {
+	try {
+		return new URL(url).host;
+	} catch {
+		return url;
+	}
+}
+
+/**
+ * Self-hosted Esplora / electrs
+ */
+function esploraProvider(url: string): NetworkReferenceProvider {
+	const base = url.trim().replace(/\/+$/, '');
+
+	return {
+		id: 'esplora',
+		label: hostOf(base) || 'esplora',
+
+		supports: () => base.length > 0,
+
+		async fetch({ chain }) {
+			await verifyEsploraChain(base, chain);
+			return fetchFromEsplora(base);
+		}
+	};
+}
+
+/**
+ * mempool.space
+ */
+const mempoolProvider: NetworkReferenceProvider = {
+	id: 'mempool',
+	label: 'mempool.space',
+
+	supports: (chain) => chain in MEMPOOL_API_BASES,
+
+	async fetch({ chain }) {
+		const base = MEMPOOL_API_BASES[chain];
+
+		const [height, mining] = await Promise.all([
+			fetchJSON<number>(`${base}/blocks/tip/height`),
+			// currentHashrate is in H/s; convert to EH/s
+			fetchJSON<{ currentHashrate?: number }>(`${base}/v1/mining/hashrate/1m`).catch(() => ({
+				currentHashrate: undefined
+			}))
+		]);
+
+		return {
+			height: typeof height === 'number' ? height : 0,
+			hashrate: mining.currentHashrate ? mining.currentHashrate / 1e18 : 0
+		};
+	}
+};
+
+/**
+ * Build the provider for a profile's settings
+ */
+export function createProvider(settings: NetworkReferenceSettings): NetworkReferenceProvider {
+	switch (settings.provider) {
+		case 'mempool':
+			return mempoolProvider;
+		case 'esplora':
+			return esploraProvider(settings.esploraUrl ?? '');
+		default:
+			return nodeProvider;
+	}
+}
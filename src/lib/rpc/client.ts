@@ -11,12 +11,54 @@
 import type {
 	RPCResponse,
 	RPCConfig,
+	RPCAuth,
 	ObserverStats,
 	ObservedBlocksResponse,
 	ObservedTxsResponse,
 	BlockchainInfo,
-	SyncStatus
+	SyncStatus,
+	NetworkInfo,
+	BlockHeader,
+	Block,
+	RawTransaction,
+	MempoolAcceptResult,
+	MempoolEntry,
+	MempoolInfo,
+	RawMempool,
+	PeerInfo,
+	BannedSubnet
 } from './types';
+import {
+	RPCAuthError,
+	RPCHttpError,
+	RPCMalformedResponseError,
+	RPCMethodError,
+	RPCSchemaError,
+	RPCTimeoutError,
+	RPCTransportError
+} from './errors';
+import { validateResponse } from './schema';
+
+/**
+ * Outcome of a single call within a settled batch
+ */
+export type RPCBatchResult<T> =
+	| { ok: true; result: T }
+	| { ok: false; error: RPCMethodError | RPCMalformedResponseError };
+
+/**
+ * Per-call outcomes for a settled batch, preserving the tuple shape of T
+ */
+export type RPCBatchResults<T extends unknown[]> = { [K in keyof T]: RPCBatchResult<T[K]> };
+
+/**
+ * Measured round-trip latency (milliseconds)
+ */
+export interface RPCLatency {
+	last: number; // Most recent request
+	average: number; // Exponentially weighted moving average
+	samples: number; // Requests measured
+}
 
 /**
  * Default RPC configuration
@@ -32,89 +74,272 @@ const DEFAULT_CONFIG: RPCConfig = {
 let requestId = 1;
 
 /**
- * Make a JSON-RPC 1.0 request
+ * Smoothing factor for the latency average (weight of the newest sample)
+ */
+const LATENCY_SMOOTHING = 0.3;
+
+/**
+ * Round-trip latency of recent RPC requests
+ */
+let latency: RPCLatency | null = null;
+
+/**
+ * Record how long a request took (exponentially weighted moving average)
+ */
+function recordLatency(ms: number): void {
+	latency = latency
+		? {
+				last: ms,
+				average: latency.average + LATENCY_SMOOTHING * (ms - latency.average),
+				samples: latency.samples + 1
+			}
+		: { last: ms, average: ms, samples: 1 };
+}
+
+/**
+ * Get the measured RPC latency
  *
- * @param method - RPC method name
- * @param params - Method parameters (array)
- * @param config - RPC configuration (optional)
- * @returns Promise resolving to the result
- * @throws Error if RPC returns an error or network fails
+ * Covers only requests made with measureLatency (the scheduler's health
+ * check), so a slow console command or a large mempool dump doesn't skew
+ * it. Timeouts aren't counted: the scheduler backs off on failures anyway.
+ *
+ * @returns Last and smoothed round-trip time in milliseconds, or null before the first request
  */
-async function rpcCall<T>(
-	method: string,
-	params: unknown[] = [],
-	config: Partial<RPCConfig> = {}
-): Promise<T> {
-	const finalConfig = { ...DEFAULT_CONFIG, ...config };
+export function getLatency(): RPCLatency | null {
+	return latency;
+}
 
-	// Build JSON-RPC 1.0 request
-	const request = {
-		method,
-		params,
-		id: requestId++
+/**
+ * Forget measured latency (e.g. after switching to a different node)
+ */
+export function resetLatency(): void {
+	latency = null;
+}
+
+/**
+ * Username used by the node for cookie-file authentication
+ */
+const COOKIE_USERNAME = '__cookie__';
+
+/**
+ * Base64-encode a UTF-8 string (btoa alone only handles Latin-1)
+ */
+function base64Utf8(value: string): string {
+	const bytes = new TextEncoder().encode(value);
+	let binary = '';
+	for (const byte of bytes) {
+		binary += String.fromCharCode(byte);
+	}
+	return btoa(binary);
+}
+
+/**
+ * Build the Authorization header value for the configured credentials
+ *
+ * Cookie auth accepts either the full .cookie file contents
+ * ("__cookie__:<token>") or just the token.
+ *
+ * @returns Header value, or null when no auth is configured
+ */
+function authorizationHeader(auth: RPCAuth | undefined): string | null {
+	if (!auth) return null;
+
+	switch (auth.type) {
+		case 'basic':
+			if (!auth.username && !auth.password) return null;
+			return `Basic ${base64Utf8(`${auth.username}:${auth.password}`)}`;
+		case 'cookie': {
+			const cookie = auth.cookie.trim();
+			if (!cookie) return null;
+			const credentials = cookie.includes(':') ? cookie : `${COOKIE_USERNAME}:${cookie}`;
+			return `Basic ${base64Utf8(credentials)}`;
+		}
+		default:
+			return null;
+	}
+}
+
+/**
+ * Build request headers for an RPC call
+ */
+function buildHeaders(config: RPCConfig): Record<string, string> {
+	const headers: Record<string, string> = {
+		'Content-Type': 'application/json'
 	};
 
+	const authorization = authorizationHeader(config.auth);
+	if (authorization) {
+		headers['Authorization'] = authorization;
+	}
+
+	return headers;
+}
+
+/**
+ * Convert a non-OK HTTP response into an error
+ */
+function httpError(response: Response, method: string | null): RPCHttpError {
+	if (response.status === 401 || response.status === 403) {
+		return new RPCAuthError(response.status, response.statusText, method);
+	}
+	return new RPCHttpError(response.status, response.statusText, method);
+}
+
+/**
+ * POST a JSON-RPC payload and return the parsed JSON body
+ *
+ * Handles timeout, transport, HTTP and JSON parse failures, mapping each
+ * to its RPCClientError subclass, and optionally records the request's latency.
+ *
+ * @param payload - Single request object or batch array
+ * @param config - Fully resolved RPC configuration
+ * @param method - Method name for error context (null for batches)
+ * @param measureLatency - Count this request towards getLatency()
+ */
+async function postRPC(
+	payload: unknown,
+	config: RPCConfig,
+	method: string | null,
+	measureLatency = false
+): Promise<unknown> {
 	// Create abort controller for timeout
 	const controller = new AbortController();
-	const timeoutId = setTimeout(() => controller.abort(), finalConfig.timeout);
+	const timeoutId = setTimeout(() => controller.abort(), config.timeout);
+	const startedAt = performance.now();
 
+	let response: Response;
 	try {
-		const response = await fetch(finalConfig.endpoint, {
+		response = await fetch(config.endpoint, {
 			method: 'POST',
-			headers: {
-				'Content-Type': 'application/json'
-			},
-			body: JSON.stringify(request),
+			headers: buildHeaders(config),
+			body: JSON.stringify(payload),
 			signal: controller.signal
 		});
-
+	} catch (error) {
 		clearTimeout(timeoutId);
-
-		if (!response.ok) {
-			throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+		if (error instanceof Error && error.name === 'AbortError') {
+			throw new RPCTimeoutError(config.timeout, method);
 		}
+		throw new RPCTransportError(error, method);
+	}
 
-		const rpcResponse: RPCResponse<T> = await response.json();
+	// Time to response headers: the node has done its work by then
+	if (measureLatency) recordLatency(performance.now() - startedAt);
 
-		// Check for RPC error
-		if (rpcResponse.error) {
-			throw new Error(`RPC Error ${rpcResponse.error.code}: ${rpcResponse.error.message}`);
+	try {
+		if (!response.ok) {
+			throw httpError(response, method);
 		}
 
-		if (rpcResponse.result === null) {
-			throw new Error('RPC returned null result');
+		try {
+			return await response.json();
+		} catch (error) {
+			if (error instanceof Error && error.name === 'AbortError') {
+				throw new RPCTimeoutError(config.timeout, method);
+			}
+			throw new RPCMalformedResponseError('Node returned a response that is not valid JSON', method);
 		}
-
-		return rpcResponse.result;
-	} catch (error) {
+	} finally {
 		clearTimeout(timeoutId);
+	}
+}
 
-		if (error instanceof Error) {
-			if (error.name === 'AbortError') {
-				throw new Error(`RPC timeout after ${finalConfig.timeout}ms`);
-			}
-			throw error;
-		}
+/**
+ * Interpret a single JSON-RPC response envelope
+ *
+ * Results are checked against the method's schema (see schema.ts); a
+ * mismatch settles as an RPCSchemaError rather than handing callers a
+ * half-populated object.
+ *
+ * @returns The result, or the error describing why there is none
+ */
+function settleResponse<T>(rpcResponse: unknown, method: string): RPCBatchResult<T> {
+	if (typeof rpcResponse !== 'object' || rpcResponse === null) {
+		return {
+			ok: false,
+			error: new RPCMalformedResponseError(`Node returned a malformed response for ${method}`, method)
+		};
+	}
 
-		throw new Error('Unknown RPC error');
+	const { result, error } = rpcResponse as Partial<RPCResponse<T>>;
+
+	if (error) {
+		return {
+			ok: false,
+			error: new RPCMethodError(method, error.code, error.message, error.data)
+		};
 	}
+
+	// null is a valid result for void methods (stop, setban, ...); methods that
+	// return data have a schema, which rejects it below
+	if (result === undefined) {
+		return {
+			ok: false,
+			error: new RPCMalformedResponseError(`RPC returned no result for ${method}`, method)
+		};
+	}
+
+	const issues = validateResponse(method, result);
+	if (issues.length > 0) {
+		return { ok: false, error: new RPCSchemaError(method, issues, result) };
+	}
+
+	return { ok: true, result: result as T };
 }
 
 /**
- * Make a JSON-RPC 2.0 batch request
+ * Make a JSON-RPC 1.0 request
  *
- * Sends multiple RPC calls in a single HTTP request, reducing network overhead.
- * All requests execute in sequence and return an array of responses.
+ * @param method - RPC method name
+ * @param params - Method parameters (array)
+ * @param config - RPC configuration (optional)
+ * @returns Promise resolving to the result
+ * @throws RPCClientError subclass describing the failure (see errors.ts)
+ */
+export async function rpcCall<T>(
+	method: string,
+	params: unknown[] = [],
+	config: Partial<RPCConfig> = {}
+): Promise<T> {
+	const finalConfig = { ...DEFAULT_CONFIG, ...config };
+
+	// Build JSON-RPC 1.0 request
+	const request = {
+		method,
+		params,
+		id: requestId++
+	};
+
+	const rpcResponse = await postRPC(request, finalConfig, method);
+	const settled = settleResponse<T>(rpcResponse, method);
+
+	if (!settled.ok) {
+		throw settled.error;
+	}
+
+	return settled.result;
+}
+
+/**
+ * Make a JSON-RPC 2.0 batch request, settling each call independently
+ *
+ * Sends multiple RPC calls in a single HTTP request. Unlike rpcBatchCall,
+ * a failing sub-call doesn't discard the others: each entry in the returned
+ * array is either { ok: true, result } or { ok: false, error }.
+ *
+ * Whole-request failures (timeout, transport, HTTP, non-array body) still throw.
  *
  * @param calls - Array of {method, params} objects
  * @param config - RPC configuration (optional)
- * @returns Promise resolving to array of results in same order as calls
- * @throws Error if network fails or any RPC returns an error
+ * @param options - measureLatency: count the request towards getLatency()
+ * @returns Promise resolving to per-call results in the same order as calls
+ * @throws RPCClientError if the batch request as a whole fails
  */
-async function rpcBatchCall<T extends unknown[]>(
+export async function rpcBatchCallSettled<T extends unknown[]>(
 	calls: Array<{ method: string; params?: unknown[] }>,
-	config: Partial<RPCConfig> = {}
-): Promise<T> {
+	config: Partial<RPCConfig> = {},
+	options: { measureLatency?: boolean } = {}
+): Promise<RPCBatchResults<T>> {
 	const finalConfig = { ...DEFAULT_CONFIG, ...config };
 
 	// Build JSON-RPC 2.0 batch request
@@ -127,61 +352,50 @@ async function rpcBatchCall<T extends unknown[]>(
 
 	requestId += calls.length;
 
-	// Create abort controller for timeout
-	const controller = new AbortController();
-	const timeoutId = setTimeout(() => controller.abort(), finalConfig.timeout);
+	const batchResponse = await postRPC(batchRequest, finalConfig, null, options.measureLatency);
 
-	try {
-		const response = await fetch(finalConfig.endpoint, {
-			method: 'POST',
-			headers: {
-				'Content-Type': 'application/json'
-			},
-			body: JSON.stringify(batchRequest),
-			signal: controller.signal
-		});
-
-		clearTimeout(timeoutId);
-
-		if (!response.ok) {
-			throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-		}
-
-		const batchResponse: RPCResponse<unknown>[] = await response.json();
+	// Check that response is an array
+	if (!Array.isArray(batchResponse)) {
+		throw new RPCMalformedResponseError('Expected array response for batch request');
+	}
 
-		// Check that response is an array
-		if (!Array.isArray(batchResponse)) {
-			throw new Error('Expected array response for batch request');
+	// JSON-RPC 2.0 allows batch responses in any order - match them up by id
+	const responsesById = new Map<unknown, unknown>();
+	for (const rpcResponse of batchResponse) {
+		if (typeof rpcResponse === 'object' && rpcResponse !== null && 'id' in rpcResponse) {
+			responsesById.set(rpcResponse.id, rpcResponse);
 		}
+	}
 
-		// Check each response for errors
-		const results = batchResponse.map((rpcResponse, index) => {
-			if (rpcResponse.error) {
-				throw new Error(
-					`RPC Error in call ${index} (${calls[index].method}): ${rpcResponse.error.code} - ${rpcResponse.error.message}`
-				);
-			}
-
-			if (rpcResponse.result === null || rpcResponse.result === undefined) {
-				throw new Error(`RPC returned null result for ${calls[index].method}`);
-			}
-
-			return rpcResponse.result;
-		});
+	const results = batchRequest.map((request, index) => {
+		const rpcResponse = responsesById.get(request.id) ?? batchResponse[index];
+		return settleResponse(rpcResponse, request.method);
+	});
 
-		return results as T;
-	} catch (error) {
-		clearTimeout(timeoutId);
+	return results as RPCBatchResults<T>;
+}
 
-		if (error instanceof Error) {
-			if (error.name === 'AbortError') {
-				throw new Error(`RPC timeout after ${finalConfig.timeout}ms`);
-			}
-			throw error;
-		}
+/**
+ * Make a JSON-RPC 2.0 batch request
+ *
+ * Sends multiple RPC calls in a single HTTP request, reducing network overhead.
+ * All requests execute in sequence and return an array of responses.
+ *
+ * @param calls - Array of {method, params} objects
+ * @param config - RPC configuration (optional)
+ * @returns Promise resolving to array of results in same order as calls
+ * @throws RPCClientError if the request fails or any call returns an error
+ */
+export async function rpcBatchCall<T extends unknown[]>(
+	calls: Array<{ method: string; params?: unknown[] }>,
+	config: Partial<RPCConfig> = {}
+): Promise<T> {
+	const settled = await rpcBatchCallSettled<T>(calls, config);
 
-		throw new Error('Unknown RPC error');
-	}
+	return settled.map((entry) => {
+		if (!entry.ok) throw entry.error;
+		return entry.result;
+	}) as T;
 }
 
 /**
@@ -293,6 +507,251 @@ export async function getBlockchainInfo(config?: Partial<RPCConfig>): Promise<Bl
 	return rpcCall<BlockchainInfo>('getblockchaininfo', [], config);
 }
 
+/**
+ * Get the hash of the block at a height on the active chain
+ *
+ * @param height - Block height
+ * @param config - RPC configuration (optional)
+ * @returns Block hash (hex)
+ */
+export async function getBlockHash(height: number, config?: Partial<RPCConfig>): Promise<string> {
+	return rpcCall<string>('getblockhash', [height], config);
+}
+
+/**
+ * Get a block header
+ *
+ * @param hash - Block hash (hex)
+ * @param config - RPC configuration (optional)
+ * @returns Verbose block header
+ */
+export async function getBlockHeader(
+	hash: string,
+	config?: Partial<RPCConfig>
+): Promise<BlockHeader> {
+	return rpcCall<BlockHeader>('getblockheader', [hash, true], config);
+}
+
+/**
+ * Get a block with its transaction ids (verbosity 1)
+ *
+ * @param hash - Block hash (hex)
+ * @param config - RPC configuration (optional)
+ * @returns Block header fields, sizes and txids
+ */
+export async function getBlock(hash: string, config?: Partial<RPCConfig>): Promise<Block> {
+	return rpcCall<Block>('getblock', [hash, 1], config);
+}
+
+/**
+ * Get several block headers by height in two batch requests
+ *
+ * Like getBlocksBatch, without each block's txid list.
+ *
+ * @param heights - Block heights, in the order the headers should be returned
+ * @param config - RPC configuration (optional)
+ * @returns Headers in the same order as heights
+ * @throws RPCClientError if the request fails or any height is unavailable
+ */
+export async function getBlockHeadersBatch(
+	heights: number[],
+	config?: Partial<RPCConfig>
+): Promise<BlockHeader[]> {
+	if (heights.length === 0) return [];
+
+	const hashes = await rpcBatchCall<string[]>(
+		heights.map((height) => ({ method: 'getblockhash', params: [height] })),
+		config
+	);
+
+	return rpcBatchCall<BlockHeader[]>(
+		hashes.map((hash) => ({ method: 'getblockheader', params: [hash, true] })),
+		config
+	);
+}
+
+/**
+ * Get several blocks by height in two batch requests
+ *
+ * The first batch resolves heights to hashes (getblockhash), the second
+ * fetches the blocks (getblock).
+ *
+ * @param heights - Block heights, in the order the blocks should be returned
+ * @param config - RPC configuration (optional)
+ * @returns Blocks in the same order as heights
+ * @throws RPCClientError if the request fails or any height / block is unavailable
+ */
+export async function getBlocksBatch(
+	heights: number[],
+	config?: Partial<RPCConfig>
+): Promise<Block[]> {
+	if (heights.length === 0) return [];
+
+	const hashes = await rpcBatchCall<string[]>(
+		heights.map((height) => ({ method: 'getblockhash', params: [height] })),
+		config
+	);
+
+	return rpcBatchCall<Block[]>(
+		hashes.map((hash) => ({ method: 'getblock', params: [hash, 1] })),
+		config
+	);
+}
+
+/**
+ * Get a decoded transaction
+ *
+ * Without a transaction index the node only finds mempool transactions
+ * and those in a block you name, so pass blockhash when it's known.
+ *
+ * @param txid - Transaction id (hex)
+ * @param blockhash - Block containing the transaction (optional)
+ * @param config - RPC configuration (optional)
+ * @returns Decoded transaction
+ */
+export async function getRawTransaction(
+	txid: string,
+	blockhash?: string,
+	config?: Partial<RPCConfig>
+): Promise<RawTransaction> {
+	const params = blockhash ? [txid, true, blockhash] : [txid, true];
+	return rpcCall<RawTransaction>('getrawtransaction', params, config);
+}
+
+/**
+ * Get a decoded transaction with the outputs its inputs spend (verbosity 2)
+ *
+ * Nodes without undo data for the block (or predating verbosity 2) return
+ * the plain verbose form, so inputs may lack prevout and the fee may be absent.
+ *
+ * @param txid - Transaction id (hex)
+ * @param blockhash - Block containing the transaction (optional)
+ * @param config - RPC configuration (optional)
+ * @returns Decoded transaction, with prevouts when available
+ */
+export async function getRawTransactionWithPrevouts(
+	txid: string,
+	blockhash?: string,
+	config?: Partial<RPCConfig>
+): Promise<RawTransaction> {
+	const params = blockhash ? [txid, 2, blockhash] : [txid, 2];
+	return rpcCall<RawTransaction>('getrawtransaction', params, config);
+}
+
+/**
+ * Get several decoded transactions in a single batch request
+ *
+ * Without a transaction index, only mempool transactions resolve.
+ *
+ * @param txids - Transaction ids (hex)
+ * @param config - RPC configuration (optional)
+ * @returns Per-transaction results in the same order as txids
+ */
+export async function getTransactionsBatch(
+	txids: string[],
+	config?: Partial<RPCConfig>
+): Promise<RPCBatchResult<RawTransaction>[]> {
+	if (txids.length === 0) return [];
+
+	return rpcBatchCallSettled<RawTransaction[]>(
+		txids.map((txid) => ({ method: 'getrawtransaction', params: [txid, true] })),
+		config
+	);
+}
+
+/**
+ * Get several decoded transactions from one block in a single batch request
+ *
+ * @param txids - Transaction ids (hex)
+ * @param blockhash - Block containing the transactions
+ * @param config - RPC configuration (optional)
+ * @returns Per-transaction results in the same order as txids
+ */
+export async function getBlockTransactionsBatch(
+	txids: string[],
+	blockhash: string,
+	config?: Partial<RPCConfig>
+): Promise<RPCBatchResult<RawTransaction>[]> {
+	if (txids.length === 0) return [];
+
+	return rpcBatchCallSettled<RawTransaction[]>(
+		txids.map((txid) => ({ method: 'getrawtransaction', params: [txid, true, blockhash] })),
+		config
+	);
+}
+
+/**
+ * Check whether transactions would be accepted to the mempool, without sending them
+ *
+ * @param hexes - Serialized transactions (hex)
+ * @param maxFeeRate - Reject above this feerate in BTC/kvB (node default 0.10; 0 disables)
+ * @param config - RPC configuration (optional)
+ * @returns One verdict per transaction
+ */
+export async function testMempoolAccept(
+	hexes: string[],
+	maxFeeRate?: number,
+	config?: Partial<RPCConfig>
+): Promise<MempoolAcceptResult[]> {
+	const params = maxFeeRate === undefined ? [hexes] : [hexes, maxFeeRate];
+	return rpcCall<MempoolAcceptResult[]>('testmempoolaccept', params, config);
+}
+
+/**
+ * Submit a transaction to the node's mempool and relay it to peers
+ *
+ * @param hex - Serialized transaction (hex)
+ * @param maxFeeRate - Reject above this feerate in BTC/kvB (node default 0.10; 0 disables)
+ * @param config - RPC configuration (optional)
+ * @returns Transaction id
+ * @throws RPCMethodError if the node rejects the transaction
+ */
+export async function sendRawTransaction(
+	hex: string,
+	maxFeeRate?: number,
+	config?: Partial<RPCConfig>
+): Promise<string> {
+	const params = maxFeeRate === undefined ? [hex] : [hex, maxFeeRate];
+	return rpcCall<string>('sendrawtransaction', params, config);
+}
+
+/**
+ * Get the mempool entry for a transaction
+ *
+ * @param txid - Transaction id (hex)
+ * @param config - RPC configuration (optional)
+ * @returns Mempool entry
+ * @throws RPCMethodError (-5) if the transaction isn't in the mempool
+ */
+export async function getMempoolEntry(
+	txid: string,
+	config?: Partial<RPCConfig>
+): Promise<MempoolEntry> {
+	return rpcCall<MempoolEntry>('getmempoolentry', [txid], config);
+}
+
+/**
+ * Get a summary of the node's mempool
+ *
+ * @param config - RPC configuration (optional)
+ * @returns Transaction count, size, memory use and fee floors
+ */
+export async function getMempoolInfo(config?: Partial<RPCConfig>): Promise<MempoolInfo> {
+	return rpcCall<MempoolInfo>('getmempoolinfo', [], config);
+}
+
+/**
+ * Get every mempool entry (getrawmempool verbose)
+ *
+ * Large on a busy node - tens of megabytes with a full mempool.
+ *
+ * @param config - RPC configuration (optional)
+ * @returns Entries keyed by txid
+ */
+export async function getRawMempool(config?: Partial<RPCConfig>): Promise<RawMempool> {
+	return rpcCall<RawMempool>('getrawmempool', [true], config);
+}
+
 /**
  * Get sync status
  *
@@ -312,15 +771,21 @@ export async function getSyncStatus(config?: Partial<RPCConfig>): Promise<SyncSt
  * Efficient method to fetch blockchain info, observer stats, and sync status
  * in one HTTP call. This reduces network overhead from 3 HTTP requests to 1.
  *
+ * getsyncstatus is optional: older node builds don't implement it, so a
+ * failure there yields syncStatus: null (with the reason in syncStatusError)
+ * instead of discarding the chain info that did come back.
+ *
  * @param config - RPC configuration (optional)
  * @returns Object containing chainInfo, observerStats, and syncStatus
+ * @throws RPCClientError if the request fails or chain info / stats are unavailable
  */
 export async function getSyncDataBatch(config?: Partial<RPCConfig>): Promise<{
 	chainInfo: BlockchainInfo;
 	observerStats: ObserverStats;
-	syncStatus: SyncStatus;
+	syncStatus: SyncStatus | null;
+	syncStatusError: RPCMethodError | RPCMalformedResponseError | null;
 }> {
-	const [chainInfo, observerStats, syncStatus] = await rpcBatchCall<
+	const [chainInfo, observerStats, syncStatus] = await rpcBatchCallSettled<
 		[BlockchainInfo, ObserverStats, SyncStatus]
 	>(
 		[
@@ -331,7 +796,90 @@ export async function getSyncDataBatch(config?: Partial<RPCConfig>): Promise<{
 		config
 	);
 
-	return { chainInfo, observerStats, syncStatus };
+	if (!chainInfo.ok) throw chainInfo.error;
+	if (!observerStats.ok) throw observerStats.error;
+
+	return {
+		chainInfo: chainInfo.result,
+		observerStats: observerStats.result,
+		syncStatus: syncStatus.ok ? syncStatus.result : null,
+		syncStatusError: syncStatus.ok ? null : syncStatus.error
+	};
+}
+
+/**
+ * Get network information
+ *
+ * Used to identify the node build (subversion) when its responses don't
+ * match what this GUI expects.
+ *
+ * @param config - RPC configuration (optional)
+ * @returns Network information
+ */
+export async function getNetworkInfo(config?: Partial<RPCConfig>): Promise<NetworkInfo> {
+	return rpcCall<NetworkInfo>('getnetworkinfo', [], config);
+}
+
+/**
+ * Get every connected peer
+ *
+ * @param config - RPC configuration (optional)
+ * @returns One entry per peer
+ */
+export async function getPeerInfo(config?: Partial<RPCConfig>): Promise<PeerInfo[]> {
+	return rpcCall<PeerInfo[]>('getpeerinfo', [], config);
+}
+
+/**
+ * Disconnect a peer
+ *
+ * @param nodeId - Peer id from getpeerinfo
+ * @param config - RPC configuration (optional)
+ * @throws RPCMethodError (-29) if the peer is no longer connected
+ */
+export async function disconnectNode(nodeId: number, config?: Partial<RPCConfig>): Promise<void> {
+	// An empty address selects by node id
+	await rpcCall<null>('disconnectnode', ['', nodeId], config);
+}
+
+/**
+ * Ban an address or subnet, disconnecting any peers it covers
+ *
+ * Only IP addresses can be banned; Tor and I2P peers can only be disconnected.
+ *
+ * @param subnet - IP address or subnet (e.g. "203.0.113.5" or "203.0.113.0/24")
+ * @param banTime - Seconds (node default 24h when omitted)
+ * @param config - RPC configuration (optional)
+ * @throws RPCMethodError (-23) if already banned, (-30) if not an IP/subnet
+ */
+export async function banSubnet(
+	subnet: string,
+	banTime?: number,
+	config?: Partial<RPCConfig>
+): Promise<void> {
+	const params = banTime === undefined ? [subnet, 'add'] : [subnet, 'add', banTime];
+	await rpcCall<null>('setban', params, config);
+}
+
+/**
+ * Lift a ban
+ *
+ * @param subnet - Subnet as listbanned reports it
+ * @param config - RPC configuration (optional)
+ * @throws RPCMethodError (-30) if it wasn't banned
+ */
+export async function unbanSubnet(subnet: string, config?: Partial<RPCConfig>): Promise<void> {
+	await rpcCall<null>('setban', [subnet, 'remove'], config);
+}
+
+/**
+ * Get every banned address and subnet
+ *
+ * @param config - RPC configuration (optional)
+ * @returns One entry per ban
+ */
+export async function listBanned(config?: Partial<RPCConfig>): Promise<BannedSubnet[]> {
+	return rpcCall<BannedSubnet[]>('listbanned', [], config);
 }
 
 /**
@@ -0,0 +1,152 @@
+/**
+ * Bitcoin Echo GUI — RPC Error Types
+ *
+ * Typed error hierarchy for the RPC client. Every failure raised by
+ * client.ts is an RPCClientError subclass, so callers can branch with
+ * `instanceof` instead of matching on message strings.
+ *
+ *   RPCClientError
+ *   ├── RPCTimeoutError            request exceeded config.timeout
+ *   ├── RPCTransportError          fetch failed (node down, DNS, CORS)
+ *   ├── RPCHttpError               non-2xx HTTP status
+ *   │   └── RPCAuthError           401/403 — credentials rejected
+ *   ├── RPCMethodError             node returned a JSON-RPC error object
+ *   └── RPCMalformedResponseError  response body isn't valid JSON-RPC
+ *       └── RPCSchemaError         result doesn't match the expected type
+ */
+
+/**
+ * Base class for all RPC client errors
+ */
+export class RPCClientError extends Error {
+	/** RPC method that failed (null for whole-request failures like batches) */
+	readonly method: string | null;
+
+	constructor(message: string, method: string | null = null) {
+		super(message);
+		this.name = 'RPCClientError';
+		this.method = method;
+	}
+}
+
+/**
+ * Request aborted after exceeding the configured timeout
+ */
+export class RPCTimeoutError extends RPCClientError {
+	readonly timeout: number;
+
+	constructor(timeout: number, method: string | null = null) {
+		super(`RPC timeout after ${timeout}ms`, method);
+		this.name = 'RPCTimeoutError';
+		this.timeout = timeout;
+	}
+}
+
+/**
+ * Network-level failure before any HTTP response arrived
+ *
+ * Browsers report connection refused, DNS failures and CORS rejections
+ * identically (a TypeError from fetch), so they share one class.
+ */
+export class RPCTransportError extends RPCClientError {
+	readonly cause: unknown;
+
+	constructor(cause: unknown, method: string | null = null) {
+		const detail = cause instanceof Error ? cause.message : 'Network request failed';
+		super(`Could not reach node: ${detail}`, method);
+		this.name = 'RPCTransportError';
+		this.cause = cause;
+	}
+}
+
+/**
+ * Node answered with a non-2xx HTTP status
+ */
+export class RPCHttpError extends RPCClientError {
+	readonly status: number;
+	readonly statusText: string;
+
+	constructor(status: number, statusText: string, method: string | null = null, message?: string) {
+		super(message ?? `HTTP ${status}: ${statusText}`, method);
+		this.name = 'RPCHttpError';
+		this.status = status;
+		this.statusText = statusText;
+	}
+}
+
+/**
+ * Node rejected our credentials (HTTP 401/403)
+ *
+ * Kept distinct from other HTTP failures so the connection store can
+ * surface an "authentication required" state instead of a generic error.
+ */
+export class RPCAuthError extends RPCHttpError {
+	constructor(status: number, statusText: string, method: string | null = null) {
+		super(
+			status,
+			statusText,
+			method,
+			status === 401
+				? `Authentication failed (HTTP 401: ${statusText || 'Unauthorized'})`
+				: `Access denied (HTTP 403: ${statusText || 'Forbidden'})`
+		);
+		this.name = 'RPCAuthError';
+	}
+}
+
+/**
+ * Node executed the call and returned a JSON-RPC error object
+ */
+export class RPCMethodError extends RPCClientError {
+	/** JSON-RPC error code (RPCError.code), e.g. -32601 method not found */
+	readonly code: number;
+	readonly data: unknown;
+
+	constructor(method: string, code: number, message: string, data?: unknown) {
+		super(`RPC Error ${code} in ${method}: ${message}`, method);
+		this.name = 'RPCMethodError';
+		this.code = code;
+		this.data = data;
+	}
+
+	/**
+	 * True when the node doesn't implement this method (older node builds)
+	 */
+	get isMethodNotFound(): boolean {
+		return this.code === RPC_METHOD_NOT_FOUND;
+	}
+}
+
+/**
+ * Response body couldn't be interpreted as a JSON-RPC response
+ */
+export class RPCMalformedResponseError extends RPCClientError {
+	constructor(message: string, method: string | null = null) {
+		super(message, method);
+		this.name = 'RPCMalformedResponseError';
+	}
+}
+
+/**
+ * Result arrived but doesn't match the shape declared in types.ts
+ *
+ * Usually means the node build is newer or older than this GUI expects.
+ */
+export class RPCSchemaError extends RPCMalformedResponseError {
+	/** Individual problems, e.g. "missing eta_seconds" */
+	readonly issues: string[];
+	/** The result as returned (e.g. for the Console, which shows it regardless) */
+	readonly result: unknown;
+
+	constructor(method: string, issues: string[], result?: unknown) {
+		super(`Node returned unexpected shape for ${method}: ${issues.join('; ')}`, method);
+		this.name = 'RPCSchemaError';
+		this.issues = issues;
+		this.result = result;
+	}
+}
+
+/**
+ * Standard JSON-RPC error code for an unknown method
+ */
+export const RPC_METHOD_NOT_FOUND = -32601;
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import {
+	array,
+	hex,
+	literal,
+	number,
+	object,
+	optional,
+	partial,
+	record,
+	string,
+	syncStatusDelta,
+	validateResponse
+} from './schema';
+
+const HASH = '00'.repeat(32);
+
+describe('primitives', () => {
+	it('rejects NaN and infinities as numbers', () => {
+		expect(number(1.5, 'fee')).toEqual([]);
+		expect(number(NaN, 'fee')).toEqual(['fee should be a number (got NaN)']);
+		expect(number(Infinity, 'fee')).toEqual(['fee should be a number (got number)']);
+		expect(number('1', 'fee')).toEqual(['fee should be a number (got string)']);
+	});
+
+	it('names the whole result when there is no path', () => {
+		expect(string(null, '')).toEqual(['result should be a string (got null)']);
+	});
+
+	it('checks hex characters and length', () => {
+		expect(hex(64)(HASH, 'hash')).toEqual([]);
+		expect(hex()('zz', 'hash')).toEqual(['hash should be a hex string (got string)']);
+		expect(hex(64)('abcd', 'hash')).toEqual(['hash should be 64 hex characters (got 4)']);
+	});
+
+	it('accepts only the listed literals', () => {
+		expect(literal('observer', 'full')('full', 'mode')).toEqual([]);
+		expect(literal('observer', 'full')('pruned', 'mode')).toEqual([
+			'mode should be one of "observer", "full" (got "pruned")'
+		]);
+	});
+});
+
+describe('combinators', () => {
+	const shape = object({ height: number, hash: hex(64), chainwork: optional(hex()) });
+
+	it('reports missing fields with their dotted path', () => {
+		expect(object({ tip: shape })({ tip: { height: 1 } }, '')).toEqual(['missing tip.hash']);
+	});
+
+	it('lets optional fields be absent or null, but checks them when present', () => {
+		expect(shape({ height: 1, hash: HASH }, '')).toEqual([]);
+		expect(shape({ height: 1, hash: HASH, chainwork: null }, '')).toEqual([]);
+		expect(shape({ height: 1, hash: HASH, chainwork: 5 }, '')).toEqual([
+			'chainwork should be a hex string (got number)'
+		]);
+	});
+
+	it('allows fields it does not know about', () => {
+		expect(shape({ height: 1, hash: HASH, newer_field: true }, '')).toEqual([]);
+	});
+
+	it('indexes array elements and keys record entries', () => {
+		expect(array(number)([1, 'two', 3], 'sizes')).toEqual(['sizes[1] should be a number (got string)']);
+		expect(record(object({ vsize: number }))({ [HASH]: {} }, '')).toEqual([`missing ${HASH}.vsize`]);
+	});
+
+	it('rejects arrays where objects are expected', () => {
+		expect(shape([], '')).toEqual(['result should be an object (got array)']);
+		expect(record(number)([], 'entries')).toEqual(['entries should be an object (got array)']);
+	});
+
+	it('makes every field optional in a partial', () => {
+		expect(partial({ height: number, hash: hex(64) })({ height: 2 }, '')).toEqual([]);
+		expect(syncStatusDelta({}, '')).toEqual([]);
+	});
+});
+
+describe('validateResponse', () => {
+	const stats = {
+		mode: 'observer',
+		uptime_seconds: 60,
+		peer_count: 8,
+		start_height: 0,
+		messages_received: {
+			version: 8,
+			verack: 8,
+			ping: 3,
+			pong: 3,
+			addr: 1,
+			inv: 40,
+			getdata: 0,
+			block: 0,
+			tx: 12,
+			headers: 2,
+			getblocks: 0,
+			getheaders: 1,
+			other: 0
+		}
+	};
+
+	it('accepts a well-formed result', () => {
+		expect(validateResponse('getobserverstats', stats)).toEqual([]);
+		const blocks = [{ hash: HASH, first_seen: 1, peer_count: 3 }];
+		expect(validateResponse('getobservedblocks', { blocks })).toEqual([]);
+	});
+
+	it('names every mismatch in a result', () => {
+		const broken: Record<string, unknown> = { ...stats, uptime_seconds: '60' };
+		delete broken.peer_count;
+		expect(validateResponse('getobserverstats', broken)).toEqual([
+			'uptime_seconds should be a number (got string)',
+			'missing peer_count'
+		]);
+	});
+
+	it('checks plain-value results', () => {
+		expect(validateResponse('getblockhash', HASH)).toEqual([]);
+		expect(validateResponse('getblockhash', null)).toEqual(['result should be a hex string (got null)']);
+	});
+
+	it('passes methods without a schema through', () => {
+		expect(validateResponse('uptime', 'anything')).toEqual([]);
+	});
+});
@@ -0,0 +1,411 @@
+/**
+ * Bitcoin Echo GUI — RPC Response Schemas
+ *
+ * Runtime counterparts of the interfaces in types.ts. The client checks
+ * every result against the schema for its method, so a node build that
+ * renames or retypes a field fails loudly ("missing eta_seconds") instead
+ * of leaking NaN and undefined into the views.
+ *
+ * Schemas are deliberately lenient about extra fields: newer nodes may
+ * return more than the GUI knows about, which is not a compatibility issue.
+ */
+
+/**
+ * A schema checks a value and returns human-readable issues (empty = valid)
+ *
+ * @param value - Value to check
+ * @param path - Dotted path of the value within the response, for messages
+ */
+export type Schema = (value: unknown, path: string) => string[];
+
+/**
+ * Describe a value's runtime type for error messages
+ */
+function describe(value: unknown): string {
+	if (value === null) return 'null';
+	if (Array.isArray(value)) return 'array';
+	if (typeof value === 'number' && Number.isNaN(value)) return 'NaN';
+	return typeof value;
+}
+
+function mismatch(path: string, expected: string, value: unknown): string[] {
+	return [`${path || 'result'} should be ${expected} (got ${describe(value)})`];
+}
+
+/*
+ * Primitives
+ */
+
+export const number: Schema = (value, path) =>
+	typeof value === 'number' && Number.isFinite(value) ? [] : mismatch(path, 'a number', value);
+
+export const string: Schema = (value, path) =>
+	typeof value === 'string' ? [] : mismatch(path, 'a string', value);
+
+export const boolean: Schema = (value, path) =>
+	typeof value === 'boolean' ? [] : mismatch(path, 'a boolean', value);
+
+/**
+ * Hex string, optionally of an exact length (e.g. 64 for hashes)
+ */
+export function hex(length?: number): Schema {
+	return (value, path) => {
+		if (typeof value !== 'string' || !/^[0-9a-fA-F]*$/.test(value)) {
+			return mismatch(path, 'a hex string', value);
+		}
+		if (length !== undefined && value.length !== length) {
+			return [`${path} should be ${length} hex characters (got ${value.length})`];
+		}
+		return [];
+	};
+}
+
+/**
+ * One of a fixed set of values
+ */
+export function literal(...values: Array<string | number | boolean>): Schema {
+	const expected = values.map((v) => JSON.stringify(v)).join(', ');
+	return (value, path) =>
+		values.includes(value as string | number | boolean)
+			? []
+			: [`${path} should be one of ${expected} (got ${JSON.stringify(value)})`];
+}
+
+/*
+ * Combinators
+ */
+
+/**
+ * Schemas created by optional(), so object() can tell a missing optional field apart
+ */
+const optionalSchemas = new WeakSet<Schema>();
+
+/**
+ * Field that may be absent (or null)
+ */
+export function optional(schema: Schema): Schema {
+	const check: Schema = (value, path) =>
+		value === undefined || value === null ? [] : schema(value, path);
+	optionalSchemas.add(check);
+	return check;
+}
+
+/**
+ * Array whose every element matches a schema
+ */
+export function array(item: Schema): Schema {
+	return (value, path) => {
+		if (!Array.isArray(value)) return mismatch(path, 'an array', value);
+		return value.flatMap((element, index) => item(element, `${path}[${index}]`));
+	};
+}
+
+/**
+ * Object with known fields (extra fields are allowed)
+ */
+export function object(shape: Record<string, Schema>): Schema {
+	return (value, path) => {
+		if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+			return mismatch(path, 'an object', value);
+		}
+
+		const record = value as Record<string, unknown>;
+		return Object.entries(shape).flatMap(([key, schema]) => {
+			const fieldPath = path ? `${path}.${key}` : key;
+			if (!(key in record) && !optionalSchemas.has(schema)) {
+				return [`missing ${fieldPath}`];
+			}
+			return schema(record[key], fieldPath);
+		});
+	};
+}
+
+/**
+ * Object keyed by arbitrary strings (e.g. txids) whose every value matches a schema
+ */
+export function record(item: Schema): Schema {
+	return (value, path) => {
+		if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+			return mismatch(path, 'an object', value);
+		}
+		return Object.entries(value).flatMap(([key, element]) =>
+			item(element, path ? `${path}.${key}` : key)
+		);
+	};
+}
+
+/**
+ * Object whose fields are all optional (pushed deltas carry changed fields only)
+ */
+export function partial(shape: Record<string, Schema>): Schema {
+	const fields = Object.entries(shape).map(([key, schema]) => [key, optional(schema)]);
+	return object(Object.fromEntries(fields));
+}
+
+/*
+ * Response shapes (mirror types.ts)
+ */
+
+const observerStatsShape = {
+	mode: literal('observer', 'full'),
+	uptime_seconds: number,
+	peer_count: number,
+	start_height: number,
+	messages_received: object({
+		version: number,
+		verack: number,
+		ping: number,
+		pong: number,
+		addr: number,
+		inv: number,
+		getdata: number,
+		block: number,
+		tx: number,
+		headers: number,
+		getblocks: number,
+		getheaders: number,
+		other: number
+	})
+};
+
+export const observedBlock = object({
+	hash: hex(64),
+	first_seen: number,
+	peer_count: number
+});
+
+export const observedTx = object({
+	txid: hex(64),
+	first_seen: number
+});
+
+const blockchainInfoShape = {
+	chain: string,
+	blocks: number,
+	headers: number,
+	bestblockhash: hex(64),
+	difficulty: number,
+	mediantime: number,
+	verificationprogress: number,
+	initialblockdownload: boolean,
+	chainwork: hex(),
+	size_on_disk: number,
+	pruned: boolean,
+	pruneheight: optional(number),
+	prune_target_size: optional(number)
+};
+
+const blockHeaderShape = {
+	hash: hex(64),
+	confirmations: number,
+	height: number,
+	version: number,
+	versionHex: hex(),
+	merkleroot: hex(64),
+	time: number,
+	mediantime: number,
+	nonce: number,
+	bits: hex(),
+	difficulty: number,
+	chainwork: hex(),
+	nTx: number,
+	previousblockhash: optional(hex(64)),
+	nextblockhash: optional(hex(64))
+};
+
+const blockShape = {
+	...blockHeaderShape,
+	size: number,
+	strippedsize: number,
+	weight: number,
+	tx: array(hex(64))
+};
+
+const scriptSigShape = {
+	asm: string,
+	hex: hex()
+};
+
+const scriptPubKeyShape = {
+	...scriptSigShape,
+	type: string,
+	address: optional(string),
+	desc: optional(string)
+};
+
+const rawTransactionShape = {
+	txid: hex(64),
+	hash: hex(64),
+	version: number,
+	size: number,
+	vsize: number,
+	weight: number,
+	locktime: number,
+	vin: array(
+		object({
+			coinbase: optional(hex()),
+			txid: optional(hex(64)),
+			vout: optional(number),
+			scriptSig: optional(object(scriptSigShape)),
+			txinwitness: optional(array(hex())),
+			prevout: optional(
+				object({
+					generated: boolean,
+					height: number,
+					value: number,
+					scriptPubKey: object(scriptPubKeyShape)
+				})
+			),
+			sequence: number
+		})
+	),
+	vout: array(
+		object({
+			value: number,
+			n: number,
+			scriptPubKey: object(scriptPubKeyShape)
+		})
+	),
+	hex: hex(),
+	fee: optional(number),
+	blockhash: optional(hex(64)),
+	confirmations: optional(number),
+	time: optional(number),
+	blocktime: optional(number)
+};
+
+const mempoolAcceptShape = {
+	txid: hex(64),
+	wtxid: hex(64),
+	allowed: optional(boolean),
+	vsize: optional(number),
+	fees: optional(object({ base: number })),
+	'reject-reason': optional(string),
+	'package-error': optional(string)
+};
+
+const mempoolEntryShape = {
+	vsize: number,
+	weight: number,
+	time: number,
+	height: number,
+	descendantcount: number,
+	descendantsize: number,
+	ancestorcount: number,
+	ancestorsize: number,
+	wtxid: hex(64),
+	fees: object({ base: number, modified: number, ancestor: number, descendant: number }),
+	depends: array(hex(64)),
+	spentby: array(hex(64)),
+	'bip125-replaceable': optional(boolean),
+	unbroadcast: optional(boolean)
+};
+
+const mempoolInfoShape = {
+	loaded: boolean,
+	size: number,
+	bytes: number,
+	usage: number,
+	total_fee: optional(number),
+	maxmempool: number,
+	mempoolminfee: number,
+	minrelaytxfee: number,
+	incrementalrelayfee: optional(number),
+	unbroadcastcount: optional(number),
+	fullrbf: optional(boolean)
+};
+
+const syncStatusShape = {
+	mode: string,
+	blocks_validated: number,
+	best_header_height: number,
+	tip_height: number,
+	blocks_pending: number,
+	blocks_in_flight: number,
+	sync_percentage: number,
+	blocks_per_second: number,
+	eta_seconds: number,
+	network_median_latency_ms: number,
+	active_sync_peers: number,
+	total_peers: number,
+	initialblockdownload: boolean
+};
+
+/**
+ * Pushed sync status deltas (only changed fields are present)
+ */
+export const syncStatusDelta = partial(syncStatusShape);
+
+const networkInfoShape = {
+	version: number,
+	subversion: string,
+	protocolversion: number
+};
+
+const peerInfoShape = {
+	id: number,
+	addr: string,
+	network: string,
+	services: string,
+	servicesnames: optional(array(string)),
+	relaytxes: optional(boolean),
+	lastsend: number,
+	lastrecv: number,
+	last_block: optional(number),
+	bytessent: number,
+	bytesrecv: number,
+	conntime: number,
+	pingtime: optional(number),
+	minping: optional(number),
+	version: number,
+	subver: string,
+	inbound: boolean,
+	connection_type: optional(string),
+	startingheight: number,
+	synced_headers: number,
+	synced_blocks: number,
+	inflight: optional(array(number))
+};
+
+const bannedSubnetShape = {
+	address: string,
+	ban_created: number,
+	banned_until: number,
+	ban_duration: optional(number),
+	time_remaining: optional(number)
+};
+
+/**
+ * Schema for each RPC method's result
+ *
+ * Methods without an entry are passed through unchecked.
+ */
+export const RESPONSE_SCHEMAS: Record<string, Schema> = {
+	getobserverstats: object(observerStatsShape),
+	getobservedblocks: object({ blocks: array(observedBlock) }),
+	getobservedtxs: object({ transactions: array(observedTx) }),
+	getblockchaininfo: object(blockchainInfoShape),
+	getsyncstatus: object(syncStatusShape),
+	getblockhash: hex(64),
+	getblockheader: object(blockHeaderShape),
+	getblock: object(blockShape),
+	getrawtransaction: object(rawTransactionShape),
+	testmempoolaccept: array(object(mempoolAcceptShape)),
+	sendrawtransaction: hex(64),
+	getmempoolentry: object(mempoolEntryShape),
+	getmempoolinfo: object(mempoolInfoShape),
+	getrawmempool: record(object(mempoolEntryShape)),
+	getnetworkinfo: object(networkInfoShape),
+	getpeerinfo: array(object(peerInfoShape)),
+	listbanned: array(object(bannedSubnetShape))
+};
+
+/**
+ * Validate an RPC result against its method's schema
+ *
+ * @returns Issues found (empty when valid or when the method has no schema)
+ */
+export function validateResponse(method: string, result: unknown): string[] {
+	const schema = RESPONSE_SCHEMAS[method];
+	return schema ? schema(result, '') : [];
+}
@@ -0,0 +1,190 @@
+/**
+ * Bitcoin Echo GUI — Event Subscriptions
+ *
+ * Push-based transport for live updates. The node (or the local stand-in,
+ * `npm run dev:events`) streams JSON text frames over a WebSocket:
+ *
+ *   { "event": "block",      "data": ObservedBlock }
+ *   { "event": "tx",         "data": ObservedTx }
+ *   { "event": "syncstatus", "data": Partial<SyncStatus> }  // changed fields only
+ *
+ * After connecting, the client sends { "subscribe": [...event names] }.
+ *
+ * This module only owns the socket. The scheduler store decides what to do
+ * with events and falls back to plain polling whenever the socket is down.
+ */
+
+import type { ObservedBlock, ObservedTx, RPCConfig, SyncStatus } from './types';
+import { observedBlock, observedTx, syncStatusDelta } from './schema';
+
+/**
+ * Event pushed by the node
+ */
+export type NodeEvent =
+	| { type: 'block'; block: ObservedBlock }
+	| { type: 'tx'; tx: ObservedTx }
+	| { type: 'syncstatus'; delta: Partial<SyncStatus> };
+
+/**
+ * Event stream names understood by the node
+ */
+export type NodeEventName = NodeEvent['type'];
+
+/**
+ * Socket lifecycle as seen by consumers
+ *
+ * - connecting: Socket opening (or waiting to retry)
+ * - open: Events are flowing
+ * - unavailable: Node has no event stream (or it dropped) - poll instead
+ */
+export type SubscriptionStatus = 'connecting' | 'open' | 'unavailable';
+
+/**
+ * Callbacks for a subscription
+ */
+export interface SubscriptionHandlers {
+	onEvent: (event: NodeEvent) => void;
+	onStatus: (status: SubscriptionStatus) => void;
+}
+
+/**
+ * Path of the event stream on the node's RPC port
+ */
+const EVENTS_PATH = '/events';
+
+/**
+ * Reconnect backoff bounds (milliseconds)
+ */
+const RECONNECT_MIN_DELAY = 5000;
+const RECONNECT_MAX_DELAY = 60000;
+
+/**
+ * Resolve the WebSocket URL for a config
+ *
+ * Uses config.eventsEndpoint when set, otherwise the RPC endpoint with its
+ * scheme swapped to ws(s):// and the path set to /events.
+ *
+ * @returns WebSocket URL, or null if the endpoint can't be parsed
+ */
+export function eventsEndpoint(config: RPCConfig): string | null {
+	if (config.eventsEndpoint) return config.eventsEndpoint;
+
+	try {
+		const url = new URL(config.endpoint);
+		url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+		url.pathname = EVENTS_PATH;
+		url.search = '';
+		return url.toString();
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Parse one text frame into a NodeEvent
+ *
+ * Payloads are checked against the same schemas as polled responses.
+ *
+ * @returns The event, or null for unknown / malformed frames
+ */
+function parseEvent(raw: string): NodeEvent | null {
+	let message: unknown;
+	try {
+		message = JSON.parse(raw);
+	} catch {
+		return null;
+	}
+
+	if (typeof message !== 'object' || message === null) return null;
+	const { event, data } = message as { event?: unknown; data?: unknown };
+
+	switch (event) {
+		case 'block':
+			if (observedBlock(data, 'block').length > 0) return null;
+			return { type: 'block', block: data as ObservedBlock };
+		case 'tx':
+			if (observedTx(data, 'tx').length > 0) return null;
+			return { type: 'tx', tx: data as ObservedTx };
+		case 'syncstatus':
+			if (syncStatusDelta(data, 'syncstatus').length > 0) return null;
+			return { type: 'syncstatus', delta: data as Partial<SyncStatus> };
+		default:
+			return null;
+	}
+}
+
+/**
+ * Open a subscription to the node's event stream
+ *
+ * Reconnects with exponential backoff while reporting 'unavailable', so
+ * callers can poll in the meantime.
+ *
+ * @param config - RPC configuration (the events URL is derived from it)
+ * @param events - Event streams to subscribe to
+ * @param handlers - Event and status callbacks
+ * @returns Close function; stops the socket and any pending reconnect
+ */
+export function openSubscription(
+	config: RPCConfig,
+	events: NodeEventName[],
+	handlers: SubscriptionHandlers
+): () => void {
+	const url = eventsEndpoint(config);
+	if (!url || typeof WebSocket === 'undefined') {
+		handlers.onStatus('unavailable');
+		return () => {};
+	}
+
+	let socket: WebSocket | null = null;
+	let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+	let reconnectDelay = RECONNECT_MIN_DELAY;
+	let closed = false;
+
+	const connect = () => {
+		reconnectTimer = null;
+		handlers.onStatus('connecting');
+
+		try {
+			socket = new WebSocket(url);
+		} catch {
+			scheduleReconnect();
+			return;
+		}
+
+		socket.onopen = () => {
+			reconnectDelay = RECONNECT_MIN_DELAY;
+			socket?.send(JSON.stringify({ subscribe: events }));
+			handlers.onStatus('open');
+		};
+
+		socket.onmessage = (message) => {
+			if (typeof message.data !== 'string') return;
+			const event = parseEvent(message.data);
+			if (event) handlers.onEvent(event);
+		};
+
+		// onerror is always followed by onclose - handle both there
+		socket.onclose = () => {
+			socket = null;
+			if (!closed) scheduleReconnect();
+		};
+	};
+
+	const scheduleReconnect = () => {
+		handlers.onStatus('unavailable');
+		reconnectTimer = setTimeout(connect, reconnectDelay);
+		reconnectDelay = Math.min(reconnectDelay * 2, RECONNECT_MAX_DELAY);
+	};
+
+	connect();
+
+	return () => {
+		closed = true;
+		if (reconnectTimer) clearTimeout(reconnectTimer);
+		if (socket) {
+			socket.onclose = null;
+			socket.close();
+			socket = null;
+		}
+	};
+}
@@ -90,7 +90,24 @@ export interface ObservedTxsResponse {
 /**
  * Connection status
  */
-export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
+export type ConnectionStatus =
+	| 'disconnected'
+	| 'connecting'
+	| 'connected'
+	| 'unauthorized' // Node rejected our credentials (HTTP 401/403)
+	| 'error';
+
+/**
+ * RPC authentication credentials
+ *
+ * - none: No Authorization header (node running without RPC auth)
+ * - basic: rpcuser / rpcpassword pair
+ * - cookie: Contents of the node's .cookie file ("__cookie__:<token>")
+ */
+export type RPCAuth =
+	| { type: 'none' }
+	| { type: 'basic'; username: string; password: string }
+	| { type: 'cookie'; cookie: string };
 
 /**
  * RPC client configuration
@@ -98,6 +115,8 @@ export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'er
 export interface RPCConfig {
 	endpoint: string; // RPC endpoint URL (e.g., "http://localhost:8332")
 	timeout: number; // Request timeout in milliseconds
+	auth?: RPCAuth; // Credentials sent as HTTP Basic auth (never persisted to localStorage)
+	eventsEndpoint?: string; // WebSocket event stream URL (defaults to ws://<endpoint host>/events)
 }
 
 /**
@@ -121,6 +140,185 @@ export interface BlockchainInfo {
 	prune_target_size?: number; // Prune target in bytes (if pruned)
 }
 
+/**
+ * Block header response (verbose)
+ *
+ * Returned by: getblockheader
+ */
+export interface BlockHeader {
+	hash: string; // Block hash (hex)
+	confirmations: number; // -1 if not on the active chain
+	height: number; // Block height
+	version: number; // Block version
+	versionHex: string; // Block version (hex)
+	merkleroot: string; // Merkle root (hex)
+	time: number; // Block timestamp (seconds since epoch)
+	mediantime: number; // Median time past
+	nonce: number; // Nonce
+	bits: string; // Compact difficulty target (hex)
+	difficulty: number; // Difficulty
+	chainwork: string; // Cumulative chain work (hex)
+	nTx: number; // Number of transactions
+	previousblockhash?: string; // Absent for the genesis block
+	nextblockhash?: string; // Absent for the tip
+}
+
+/**
+ * Block response (verbosity 1)
+ *
+ * Returned by: getblock
+ */
+export interface Block extends BlockHeader {
+	size: number; // Serialized size in bytes (with witness data)
+	strippedsize: number; // Size in bytes without witness data
+	weight: number; // Block weight (BIP141)
+	tx: string[]; // Transaction ids, coinbase first
+}
+
+/**
+ * Script as returned in verbose transactions
+ */
+export interface ScriptSig {
+	asm: string; // Disassembly
+	hex: string; // Raw script (hex)
+}
+
+/**
+ * Output script as returned in verbose transactions
+ */
+export interface ScriptPubKey extends ScriptSig {
+	type: string; // e.g. "pubkeyhash", "witness_v0_keyhash", "witness_v1_taproot", "nulldata"
+	address?: string; // Present for standard address types
+	desc?: string; // Output descriptor
+}
+
+/**
+ * Output spent by a transaction input
+ *
+ * Returned by: getrawtransaction (verbosity 2)
+ */
+export interface TxPrevout {
+	generated: boolean; // Spent output was created by a coinbase
+	height: number; // Height of the block that created it
+	value: number; // Amount in BTC
+	scriptPubKey: ScriptPubKey;
+}
+
+/**
+ * Transaction input (verbose)
+ */
+export interface TxInput {
+	coinbase?: string; // Coinbase scriptSig (hex) - coinbase inputs only
+	txid?: string; // Spent transaction (absent for coinbase)
+	vout?: number; // Spent output index (absent for coinbase)
+	scriptSig?: ScriptSig;
+	txinwitness?: string[]; // Witness stack items (hex)
+	prevout?: TxPrevout; // Spent output - verbosity 2 only
+	sequence: number; // nSequence
+}
+
+/**
+ * Transaction output (verbose)
+ */
+export interface TxOutput {
+	value: number; // Amount in BTC
+	n: number; // Output index
+	scriptPubKey: ScriptPubKey;
+}
+
+/**
+ * Decoded transaction
+ *
+ * Returned by: getrawtransaction (verbose)
+ */
+export interface RawTransaction {
+	txid: string; // Transaction id (hex)
+	hash: string; // Witness transaction id (wtxid)
+	version: number;
+	size: number; // Serialized size in bytes
+	vsize: number; // Virtual size (BIP141)
+	weight: number;
+	locktime: number; // nLockTime
+	vin: TxInput[];
+	vout: TxOutput[];
+	hex: string; // Serialized transaction
+	fee?: number; // BTC - verbosity 2 only, when the node has the spent outputs
+	blockhash?: string; // Confirmed transactions only
+	confirmations?: number;
+	time?: number;
+	blocktime?: number;
+}
+
+/**
+ * Mempool policy verdict for one transaction
+ *
+ * Returned by: testmempoolaccept
+ */
+export interface MempoolAcceptResult {
+	txid: string;
+	wtxid: string;
+	allowed?: boolean; // Absent when the package failed before this tx was checked
+	vsize?: number; // Accepted transactions only
+	fees?: {
+		base: number; // Fee in BTC
+	};
+	'reject-reason'?: string; // e.g. "min relay fee not met", "max-fee-exceeded"
+	'package-error'?: string;
+}
+
+/**
+ * Mempool entry
+ *
+ * Returned by: getmempoolentry
+ */
+export interface MempoolEntry {
+	vsize: number;
+	weight: number;
+	time: number; // When it entered the mempool (unix seconds)
+	height: number; // Chain height when it entered
+	descendantcount: number; // Including itself
+	descendantsize: number; // vsize, including itself
+	ancestorcount: number; // Including itself
+	ancestorsize: number; // vsize, including itself
+	wtxid: string;
+	fees: {
+		base: number; // BTC
+		modified: number; // BTC, after prioritisetransaction
+		ancestor: number; // BTC, including itself
+		descendant: number; // BTC, including itself
+	};
+	depends: string[]; // Unconfirmed parents
+	spentby: string[]; // Unconfirmed children
+	'bip125-replaceable'?: boolean;
+	unbroadcast?: boolean; // Not yet announced to any peer
+}
+
+/**
+ * Every mempool entry, keyed by txid
+ *
+ * Returned by: getrawmempool (verbose)
+ */
+export type RawMempool = Record<string, MempoolEntry>;
+
+/**
+ * Mempool summary
+ *
+ * Returned by: getmempoolinfo
+ */
+export interface MempoolInfo {
+	loaded: boolean; // Finished loading mempool.dat at startup
+	size: number; // Transactions
+	bytes: number; // Sum of vsizes
+	usage: number; // Memory used, in bytes
+	total_fee?: number; // BTC
+	maxmempool: number; // Memory limit, in bytes
+	mempoolminfee: number; // BTC/kvB - rises above minrelaytxfee when the mempool is full
+	minrelaytxfee: number; // BTC/kvB
+	incrementalrelayfee?: number; // BTC/kvB
+	unbroadcastcount?: number; // Not yet announced to any peer
+	fullrbf?: boolean;
+}
+
 /**
  * Sync status response
  *
@@ -144,3 +342,62 @@ export interface SyncStatus {
 	total_peers: number; // Total connected peers
 	initialblockdownload: boolean; // True if in IBD
 }
+
+/**
+ * Network info response
+ *
+ * Returned by: getnetworkinfo
+ */
+export interface NetworkInfo {
+	version: number; // Node version as an integer (e.g., 10000 for 0.1.0)
+	subversion: string; // User agent (e.g., "/BitcoinEcho:0.1.0/")
+	protocolversion: number; // P2P protocol version
+}
+
+/**
+ * Network a peer is reached over
+ */
+export type PeerNetwork = 'ipv4' | 'ipv6' | 'onion' | 'i2p' | 'cjdns' | 'not_publicly_routable';
+
+/**
+ * A connected peer
+ *
+ * Returned by: getpeerinfo (one per peer)
+ */
+export interface PeerInfo {
+	id: number; // Node id, for disconnectnode
+	addr: string; // host:port
+	network: PeerNetwork;
+	services: string; // Service flags (hex)
+	servicesnames?: string[]; // e.g. ["NETWORK", "WITNESS"]
+	relaytxes?: boolean;
+	lastsend: number; // unix seconds
+	lastrecv: number; // unix seconds
+	last_block?: number; // When it last sent us a new block (unix seconds, 0 if never)
+	bytessent: number;
+	bytesrecv: number;
+	conntime: number; // Connected since (unix seconds)
+	pingtime?: number; // Last ping round trip (seconds), absent before the first pong
+	minping?: number; // Best ping round trip (seconds)
+	version: number; // Protocol version
+	subver: string; // User agent
+	inbound: boolean;
+	connection_type?: string; // e.g. "outbound-full-relay", "block-relay-only", "inbound"
+	startingheight: number; // Its height when we connected
+	synced_headers: number; // Last header we have in common (-1 if unknown)
+	synced_blocks: number; // Last block we have in common (-1 if unknown)
+	inflight?: number[]; // Heights of blocks we're downloading from it
+}
+
+/**
+ * A banned address or subnet
+ *
+ * Returned by: listbanned (one per ban)
+ */
+export interface BannedSubnet {
+	address: string; // Subnet, e.g. "203.0.113.5/32"
+	ban_created: number; // unix seconds
+	banned_until: number; // unix seconds
+	ban_duration?: number; // seconds
+	time_remaining?: number; // seconds
+}
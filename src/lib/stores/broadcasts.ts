@@ -0,0 +1,198 @@
+/**
+ * Bitcoin Echo GUI — Broadcast Tracking Store
+ *
+ * Transactions sent from the Broadcast page, and how far each has got:
+ * accepted by the node, sitting in its mempool, announced back by peers
+ * (seen in getobservedtxs), and finally gone from the mempool (mined or
+ * replaced).
+ *
+ * The mempool is checked through scheduler lookups, so only the leader tab
+ * asks the node.
+ *
+ * Kept in sessionStorage so a reload doesn't lose track of what was sent.
+ */
+
+import { writable, derived, get } from 'svelte/store';
+import type { Readable } from 'svelte/store';
+import type { MempoolEntry, ObservedTx } from '$lib/rpc/types';
+import { scheduler, mempoolEntries } from './scheduler';
+
+/**
+ * One sent (or failed) transaction
+ */
+export interface BroadcastRecord {
+	txid: string;
+	sentAt: number; // When it was submitted (ms since epoch)
+	error: string | null; // Node's rejection message, if sendrawtransaction failed
+	inMempool: boolean | null; // Last getmempoolentry result (null until checked)
+	unbroadcast: boolean | null; // Node hasn't announced it to any peer yet
+	seenByPeersAt: number | null; // first_seen from getobservedtxs (ms since epoch)
+	leftMempoolAt: number | null; // When it was first found missing after being in the mempool
+}
+
+/**
+ * SessionStorage key
+ */
+const STORAGE_KEY = 'bitcoin-echo-broadcasts';
+
+/**
+ * Records kept (oldest dropped first)
+ */
+const MAX_RECORDS = 20;
+
+function loadInitialState(): BroadcastRecord[] {
+	if (typeof window === 'undefined') return [];
+	try {
+		const stored = sessionStorage.getItem(STORAGE_KEY);
+		return stored ? (JSON.parse(stored) as BroadcastRecord[]) : [];
+	} catch {
+		return [];
+	}
+}
+
+const broadcastState = writable<BroadcastRecord[]>(loadInitialState());
+
+if (typeof window !== 'undefined') {
+	broadcastState.subscribe((records) => {
+		try {
+			sessionStorage.setItem(STORAGE_KEY, JSON.stringify(records));
+		} catch {
+			// Storage full or unavailable; tracking still works for this page load
+		}
+	});
+}
+
+function updateRecord(txid: string, patch: Partial<BroadcastRecord>): void {
+	broadcastState.update((records) =>
+		records.map((record) => (record.txid === txid ? { ...record, ...patch } : record))
+	);
+}
+
+function addRecord(txid: string, error: string | null): void {
+	const record: BroadcastRecord = {
+		txid,
+		sentAt: Date.now(),
+		error,
+		inMempool: null,
+		unbroadcast: null,
+		seenByPeersAt: null,
+		leftMempoolAt: null
+	};
+	broadcastState.update((records) =>
+		[record, ...records.filter((r) => r.txid !== txid)].slice(0, MAX_RECORDS)
+	);
+}
+
+/**
+ * Still worth polling: accepted, and in the mempool or not checked yet
+ *
+ * Once found missing it's done: either it left (mined or replaced), or it
+ * never made it in - or was evicted before the first check - and won't
+ * come back by itself.
+ */
+function isTracking(record: BroadcastRecord): boolean {
+	return record.error === null && record.inMempool !== false;
+}
+
+/**
+ * Fold the scheduler's mempool lookups into the tracked records
+ */
+function markMempool(entries: Record<string, MempoolEntry | null>): void {
+	for (const record of get(broadcastState).filter(isTracking)) {
+		if (!(record.txid in entries)) continue; // Not asked yet (or node unreachable)
+
+		const entry = entries[record.txid];
+		if (entry) {
+			const unbroadcast = entry.unbroadcast ?? null;
+			if (record.inMempool !== true || record.unbroadcast !== unbroadcast) {
+				updateRecord(record.txid, { inMempool: true, unbroadcast });
+			}
+		} else {
+			updateRecord(record.txid, {
+				inMempool: false,
+				// Only "left" if we saw it there first; otherwise it never made it in
+				leftMempoolAt: record.inMempool ? Date.now() : null
+			});
+		}
+	}
+}
+
+export const broadcasts = {
+	subscribe: broadcastState.subscribe,
+
+	/**
+	 * Record a transaction the node accepted
+	 */
+	recordSent(txid: string): void {
+		addRecord(txid, null);
+	},
+
+	/**
+	 * Record a transaction the node rejected
+	 */
+	recordFailed(txid: string, error: string): void {
+		addRecord(txid, error);
+	},
+
+	/**
+	 * Watch every tracked transaction in the node's mempool (scheduler lookups)
+	 *
+	 * @returns Stop function
+	 */
+	track(): () => void {
+		const watching = new Map<string, () => void>();
+
+		const unsubscribeRecords = broadcastState.subscribe((records) => {
+			const tracked = new Set(records.filter(isTracking).map((record) => record.txid));
+			for (const [txid, unregister] of watching) {
+				if (tracked.has(txid)) continue;
+				unregister();
+				watching.delete(txid);
+			}
+			for (const txid of tracked) {
+				if (!watching.has(txid)) watching.set(txid, scheduler.lookup('mempoolEntry', [txid]));
+			}
+		});
+		const unsubscribeEntries = mempoolEntries.subscribe(markMempool);
+
+		return () => {
+			unsubscribeEntries();
+			unsubscribeRecords();
+			for (const unregister of watching.values()) unregister();
+			watching.clear();
+		};
+	},
+
+	/**
+	 * Mark transactions that peers have announced back to us
+	 */
+	markObserved(observed: ObservedTx[]): void {
+		const firstSeen = new Map(observed.map((tx) => [tx.txid, tx.first_seen]));
+		const records = get(broadcastState);
+		if (!records.some((record) => record.seenByPeersAt === null && firstSeen.has(record.txid))) {
+			return;
+		}
+
+		broadcastState.set(
+			records.map((record) =>
+				record.seenByPeersAt === null && firstSeen.has(record.txid)
+					? { ...record, seenByPeersAt: firstSeen.get(record.txid)! }
+					: record
+			)
+		);
+	},
+
+	/**
+	 * Forget every record
+	 */
+	clear(): void {
+		broadcastState.set([]);
+	}
+};
+
+/**
+ * Derived store: Whether any sent transaction is still being tracked
+ */
+export const isTrackingBroadcasts: Readable<boolean> = derived(broadcastState, ($records) =>
+	$records.some(isTracking)
+);
@@ -0,0 +1,328 @@
+/**
+ * Bitcoin Echo GUI — Observer Session Capture
+ *
+ * Records a live observer session and replays it later, for demos, bug
+ * reports and teaching. A capture is the sequence of observer results
+ * (stats, observed blocks, observed transactions - what
+ * getObserverDataBatch returns) with the time each arrived.
+ *
+ * Capture files are JSON lines: a header line, then one frame per line.
+ *
+ *   {"format":"bitcoin-echo-observer-capture","version":1,"started":1700000000000}
+ *   {"t":1700000000000,"stats":{...},"blocks":{"blocks":[...]},"txs":{"transactions":[...]}}
+ *
+ * Replay hands each frame to the scheduler in place of the node (see
+ * scheduler.startReplay), so every observer component works unchanged.
+ * first_seen timestamps are shifted so announcements are as old, relative
+ * to now, as they were when recorded. Long silences in the recording (a
+ * hidden tab, the node going away) are shortened to MAX_GAP.
+ */
+
+import { writable, derived, get } from 'svelte/store';
+import type { Readable } from 'svelte/store';
+import type { ObserverStats, ObservedBlocksResponse, ObservedTxsResponse } from '$lib/rpc/types';
+import { validateResponse } from '$lib/rpc/schema';
+import { activeProfileId, observerStats } from './connection';
+import { scheduler, observedBlocks, observedTxs } from './scheduler';
+
+/**
+ * One set of observer results and when it arrived
+ */
+export interface CaptureFrame {
+	t: number; // ms since epoch
+	stats: ObserverStats;
+	blocks: ObservedBlocksResponse;
+	txs: ObservedTxsResponse;
+}
+
+/**
+ * A loaded capture file
+ */
+export interface Capture {
+	name: string; // File name
+	started: number; // ms since epoch
+	frames: CaptureFrame[];
+}
+
+/**
+ * First line of a capture file
+ */
+interface CaptureHeader {
+	format: string;
+	version: number;
+	started: number;
+}
+
+type CaptureMode = 'idle' | 'recording' | 'replaying';
+
+interface CaptureState {
+	mode: CaptureMode;
+	recorded: CaptureFrame[]; // Latest recording, kept until discarded or replaced
+	replay: Capture | null;
+	position: number; // Index of the frame being shown
+	playing: boolean;
+	speed: number;
+}
+
+export const CAPTURE_FORMAT = 'bitcoin-echo-observer-capture';
+const CAPTURE_VERSION = 1;
+
+/**
+ * Replay speeds offered
+ */
+export const REPLAY_SPEEDS = [0.5, 1, 2, 5, 10];
+
+/**
+ * Frames a recording stops at (about 3 hours at the normal poll rate)
+ */
+export const MAX_FRAMES = 2000;
+
+/**
+ * Longest wait between replayed frames at 1× (ms)
+ */
+const MAX_GAP = 30_000;
+
+/**
+ * Methods whose results make up a frame, for validating imported files
+ */
+const FRAME_METHODS = {
+	stats: 'getobserverstats',
+	blocks: 'getobservedblocks',
+	txs: 'getobservedtxs'
+} as const;
+
+const INITIAL_STATE: CaptureState = {
+	mode: 'idle',
+	recorded: [],
+	replay: null,
+	position: 0,
+	playing: false,
+	speed: 1
+};
+
+const captureState = writable<CaptureState>({ ...INITIAL_STATE });
+
+let stopRecording: (() => void) | null = null;
+let replayTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Start collecting frames from the live stores
+ */
+function record(): () => void {
+	const unrequire = scheduler.require(['observedBlocks', 'observedTxs']);
+	let last: Omit<CaptureFrame, 't'> | null = null;
+	let queued = false;
+
+	// A tick updates the three stores one after another; take one frame per tick
+	const queueFrame = () => {
+		if (queued) return;
+		queued = true;
+		queueMicrotask(() => {
+			queued = false;
+			const stats = get(observerStats);
+			const blocks = get(observedBlocks);
+			const txs = get(observedTxs);
+			if (!stats || !blocks || !txs) return;
+			if (last && last.stats === stats && last.blocks === blocks && last.txs === txs) return;
+			last = { stats, blocks, txs };
+
+			const frame = { t: Date.now(), ...last };
+			captureState.update((s) => ({ ...s, recorded: [...s.recorded, frame] }));
+			if (get(captureState).recorded.length >= MAX_FRAMES) capture.stopRecording();
+		});
+	};
+
+	const unsubscribers = [
+		observerStats.subscribe(queueFrame),
+		observedBlocks.subscribe(queueFrame),
+		observedTxs.subscribe(queueFrame)
+	];
+	// A different node's data doesn't belong in the same capture
+	const initialProfile = get(activeProfileId);
+	unsubscribers.push(
+		activeProfileId.subscribe((id) => {
+			if (id !== initialProfile) capture.stopRecording();
+		})
+	);
+
+	return () => {
+		unrequire();
+		for (const unsubscribe of unsubscribers) unsubscribe();
+	};
+}
+
+/**
+ * Publish a frame, with announcement times moved to the present
+ */
+function showFrame(frame: CaptureFrame): void {
+	const offset = Date.now() - frame.t;
+	scheduler.replayFrame(
+		frame.t,
+		frame.stats,
+		{ blocks: frame.blocks.blocks.map((b) => ({ ...b, first_seen: b.first_seen + offset })) },
+		{ transactions: frame.txs.transactions.map((tx) => ({ ...tx, first_seen: tx.first_seen + offset })) }
+	);
+}
+
+/**
+ * Wait for the next frame, if playing
+ */
+function scheduleNext(): void {
+	if (replayTimer) clearTimeout(replayTimer);
+	replayTimer = null;
+
+	const { replay, position, playing, speed } = get(captureState);
+	if (!replay || !playing) return;
+	if (position >= replay.frames.length - 1) {
+		captureState.update((s) => ({ ...s, playing: false }));
+		return;
+	}
+
+	const gap = Math.min(MAX_GAP, replay.frames[position + 1].t - replay.frames[position].t);
+	replayTimer = setTimeout(() => {
+		replayTimer = null;
+		capture.seek(get(captureState).position + 1);
+	}, gap / speed);
+}
+
+/**
+ * Read a capture file's contents
+ *
+ * @throws Error naming the first bad line
+ */
+export function parseCapture(text: string, name: string): Capture {
+	const lines = text.split('\n').filter((line) => line.trim() !== '');
+	if (lines.length === 0) throw new Error('The file is empty');
+
+	const parseLine = (index: number): unknown => {
+		try {
+			return JSON.parse(lines[index]);
+		} catch {
+			throw new Error(`Line ${index + 1} is not valid JSON`);
+		}
+	};
+
+	const header = parseLine(0) as Partial<CaptureHeader> | null;
+	if (header?.format !== CAPTURE_FORMAT) throw new Error('Not a Bitcoin Echo observer capture');
+	if (header.version !== CAPTURE_VERSION) {
+		throw new Error(`Capture format version ${header.version} isn't supported (expected ${CAPTURE_VERSION})`);
+	}
+
+	const frames: CaptureFrame[] = [];
+	for (let i = 1; i < lines.length; i++) {
+		const frame = parseLine(i) as Partial<CaptureFrame> | null;
+		if (typeof frame?.t !== 'number') throw new Error(`Line ${i + 1} has no timestamp`);
+		for (const [key, method] of Object.entries(FRAME_METHODS)) {
+			const issues = validateResponse(method, frame[key as keyof typeof FRAME_METHODS]);
+			if (issues.length > 0) throw new Error(`Line ${i + 1}: unexpected ${key} (${issues[0]})`);
+		}
+		frames.push(frame as CaptureFrame);
+	}
+	if (frames.length === 0) throw new Error('The capture has no frames');
+
+	frames.sort((a, b) => a.t - b.t);
+	return { name, started: typeof header.started === 'number' ? header.started : frames[0].t, frames };
+}
+
+/**
+ * Public capture interface
+ */
+export const capture = {
+	subscribe: captureState.subscribe,
+
+	/**
+	 * Start recording (replaces any previous recording)
+	 */
+	startRecording(): void {
+		if (get(captureState).mode !== 'idle') return;
+		captureState.update((s) => ({ ...s, mode: 'recording', recorded: [] }));
+		stopRecording = record();
+	},
+
+	stopRecording(): void {
+		if (get(captureState).mode !== 'recording') return;
+		stopRecording?.();
+		stopRecording = null;
+		captureState.update((s) => ({ ...s, mode: 'idle' }));
+	},
+
+	/**
+	 * The latest recording as a capture file (JSON lines)
+	 */
+	exportRecording(): string {
+		const { recorded } = get(captureState);
+		const header: CaptureHeader = {
+			format: CAPTURE_FORMAT,
+			version: CAPTURE_VERSION,
+			started: recorded[0]?.t ?? Date.now()
+		};
+		return [header, ...recorded].map((line) => JSON.stringify(line)).join('\n') + '\n';
+	},
+
+	discardRecording(): void {
+		captureState.update((s) => ({ ...s, recorded: [] }));
+	},
+
+	/**
+	 * Replace the node with a capture and start playing it
+	 */
+	replay(loaded: Capture): void {
+		if (get(captureState).mode === 'recording') this.stopRecording();
+		scheduler.startReplay();
+		captureState.update((s) => ({ ...s, mode: 'replaying', replay: loaded, position: 0, playing: true }));
+		this.seek(0);
+	},
+
+	play(): void {
+		const { replay, position } = get(captureState);
+		if (!replay) return;
+		// Finished: start over
+		const restart = position >= replay.frames.length - 1;
+		captureState.update((s) => ({ ...s, playing: true }));
+		if (restart) this.seek(0);
+		else scheduleNext();
+	},
+
+	pause(): void {
+		captureState.update((s) => ({ ...s, playing: false }));
+		scheduleNext();
+	},
+
+	setSpeed(speed: number): void {
+		captureState.update((s) => ({ ...s, speed }));
+		scheduleNext();
+	},
+
+	/**
+	 * Show a frame and carry on from there
+	 */
+	seek(position: number): void {
+		const { replay } = get(captureState);
+		if (!replay) return;
+		const index = Math.max(0, Math.min(replay.frames.length - 1, position));
+		captureState.update((s) => ({ ...s, position: index }));
+		showFrame(replay.frames[index]);
+		scheduleNext();
+	},
+
+	/**
+	 * Back to the live node
+	 */
+	stopReplay(): void {
+		if (get(captureState).mode !== 'replaying') return;
+		if (replayTimer) clearTimeout(replayTimer);
+		replayTimer = null;
+		captureState.update((s) => ({ ...s, mode: 'idle', replay: null, position: 0, playing: false }));
+		scheduler.stopReplay();
+	}
+};
+
+/**
+ * Derived store: Is a recording in progress?
+ */
+export const isRecording: Readable<boolean> = derived(captureState, ($state) => $state.mode === 'recording');
+
+/**
+ * Derived store: Are the stores showing a replayed capture instead of the node?
+ */
+export const isReplaying: Readable<boolean> = derived(captureState, ($state) => $state.mode === 'replaying');
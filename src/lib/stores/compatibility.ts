@@ -0,0 +1,190 @@
+/**
+ * Bitcoin Echo GUI — Compatibility Store
+ *
+ * Collects responses that failed schema validation (see rpc/schema.ts) so
+ * the layout can warn that the connected node build doesn't match what this
+ * GUI expects, naming the node's version from getnetworkinfo.
+ *
+ * The scheduler reports mismatches and clears them again once a method
+ * validates, so the banner disappears by itself after a node upgrade.
+ * Only the leader tab polls, so it shares the mismatches (and the version)
+ * with follower tabs through its feed.
+ */
+
+import { writable, derived, get } from 'svelte/store';
+import type { Writable, Readable } from 'svelte/store';
+import { getNetworkInfo } from '$lib/rpc/client';
+import type { RPCSchemaError } from '$lib/rpc/errors';
+import { connection } from './connection';
+
+/**
+ * Schema mismatch for one RPC method
+ */
+export interface CompatibilityIssue {
+	method: string;
+	issues: string[]; // e.g. ["missing eta_seconds"]
+	firstSeen: number;
+}
+
+/**
+ * Compatibility state
+ */
+interface CompatibilityState {
+	issues: CompatibilityIssue[];
+	nodeVersion: string | null; // Display version, e.g. "BitcoinEcho 0.2.0"
+	versionLookup: 'idle' | 'pending' | 'done';
+	dismissed: boolean;
+}
+
+/**
+ * Compatibility state a leader tab shares with the other tabs (see tabs.ts)
+ */
+export type SharedCompatibilityState = Pick<CompatibilityState, 'issues' | 'nodeVersion'>;
+
+const INITIAL_STATE: CompatibilityState = {
+	issues: [],
+	nodeVersion: null,
+	versionLookup: 'idle',
+	dismissed: false
+};
+
+/**
+ * Internal compatibility state store
+ */
+const compatibilityState: Writable<CompatibilityState> = writable({ ...INITIAL_STATE });
+
+/**
+ * Turn a user agent like "/BitcoinEcho:0.2.0/" into "BitcoinEcho 0.2.0"
+ */
+function formatSubversion(subversion: string): string {
+	return subversion.replace(/^\/|\/$/g, '').replace(/:/g, ' ').replace(/\//g, ', ');
+}
+
+/**
+ * Look up the node's version once per connection
+ *
+ * Older builds without getnetworkinfo (or with a mismatched one) leave the
+ * version null; the banner then says the version is unknown.
+ */
+async function lookupVersion(): Promise<void> {
+	const config = connection.getConfig();
+	compatibilityState.update((s) => ({ ...s, versionLookup: 'pending' }));
+
+	let nodeVersion: string | null = null;
+	try {
+		const info = await getNetworkInfo(config);
+		nodeVersion = info.subversion ? formatSubversion(info.subversion) : `version ${info.version}`;
+	} catch {
+		nodeVersion = null;
+	}
+
+	// Ignore the answer if the user switched nodes meanwhile
+	if (config !== connection.getConfig()) return;
+
+	compatibilityState.update((s) => ({ ...s, nodeVersion, versionLookup: 'done' }));
+}
+
+/**
+ * Public compatibility store interface
+ */
+export const compatibility = {
+	subscribe: compatibilityState.subscribe,
+
+	/**
+	 * Record a schema mismatch
+	 * A mismatch for a method not seen before re-shows a dismissed banner.
+	 */
+	report(error: RPCSchemaError): void {
+		const method = error.method ?? 'unknown';
+		const state = get(compatibilityState);
+		const existing = state.issues.find((issue) => issue.method === method);
+
+		compatibilityState.update((s) => ({
+			...s,
+			issues: existing
+				? s.issues.map((issue) =>
+						issue.method === method ? { ...issue, issues: error.issues } : issue
+					)
+				: [...s.issues, { method, issues: error.issues, firstSeen: Date.now() }],
+			dismissed: existing ? s.dismissed : false
+		}));
+
+		if (state.versionLookup === 'idle') {
+			lookupVersion();
+		}
+	},
+
+	/**
+	 * Clear the mismatch for a method that now validates
+	 */
+	resolve(method: string): void {
+		if (!get(compatibilityState).issues.some((issue) => issue.method === method)) return;
+		compatibilityState.update((s) => ({
+			...s,
+			issues: s.issues.filter((issue) => issue.method !== method)
+		}));
+	},
+
+	/**
+	 * Compatibility state to publish to follower tabs
+	 */
+	getSharedState(): SharedCompatibilityState {
+		const { issues, nodeVersion } = get(compatibilityState);
+		return { issues, nodeVersion };
+	},
+
+	/**
+	 * Apply compatibility state published by the leader tab
+	 * As with report, a mismatch for a method not seen before re-shows a dismissed banner.
+	 */
+	applySharedState(shared: SharedCompatibilityState): void {
+		compatibilityState.update((s) => {
+			const known = new Set(s.issues.map((issue) => issue.method));
+			return {
+				...s,
+				...shared,
+				// The leader looks the version up; this tab never needs to
+				versionLookup: 'done',
+				dismissed: s.dismissed && shared.issues.every((issue) => known.has(issue.method))
+			};
+		});
+	},
+
+	/**
+	 * Hide the banner until a new mismatch appears
+	 */
+	dismiss(): void {
+		compatibilityState.update((s) => ({ ...s, dismissed: true }));
+	},
+
+	/**
+	 * Forget everything (called when switching nodes)
+	 */
+	reset(): void {
+		compatibilityState.set({ ...INITIAL_STATE });
+	}
+};
+
+/**
+ * Derived store: Current schema mismatches
+ */
+export const compatibilityIssues: Readable<CompatibilityIssue[]> = derived(
+	compatibilityState,
+	($state) => $state.issues
+);
+
+/**
+ * Derived store: Should the compatibility banner be shown?
+ */
+export const showCompatibilityWarning: Readable<boolean> = derived(
+	compatibilityState,
+	($state) => $state.issues.length > 0 && !$state.dismissed
+);
+
+/**
+ * Derived store: Node version for display (null if unknown)
+ */
+export const nodeVersion: Readable<string | null> = derived(
+	compatibilityState,
+	($state) => $state.nodeVersion
+);
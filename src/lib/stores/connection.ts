@@ -1,32 +1,79 @@
 /**
  * Bitcoin Echo GUI — Connection Store
  *
- * Manages WebSocket-like connection state to the Bitcoin Echo RPC server.
- * Provides auto-reconnect and health checking via periodic getobserverstats calls.
+ * Manages connection state to the Bitcoin Echo RPC server.
+ * Polling lives in the scheduler store, which reports each tick's outcome
+ * here; this store only holds the resulting status, stats and config.
+ *
+ * Configs are kept as named profiles (one per node). Exactly one profile
+ * is active; switching clears everything learned about the previous node.
+ *
+ * In a follower tab (see tabs.ts) the node state arrives from the leader
+ * tab instead of from this tab's scheduler.
  *
  * Session 1.1: Connection State Management
  */
 
 import { writable, derived, get } from 'svelte/store';
 import type { Writable, Readable } from 'svelte/store';
-import { getObserverStats } from '$lib/rpc/client';
-import type { ConnectionStatus, ObserverStats, RPCConfig } from '$lib/rpc/types';
+import type { RPCAuthError } from '$lib/rpc/errors';
+import type {
+	BlockchainInfo,
+	ConnectionStatus,
+	ObserverStats,
+	RPCAuth,
+	RPCConfig
+} from '$lib/rpc/types';
+import { createProvider, DEFAULT_NETWORK_REFERENCE } from '$lib/network/reference';
+import type { NetworkReferenceSettings } from '$lib/network/reference';
+import { nodeMode, isObserverMode } from './nodeMode';
+import { sessionHistory } from './sessionHistory';
+
+/**
+ * A named node connection (e.g. "Mainnet archival", "Regtest")
+ */
+export interface ConnectionProfile {
+	id: string;
+	name: string;
+	config: RPCConfig;
+	networkReference: NetworkReferenceSettings; // Where network height / hashrate come from
+}
 
 /**
  * Connection state
  */
 interface ConnectionState {
 	status: ConnectionStatus;
-	config: RPCConfig;
+	profiles: ConnectionProfile[];
+	activeProfileId: string;
+	config: RPCConfig; // Config of the active profile
 	lastError: string | null;
 	lastCheck: number | null; // Timestamp of last successful health check
 	stats: ObserverStats | null; // Latest observer stats
-	blockHeight: number; // Current Bitcoin block height from mempool.space
-	lastBlockHeightFetch: number; // Timestamp of last block height fetch
+	chain: string | null; // Node's chain (BlockchainInfo.chain; "main" assumed in observer mode)
+	blockHeight: number; // Network tip height from the profile's reference provider
+	lastBlockHeightFetch: number; // Timestamp of last network reference fetch
 	networkHashrate: number; // Current network hashrate in EH/s
-	consecutiveErrors: number; // Track consecutive failures for resilience
+	networkSource: string | null; // Label of the provider that answered (e.g. "node")
+	networkIssue: string | null; // Why there's no network reference, if there isn't
 }
 
+/**
+ * Node state a leader tab shares with the other tabs (see tabs.ts)
+ */
+export type SharedConnectionState = Pick<
+	ConnectionState,
+	| 'status'
+	| 'lastError'
+	| 'lastCheck'
+	| 'stats'
+	| 'chain'
+	| 'blockHeight'
+	| 'networkHashrate'
+	| 'networkSource'
+	| 'networkIssue'
+>;
+
 /**
  * Default connection configuration
  */
@@ -36,113 +83,189 @@ const DEFAULT_CONFIG: RPCConfig = {
 };
 
 /**
- * Load config from localStorage or use defaults
+ * Profile created on first run (and from a pre-profiles saved config)
  */
-function loadConfig(): RPCConfig {
-	if (typeof window === 'undefined') return DEFAULT_CONFIG;
+const DEFAULT_PROFILE: ConnectionProfile = {
+	id: 'default',
+	name: 'Default',
+	config: DEFAULT_CONFIG,
+	networkReference: DEFAULT_NETWORK_REFERENCE
+};
 
-	const saved = localStorage.getItem('bitcoin-echo-rpc-config');
-	if (saved) {
-		try {
-			return { ...DEFAULT_CONFIG, ...JSON.parse(saved) };
-		} catch {
-			return DEFAULT_CONFIG;
+/**
+ * Storage keys
+ *
+ * Profiles and the last-used profile live in localStorage. Credentials are
+ * kept in sessionStorage (keyed by profile id) so they never persist to
+ * disk in plain text and are cleared when the browser session ends.
+ *
+ * STORAGE_KEY_CONFIG holds the single config saved before profiles existed;
+ * it is only read, to migrate it into the default profile.
+ */
+const STORAGE_KEY_CONFIG = 'bitcoin-echo-rpc-config';
+const STORAGE_KEY_PROFILES = 'bitcoin-echo-profiles';
+const STORAGE_KEY_ACTIVE_PROFILE = 'bitcoin-echo-active-profile';
+const STORAGE_KEY_AUTH = 'bitcoin-echo-rpc-auth';
+
+/**
+ * Load credentials (by profile id) from sessionStorage
+ */
+function loadAuth(): Record<string, RPCAuth> {
+	if (typeof window === 'undefined') return {};
+
+	const saved = sessionStorage.getItem(STORAGE_KEY_AUTH);
+	if (!saved) return {};
+
+	try {
+		const parsed = JSON.parse(saved);
+		// Before profiles, a single RPCAuth was stored - it belongs to the default profile
+		if (typeof parsed?.type === 'string') {
+			return { [DEFAULT_PROFILE.id]: parsed as RPCAuth };
 		}
+		return parsed as Record<string, RPCAuth>;
+	} catch {
+		return {};
 	}
-	return DEFAULT_CONFIG;
 }
 
 /**
- * Save config to localStorage
+ * Save every profile's credentials to sessionStorage
  */
-function saveConfig(config: RPCConfig): void {
+function saveAuth(profiles: ConnectionProfile[]): void {
 	if (typeof window === 'undefined') return;
-	localStorage.setItem('bitcoin-echo-rpc-config', JSON.stringify(config));
-}
 
-/**
- * Internal connection state store
- */
-const connectionState: Writable<ConnectionState> = writable({
-	status: 'disconnected',
-	config: loadConfig(),
-	lastError: null,
-	lastCheck: null,
-	stats: null,
-	blockHeight: 0,
-	lastBlockHeightFetch: 0,
-	networkHashrate: 0,
-	consecutiveErrors: 0
-});
+	const auth: Record<string, RPCAuth> = {};
+	for (const profile of profiles) {
+		if (profile.config.auth && profile.config.auth.type !== 'none') {
+			auth[profile.id] = profile.config.auth;
+		}
+	}
 
-/**
- * Number of consecutive errors before showing disconnected state
- * This prevents brief network blips from disrupting the UI
- */
-const ERROR_THRESHOLD = 3;
+	if (Object.keys(auth).length === 0) {
+		sessionStorage.removeItem(STORAGE_KEY_AUTH);
+	} else {
+		sessionStorage.setItem(STORAGE_KEY_AUTH, JSON.stringify(auth));
+	}
+}
 
 /**
- * How often to refresh block height (30 seconds)
+ * Parse a saved config, dropping any credentials found in localStorage
  */
-const BLOCK_HEIGHT_REFRESH_INTERVAL = 30000;
+function parseConfig(saved: unknown): RPCConfig {
+	if (typeof saved !== 'object' || saved === null) return DEFAULT_CONFIG;
+	const parsed = { ...(saved as Partial<RPCConfig>) };
+	// Never trust credentials found in localStorage
+	delete parsed.auth;
+	return { ...DEFAULT_CONFIG, ...parsed };
+}
 
 /**
- * Fetch current block height from mempool.space
+ * Load profiles and the last-used profile id from localStorage
  */
-async function fetchBlockHeight(): Promise<number> {
+function loadProfiles(): { profiles: ConnectionProfile[]; activeProfileId: string } {
+	if (typeof window === 'undefined') {
+		return { profiles: [DEFAULT_PROFILE], activeProfileId: DEFAULT_PROFILE.id };
+	}
+
+	let profiles: ConnectionProfile[] = [];
 	try {
-		const response = await fetch('https://mempool.space/api/blocks/tip/height');
-		if (!response.ok) throw new Error('Failed to fetch block height');
-		const height = await response.json();
-		return typeof height === 'number' ? height : 0;
-	} catch (error) {
-		console.error('Failed to fetch block height from mempool.space:', error);
-		return 0;
+		const saved = JSON.parse(localStorage.getItem(STORAGE_KEY_PROFILES) ?? '[]');
+		if (Array.isArray(saved)) {
+			profiles = saved
+				.filter((p) => typeof p?.id === 'string' && typeof p?.name === 'string')
+				.map((p) => ({
+					id: p.id,
+					name: p.name,
+					config: parseConfig(p.config),
+					networkReference: { ...DEFAULT_NETWORK_REFERENCE, ...p.networkReference }
+				}));
+		}
+	} catch {
+		profiles = [];
 	}
+
+	// First run with profiles: migrate the single saved config
+	if (profiles.length === 0) {
+		let config = DEFAULT_CONFIG;
+		try {
+			const legacy = localStorage.getItem(STORAGE_KEY_CONFIG);
+			if (legacy) config = parseConfig(JSON.parse(legacy));
+		} catch {
+			config = DEFAULT_CONFIG;
+		}
+		profiles = [{ ...DEFAULT_PROFILE, config }];
+	}
+
+	const auth = loadAuth();
+	profiles = profiles.map((p) => ({ ...p, config: { ...p.config, auth: auth[p.id] } }));
+
+	const savedActive = localStorage.getItem(STORAGE_KEY_ACTIVE_PROFILE);
+	const activeProfileId = profiles.some((p) => p.id === savedActive) ? savedActive! : profiles[0].id;
+
+	return { profiles, activeProfileId };
 }
 
 /**
- * Fetch current network hashrate from mempool.space
- * Returns hashrate in EH/s (exahashes per second)
+ * Save profiles to localStorage, routing credentials to sessionStorage
  */
-async function fetchNetworkHashrate(): Promise<number> {
-	try {
-		const response = await fetch('https://mempool.space/api/v1/mining/hashrate/1m');
-		if (!response.ok) throw new Error('Failed to fetch hashrate');
-		const data = await response.json();
-		// API returns hashrates array with timestamp and avgHashrate
-		// avgHashrate is in H/s, convert to EH/s (divide by 1e18)
-		if (data.currentHashrate) {
-			return data.currentHashrate / 1e18;
-		}
-		return 0;
-	} catch (error) {
-		console.error('Failed to fetch network hashrate from mempool.space:', error);
-		return 0;
-	}
+function saveProfiles(profiles: ConnectionProfile[], activeProfileId: string): void {
+	if (typeof window === 'undefined') return;
+
+	const stored = profiles.map(({ id, name, config, networkReference }) => {
+		const rest = { ...config };
+		delete rest.auth;
+		return { id, name, config: rest, networkReference };
+	});
+	localStorage.setItem(STORAGE_KEY_PROFILES, JSON.stringify(stored));
+	localStorage.setItem(STORAGE_KEY_ACTIVE_PROFILE, activeProfileId);
+	saveAuth(profiles);
 }
 
 /**
- * Health check interval (milliseconds)
- * NOTE: Health checking is now driven by the observer page's 5s poll.
- * This value is only used for initial connection retry attempts.
+ * Generate a profile id
  */
-const HEALTH_CHECK_INTERVAL = 5000; // Reduced from 1.618s to minimize RPC load
+function generateProfileId(): string {
+	return `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+const initialProfiles = loadProfiles();
+const initialProfile = initialProfiles.profiles.find(
+	(p) => p.id === initialProfiles.activeProfileId
+)!;
+
+// Session history is recorded per profile
+sessionHistory.useProfile(initialProfile.id);
 
 /**
- * Reconnect delay after failure (milliseconds)
+ * State fields that describe the connected node (cleared when switching profiles)
  */
-const RECONNECT_DELAY = 5000; // 5 seconds
+const NODE_STATE = {
+	status: 'disconnected',
+	lastError: null,
+	lastCheck: null,
+	stats: null,
+	chain: null,
+	blockHeight: 0,
+	lastBlockHeightFetch: 0,
+	networkHashrate: 0,
+	networkSource: null,
+	networkIssue: null
+} satisfies Partial<ConnectionState>;
 
 /**
- * Health check timer
+ * Internal connection state store
  */
-let healthCheckTimer: ReturnType<typeof setInterval> | null = null;
+const connectionState: Writable<ConnectionState> = writable({
+	...NODE_STATE,
+	profiles: initialProfiles.profiles,
+	activeProfileId: initialProfile.id,
+	config: initialProfile.config
+});
 
 /**
- * Flag to skip automatic health checking (used when observer page takes over)
+ * How often to refresh the network reference (30 seconds)
  */
-let skipAutoHealthCheck = false;
+const NETWORK_REFRESH_INTERVAL = 30000;
 
 /**
  * Deep compare observer stats to check if they changed
@@ -151,132 +274,17 @@ function statsChanged(oldStats: ObserverStats | null, newStats: ObserverStats |
 	if (!oldStats && !newStats) return false;
 	if (!oldStats || !newStats) return true;
 
-	// Compare all relevant fields
-	return (
+	if (
 		oldStats.peer_count !== newStats.peer_count ||
-		oldStats.uptime_seconds !== newStats.uptime_seconds ||
-		oldStats.messages_received.version !== newStats.messages_received.version ||
-		oldStats.messages_received.verack !== newStats.messages_received.verack ||
-		oldStats.messages_received.ping !== newStats.messages_received.ping ||
-		oldStats.messages_received.pong !== newStats.messages_received.pong ||
-		oldStats.messages_received.inv !== newStats.messages_received.inv ||
-		oldStats.messages_received.getdata !== newStats.messages_received.getdata ||
-		oldStats.messages_received.block !== newStats.messages_received.block ||
-		oldStats.messages_received.tx !== newStats.messages_received.tx
-	);
-}
-
-/**
- * Perform a health check
- */
-async function healthCheck(): Promise<void> {
-	const state = get(connectionState);
-
-	// Skip if already connecting
-	if (state.status === 'connecting') return;
-
-	try {
-		// Don't set to 'connecting' on health checks after initial connection
-		// to avoid unnecessary UI updates
-		const isFirstConnection = state.status !== 'connected';
-
-		if (isFirstConnection) {
-			connectionState.update((s) => ({ ...s, status: 'connecting' }));
-		}
-
-		const stats = await getObserverStats({ endpoint: state.config.endpoint, timeout: state.config.timeout });
-
-		// Check if we need to fetch block height and hashrate:
-		// 1. On first connection (blockHeight is 0)
-		// 2. Every 30 seconds to stay current
-		const currentState = get(connectionState);
-		const now = Date.now();
-		const needsExternalData = currentState.blockHeight === 0 ||
-			(now - currentState.lastBlockHeightFetch > BLOCK_HEIGHT_REFRESH_INTERVAL);
-
-		let newBlockHeight = currentState.blockHeight;
-		let newHashrate = currentState.networkHashrate;
-		let newLastFetch = currentState.lastBlockHeightFetch;
-		if (needsExternalData) {
-			// Fetch both in parallel
-			const [height, hashrate] = await Promise.all([
-				fetchBlockHeight(),
-				fetchNetworkHashrate()
-			]);
-			newBlockHeight = height;
-			newHashrate = hashrate;
-			newLastFetch = now;
-		}
-
-		// Only update if stats actually changed OR status needs updating
-		if (isFirstConnection || statsChanged(state.stats, stats) || newBlockHeight !== currentState.blockHeight || newHashrate !== currentState.networkHashrate) {
-			connectionState.update((s) => ({
-				...s,
-				status: 'connected',
-				lastError: null,
-				lastCheck: Date.now(),
-				stats,
-				blockHeight: newBlockHeight || s.blockHeight,
-				lastBlockHeightFetch: newLastFetch,
-				networkHashrate: newHashrate || s.networkHashrate,
-				consecutiveErrors: 0 // Reset on success
-			}));
-		} else {
-			// Even if stats didn't change, reset error counter on success
-			connectionState.update((s) => ({ ...s, consecutiveErrors: 0 }));
-		}
-	} catch (error) {
-		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-		const currentState = get(connectionState);
-		const newErrorCount = currentState.consecutiveErrors + 1;
-
-		// Only transition to error status after ERROR_THRESHOLD consecutive failures
-		// This prevents brief network blips from disrupting the UI
-		if (newErrorCount >= ERROR_THRESHOLD) {
-			connectionState.update((s) => ({
-				...s,
-				status: 'error',
-				lastError: errorMessage,
-				stats: null,
-				consecutiveErrors: newErrorCount
-			}));
-		} else {
-			// Silently track the error but keep showing connected state
-			connectionState.update((s) => ({
-				...s,
-				consecutiveErrors: newErrorCount
-			}));
-		}
-
-		// Schedule reconnect
-		setTimeout(healthCheck, RECONNECT_DELAY);
+		oldStats.uptime_seconds !== newStats.uptime_seconds
+	) {
+		return true;
 	}
-}
 
-/**
- * Start health checking
- */
-function startHealthCheck(): void {
-	if (healthCheckTimer) return;
-
-	// Skip if observer page has taken over polling
-	if (skipAutoHealthCheck) return;
-
-	// Immediate first check
-	healthCheck();
-
-	// Then periodic checks
-	healthCheckTimer = setInterval(healthCheck, HEALTH_CHECK_INTERVAL);
-}
-
-/**
- * Stop health checking
- */
-function stopHealthCheck(): void {
-	if (healthCheckTimer) {
-		clearInterval(healthCheckTimer);
-		healthCheckTimer = null;
-	}
+	// Every counter, so message rate history sees each change
+	const oldMessages = oldStats.messages_received as Record<string, number>;
+	const newMessages = newStats.messages_received as Record<string, number>;
+	return Object.keys(newMessages).some((type) => oldMessages[type] !== newMessages[type]);
 }
 
 /**
@@ -286,17 +294,32 @@ export const connection = {
 	subscribe: connectionState.subscribe,
 
 	/**
-	 * Connect to the node
+	 * Mark the first connection attempt as in progress
+	 * Only applies when not already connected, to avoid needless UI updates.
 	 */
-	connect(): void {
-		startHealthCheck();
+	markConnecting(): void {
+		connectionState.update((s) =>
+			s.status === 'connected' || s.status === 'connecting' ? s : { ...s, status: 'connecting' }
+		);
 	},
 
 	/**
-	 * Disconnect from the node
+	 * Transition to the error state
+	 * The scheduler calls this once its consecutive-error threshold is reached.
 	 */
-	disconnect(): void {
-		stopHealthCheck();
+	markError(message: string): void {
+		connectionState.update((s) => ({
+			...s,
+			status: 'error',
+			lastError: message,
+			stats: null
+		}));
+	},
+
+	/**
+	 * Transition to the disconnected state (polling stopped)
+	 */
+	markDisconnected(): void {
 		connectionState.update((s) => ({
 			...s,
 			status: 'disconnected',
@@ -305,20 +328,113 @@ export const connection = {
 	},
 
 	/**
-	 * Update RPC configuration
+	 * Update the active profile's RPC configuration
+	 * The scheduler watches the config and re-polls immediately when it changes.
 	 */
 	setConfig(config: Partial<RPCConfig>): void {
+		this.updateProfile(get(connectionState).activeProfileId, { config });
+	},
+
+	/**
+	 * Create a new profile (does not switch to it)
+	 *
+	 * @returns The new profile's id
+	 */
+	addProfile(
+		name: string,
+		config: Partial<RPCConfig> = {},
+		networkReference: NetworkReferenceSettings = DEFAULT_NETWORK_REFERENCE
+	): string {
+		const id = generateProfileId();
 		connectionState.update((s) => {
-			const newConfig = { ...s.config, ...config };
-			saveConfig(newConfig);
-			return { ...s, config: newConfig };
+			const profile = { id, name, config: { ...DEFAULT_CONFIG, ...config }, networkReference };
+			const profiles = [...s.profiles, profile];
+			saveProfiles(profiles, s.activeProfileId);
+			return { ...s, profiles };
 		});
+		return id;
+	},
 
-		// Restart health check with new config
-		if (healthCheckTimer) {
-			stopHealthCheck();
-			startHealthCheck();
+	/**
+	 * Rename a profile and/or change its configuration
+	 * Changes to the active profile take effect immediately.
+	 */
+	updateProfile(
+		id: string,
+		changes: {
+			name?: string;
+			config?: Partial<RPCConfig>;
+			networkReference?: NetworkReferenceSettings;
 		}
+	): void {
+		connectionState.update((s) => {
+			const profiles = s.profiles.map((p) =>
+				p.id === id
+					? {
+							...p,
+							name: changes.name ?? p.name,
+							config: changes.config ? { ...p.config, ...changes.config } : p.config,
+							networkReference: changes.networkReference ?? p.networkReference
+						}
+					: p
+			);
+			saveProfiles(profiles, s.activeProfileId);
+
+			// A new reference provider should answer on the next tick, not in 30s
+			const lastBlockHeightFetch =
+				changes.networkReference && id === s.activeProfileId ? 0 : s.lastBlockHeightFetch;
+
+			// Only replace the config object when it changed - the scheduler watches its identity
+			const config =
+				changes.config && id === s.activeProfileId
+					? profiles.find((p) => p.id === id)!.config
+					: s.config;
+			return { ...s, profiles, config, lastBlockHeightFetch };
+		});
+	},
+
+	/**
+	 * Delete a profile
+	 * The last remaining profile can't be deleted. Deleting the active
+	 * profile switches to the first remaining one.
+	 */
+	removeProfile(id: string): void {
+		const state = get(connectionState);
+		if (state.profiles.length <= 1) return;
+
+		if (id === state.activeProfileId) {
+			this.switchProfile(state.profiles.find((p) => p.id !== id)!.id);
+		}
+
+		connectionState.update((s) => {
+			const profiles = s.profiles.filter((p) => p.id !== id);
+			saveProfiles(profiles, s.activeProfileId);
+			return { ...s, profiles };
+		});
+	},
+
+	/**
+	 * Make another profile active
+	 *
+	 * Resets everything tied to the previous node - connection status and
+	 * stats, detected node mode, and sync session history (which is stored
+	 * per profile) - before the scheduler reconnects with the new config.
+	 */
+	switchProfile(id: string): void {
+		const state = get(connectionState);
+		const profile = state.profiles.find((p) => p.id === id);
+		if (!profile || id === state.activeProfileId) return;
+
+		sessionHistory.useProfile(id);
+		nodeMode.reset();
+
+		connectionState.update((s) => ({
+			...s,
+			...NODE_STATE,
+			activeProfileId: id,
+			config: profile.config
+		}));
+		saveProfiles(state.profiles, id);
 	},
 
 	/**
@@ -329,16 +445,14 @@ export const connection = {
 	},
 
 	/**
-	 * Manually trigger a health check update
-	 * This is called by the observer page's poll loop to consolidate all RPC calls
+	 * Get the active profile's id
 	 */
-	async updateStats(): Promise<void> {
-		await healthCheck();
+	getActiveProfileId(): string {
+		return get(connectionState).activeProfileId;
 	},
 
 	/**
-	 * Update stats directly from batch request data
-	 * Used by observer page to avoid duplicate RPC calls
+	 * Update stats from the scheduler's batch request
 	 */
 	updateStatsFromBatch(stats: ObserverStats): void {
 		const state = get(connectionState);
@@ -365,48 +479,102 @@ export const connection = {
 	},
 
 	/**
-	 * Fetch and update external network data (block height, hashrate) from mempool.space
-	 * Called periodically, respects the 30-second refresh interval
+	 * Node state to publish to follower tabs
 	 */
-	async fetchExternalData(): Promise<void> {
-		const state = get(connectionState);
-		const now = Date.now();
-
-		// Only fetch if enough time has passed since last fetch
-		if (state.blockHeight !== 0 && now - state.lastBlockHeightFetch < BLOCK_HEIGHT_REFRESH_INTERVAL) {
-			return;
-		}
-
-		// Fetch both in parallel
-		const [height, hashrate] = await Promise.all([
-			fetchBlockHeight(),
-			fetchNetworkHashrate()
-		]);
+	getSharedState(): SharedConnectionState {
+		const s = get(connectionState);
+		return {
+			status: s.status,
+			lastError: s.lastError,
+			lastCheck: s.lastCheck,
+			stats: s.stats,
+			chain: s.chain,
+			blockHeight: s.blockHeight,
+			networkHashrate: s.networkHashrate,
+			networkSource: s.networkSource,
+			networkIssue: s.networkIssue
+		};
+	},
 
-		// Update state if we got valid data
-		if (height !== 0 || hashrate !== 0) {
-			connectionState.update((s) => ({
-				...s,
-				blockHeight: height || s.blockHeight,
-				networkHashrate: hashrate || s.networkHashrate,
-				lastBlockHeightFetch: now
-			}));
-		}
+	/**
+	 * Apply node state published by the leader tab
+	 * Follower tabs don't poll; this stands in for the scheduler's reports.
+	 */
+	applySharedState(shared: SharedConnectionState): void {
+		connectionState.update((s) => ({ ...s, ...shared }));
 	},
 
 	/**
-	 * Stop automatic health checking (used when observer page takes over polling)
+	 * Report a credential rejection (HTTP 401/403)
+	 * Auth failures skip the error threshold grace period - retrying won't help.
 	 */
-	stopAutoHealthCheck(): void {
-		skipAutoHealthCheck = true;
-		stopHealthCheck();
+	reportAuthFailure(error: RPCAuthError): void {
+		connectionState.update((s) => ({
+			...s,
+			status: 'unauthorized',
+			lastError: error.message,
+			stats: null
+		}));
 	},
 
 	/**
-	 * Resume automatic health checking (used when leaving observer page)
+	 * Fetch and update network height and hashrate from the active profile's provider
+	 * Called after every tick; respects the 30-second refresh interval.
+	 *
+	 * @param chainInfo - The scheduler's latest blockchain info (null in observer mode)
 	 */
-	resumeAutoHealthCheck(): void {
-		skipAutoHealthCheck = false;
+	async fetchExternalData(chainInfo: BlockchainInfo | null): Promise<void> {
+		const state = get(connectionState);
+		const now = Date.now();
+		const observer = get(isObserverMode);
+
+		// Only fetch if enough time has passed since last fetch
+		if (now - state.lastBlockHeightFetch < NETWORK_REFRESH_INTERVAL) {
+			return;
+		}
+		// A full node whose chain info failed this tick: try again next tick
+		if (!chainInfo && !observer) return;
+		connectionState.update((s) => ({ ...s, lastBlockHeightFetch: now }));
+
+		const config = state.config;
+		const profile = state.profiles.find((p) => p.id === state.activeProfileId)!;
+
+		// The chain decides which providers apply; observer mode has no chain info and watches mainnet
+		const chain = chainInfo?.chain ?? 'main';
+
+		const provider = createProvider(profile.networkReference);
+		let height = 0;
+		let hashrate = 0;
+		let issue: string | null = null;
+
+		if (provider.id === 'node' && !chainInfo) {
+			issue = 'An observer node has no chain state - pick mempool.space or Esplora as the network reference';
+		} else if (provider.supports(chain)) {
+			try {
+				({ height, hashrate } = await provider.fetch({ chain, chainInfo, config }));
+			} catch (error) {
+				console.error(`Failed to fetch network reference from ${provider.label}:`, error);
+				issue = `${provider.label} didn't answer`;
+			}
+		} else {
+			issue = `${provider.label} doesn't cover chain "${chain}"`;
+		}
+
+		// Discard the answer if the user switched nodes meanwhile
+		if (config !== get(connectionState).config) return;
+
+		connectionState.update((s) => {
+			// Keep the last good values through a transient failure, but not across chains
+			const blockHeight = height || (s.chain === chain ? s.blockHeight : 0);
+			return {
+				...s,
+				chain,
+				blockHeight,
+				networkHashrate: hashrate || (s.chain === chain ? s.networkHashrate : 0),
+				networkSource: height ? provider.label : s.networkSource,
+				networkIssue: blockHeight ? null : issue
+			};
+		});
 	}
 };
 
@@ -418,6 +586,30 @@ export const isConnected: Readable<boolean> = derived(
 	($state) => $state.status === 'connected'
 );
 
+/**
+ * Derived store: Did the node reject our credentials?
+ */
+export const isUnauthorized: Readable<boolean> = derived(
+	connectionState,
+	($state) => $state.status === 'unauthorized'
+);
+
+/**
+ * Derived store: Saved connection profiles
+ */
+export const connectionProfiles: Readable<ConnectionProfile[]> = derived(
+	connectionState,
+	($state) => $state.profiles
+);
+
+/**
+ * Derived store: Id of the active connection profile
+ */
+export const activeProfileId: Readable<string> = derived(
+	connectionState,
+	($state) => $state.activeProfileId
+);
+
 /**
  * Derived store: Current observer stats
  */
@@ -443,7 +635,7 @@ export const connectionError: Readable<string | null> = derived(
 );
 
 /**
- * Derived store: Current block height from mempool.space
+ * Derived store: Network tip height from the reference provider
  */
 export const blockHeight: Readable<number> = derived(
 	connectionState,
@@ -457,3 +649,27 @@ export const networkHashrate: Readable<number> = derived(
 	connectionState,
 	($state) => $state.networkHashrate
 );
+
+/**
+ * Derived store: Label of the network reference provider (e.g. "node", "mempool.space")
+ */
+export const networkSource: Readable<string | null> = derived(
+	connectionState,
+	($state) => $state.networkSource
+);
+
+/**
+ * Derived store: Why there's no network height (null when there is one)
+ */
+export const networkIssue: Readable<string | null> = derived(
+	connectionState,
+	($state) => $state.networkIssue
+);
+
+/**
+ * Derived store: Node's chain ("main", "test", "signet", "regtest", ...)
+ */
+export const networkChain: Readable<string | null> = derived(
+	connectionState,
+	($state) => $state.chain
+);
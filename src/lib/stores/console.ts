@@ -0,0 +1,159 @@
+/**
+ * Bitcoin Echo GUI — RPC Console Store
+ *
+ * Command history for the Console page (persisted to localStorage, so
+ * it survives restarts like a shell history) and the transcript of the
+ * current visit (kept in memory, so it survives navigating away and back).
+ *
+ * Like Bitcoin Core's console, commands that carry a private key or
+ * passphrase are never written to the history.
+ */
+
+import { writable, derived } from 'svelte/store';
+import type { Readable } from 'svelte/store';
+
+/**
+ * One executed command and its outcome
+ */
+export interface ConsoleEntry {
+	id: number;
+	command: string; // As typed (one line, or several in batch mode)
+	method: string;
+	params: unknown[];
+	startedAt: number; // ms since epoch
+	durationMs: number | null; // null while running
+	ok: boolean | null; // null while running
+	result?: unknown;
+	error?: string;
+}
+
+/**
+ * LocalStorage key
+ */
+const STORAGE_KEY_HISTORY = 'bitcoin-echo-console-history';
+
+/**
+ * History entries kept
+ */
+const MAX_HISTORY = 200;
+
+/**
+ * Transcript entries kept (oldest dropped first)
+ */
+const MAX_TRANSCRIPT = 100;
+
+/**
+ * Methods whose arguments (or results) are secrets (Bitcoin Core's history filter, and then some)
+ */
+const SENSITIVE_METHODS = [
+	'createwallet', // Optional passphrase
+	'dumpprivkey',
+	'encryptwallet',
+	'importdescriptors',
+	'importmulti',
+	'importprivkey',
+	'sethdseed',
+	'signmessagewithprivkey',
+	'signrawtransactionwithkey',
+	'walletpassphrase',
+	'walletpassphrasechange'
+];
+
+/**
+ * Does the command call a sensitive method anywhere (including in a batch)?
+ */
+function isSensitive(command: string): boolean {
+	const words = command.toLowerCase().match(/[a-z]+/g) ?? [];
+	return words.some((word) => SENSITIVE_METHODS.includes(word));
+}
+
+function loadHistory(): string[] {
+	if (typeof window === 'undefined') return [];
+	try {
+		const stored = localStorage.getItem(STORAGE_KEY_HISTORY);
+		// Older builds kept everything
+		return stored ? (JSON.parse(stored) as string[]).filter((command) => !isSensitive(command)) : [];
+	} catch {
+		return [];
+	}
+}
+
+const historyState = writable<string[]>(loadHistory());
+const transcriptState = writable<ConsoleEntry[]>([]);
+
+if (typeof window !== 'undefined') {
+	historyState.subscribe((history) => {
+		try {
+			localStorage.setItem(STORAGE_KEY_HISTORY, JSON.stringify(history));
+		} catch {
+			// Storage full or unavailable; history still works until reload
+		}
+	});
+}
+
+let nextId = 1;
+
+export const consoleHistory = {
+	subscribe: historyState.subscribe,
+
+	/**
+	 * Remember a command (newest last; repeating the previous command doesn't duplicate it)
+	 * Sensitive commands are dropped.
+	 */
+	add(command: string): void {
+		const trimmed = command.trim();
+		if (!trimmed || isSensitive(trimmed)) return;
+		historyState.update((history) => {
+			if (history[history.length - 1] === trimmed) return history;
+			return [...history, trimmed].slice(-MAX_HISTORY);
+		});
+	},
+
+	clear(): void {
+		historyState.set([]);
+	}
+};
+
+export const consoleTranscript = {
+	subscribe: transcriptState.subscribe,
+
+	/**
+	 * Add a running command and return its id
+	 */
+	start(command: string, method: string, params: unknown[]): number {
+		const id = nextId++;
+		const entry: ConsoleEntry = {
+			id,
+			command,
+			method,
+			params,
+			startedAt: Date.now(),
+			durationMs: null,
+			ok: null
+		};
+		transcriptState.update((entries) => [...entries, entry].slice(-MAX_TRANSCRIPT));
+		return id;
+	},
+
+	/**
+	 * Record a command's result or error
+	 */
+	finish(id: number, outcome: { ok: true; result: unknown } | { ok: false; error: string }): void {
+		transcriptState.update((entries) =>
+			entries.map((entry) =>
+				entry.id === id ? { ...entry, ...outcome, durationMs: Date.now() - entry.startedAt } : entry
+			)
+		);
+	},
+
+	clear(): void {
+		transcriptState.set([]);
+	}
+};
+
+/**
+ * Derived store: Whether any command is still waiting for the node
+ */
+export const isConsoleBusy: Readable<boolean> = derived(transcriptState, ($entries) =>
+	$entries.some((entry) => entry.ok === null)
+);
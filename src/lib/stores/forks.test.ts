@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { get } from 'svelte/store';
+import type { Writable } from 'svelte/store';
+import type { ObservedBlock } from '$lib/rpc/types';
+
+type Header = { height: number; previousblockhash?: string } | null;
+
+/**
+ * The scheduler stores the forks store reads, shared with the mock factories
+ */
+const feed = vi.hoisted(() => ({
+	observedBlocks: null as unknown as Writable<{ blocks: ObservedBlock[] } | null>,
+	blockHeaders: null as unknown as Writable<Record<string, Header>>,
+	unsupportedLookups: null as unknown as Writable<string[]>
+}));
+
+vi.mock('./scheduler', async () => {
+	const { writable } = await import('svelte/store');
+	feed.observedBlocks = writable(null);
+	feed.blockHeaders = writable({});
+	feed.unsupportedLookups = writable([]);
+	return {
+		scheduler: { lookup: () => () => {} },
+		observedBlocks: feed.observedBlocks,
+		blockHeaders: feed.blockHeaders,
+		unsupportedLookups: feed.unsupportedLookups
+	};
+});
+
+vi.mock('./connection', async () => {
+	const { writable } = await import('svelte/store');
+	return { activeProfileId: writable('default') };
+});
+
+vi.mock('./tabs', () => ({ tabs: { isLeader: () => true } }));
+
+vi.mock('./capture', async () => {
+	const { writable } = await import('svelte/store');
+	return { isReplaying: writable(false) };
+});
+
+const STORAGE_KEY = 'bitcoin-echo-stale-blocks';
+const T0 = 1_700_000_000_000;
+
+let storage: Map<string, string>;
+
+/** Fresh forks module, seeing the given announcements and headers */
+async function observe(blocks: ObservedBlock[], headers: Record<string, Header> | null) {
+	const module = await import('./forks');
+	if (headers) {
+		feed.blockHeaders.set(headers);
+	} else {
+		// An observer node: no getblockheader
+		feed.unsupportedLookups.set(['blockHeader']);
+	}
+	feed.observedBlocks.set({ blocks });
+	return module;
+}
+
+function block(hash: string, seconds: number, peer_count = 8): ObservedBlock {
+	return { hash, first_seen: T0 + seconds * 1000, peer_count };
+}
+
+beforeEach(async () => {
+	vi.resetModules();
+	// The mocked scheduler may outlive a module reset: start each test from an empty feed
+	await import('./scheduler');
+	feed.observedBlocks.set(null);
+	feed.blockHeaders.set({});
+	feed.unsupportedLookups.set([]);
+	storage = new Map();
+	vi.stubGlobal('window', {});
+	vi.stubGlobal('localStorage', {
+		getItem: (key: string) => storage.get(key) ?? null,
+		setItem: (key: string, value: string) => storage.set(key, value)
+	});
+});
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+});
+
+describe('races with headers', () => {
+	it('finds blocks competing for one height', async () => {
+		const { blockRaces, activeRaces } = await observe([block('a', 0), block('b', 20)], {
+			a: { height: 100, previousblockhash: 'p' },
+			b: { height: 100, previousblockhash: 'p' }
+		});
+
+		const [race] = get(blockRaces);
+		expect(race).toMatchObject({ height: 100, parent: 'p', winner: null, inferred: false });
+		expect(race.branches.map((branch) => branch.blocks[0].hash)).toEqual(['a', 'b']);
+		expect(get(activeRaces)).toEqual([race]);
+	});
+
+	it('decides the race once one branch is ahead, and logs the loser', async () => {
+		const { blockRaces, activeRaces, staleBlocks } = await observe(
+			[block('a', 0), block('b', 20), block('c', 600)],
+			{
+				a: { height: 100, previousblockhash: 'p' },
+				b: { height: 100, previousblockhash: 'p' },
+				c: { height: 101, previousblockhash: 'b' }
+			}
+		);
+
+		expect(get(blockRaces)).toMatchObject([{ height: 100, winner: 'b', resolvedAt: T0 + 600_000 }]);
+		expect(get(activeRaces)).toEqual([]);
+		const stale = [{ hash: 'a', height: 100, winner: 'b', first_seen: T0, race_seconds: 600, depth: 1 }];
+		expect(get(staleBlocks)).toEqual(stale);
+		expect(JSON.parse(storage.get(STORAGE_KEY)!)).toEqual(stale);
+	});
+
+	it('does not take consecutive blocks for a race, however close', async () => {
+		const { blockRaces } = await observe([block('a', 0), block('b', 2)], {
+			a: { height: 100, previousblockhash: 'p' },
+			b: { height: 101, previousblockhash: 'a' }
+		});
+
+		expect(get(blockRaces)).toEqual([]);
+	});
+});
+
+describe('races without headers', () => {
+	it('infers a race from close announcements, but leaves it unconfirmed', async () => {
+		const { blockRaces, activeRaces, staleBlocks } = await observe(
+			[block('a', 0, 3), block('b', 4, 8), block('c', 600)],
+			null
+		);
+
+		expect(get(blockRaces)).toMatchObject([
+			{ height: null, winner: 'b', next: { hash: 'c' }, resolvedAt: T0 + 600_000, inferred: true }
+		]);
+		expect(get(activeRaces)).toEqual([]);
+		expect(get(staleBlocks)).toEqual([]);
+		expect(storage.has(STORAGE_KEY)).toBe(false);
+	});
+
+	it('has no likely winner until another block arrives', async () => {
+		const { blockRaces } = await observe([block('a', 0, 3), block('b', 4, 8)], null);
+
+		expect(get(blockRaces)).toMatchObject([{ winner: null, next: null, inferred: true }]);
+	});
+
+	it('leaves announcements further apart than the race window alone', async () => {
+		const { RACE_WINDOW } = await import('./forks');
+		const { blockRaces } = await observe([block('a', 0), block('b', RACE_WINDOW / 1000 + 1)], null);
+
+		expect(get(blockRaces)).toEqual([]);
+	});
+});
+
+describe('stale-block log', () => {
+	it('drops inferred entries logged by earlier versions', async () => {
+		const confirmed = { hash: 'a', height: 100, winner: 'b', first_seen: T0, race_seconds: 600, depth: 1 };
+		const inferred = { ...confirmed, hash: 'x', height: null, inferred: true };
+		storage.set(STORAGE_KEY, JSON.stringify([confirmed, inferred]));
+
+		const { staleBlocks } = await observe([], {});
+
+		expect(get(staleBlocks)).toEqual([confirmed]);
+	});
+});
@@ -0,0 +1,404 @@
+/**
+ * Bitcoin Echo GUI — Competing Block Store
+ *
+ * Watches block announcements for races: two or more blocks competing for
+ * the same height, of which only one stays on the chain.
+ *
+ * Where the node can provide them, each announced block's header
+ * (getblockheader, looked up through the scheduler so only the leader tab
+ * asks) gives its height and parent. Competitors are then the
+ * blocks at one height, and the race is decided once one branch gets
+ * ahead - however many blocks deep it went.
+ *
+ * Observer nodes keep no headers. Then blocks announced within RACE_WINDOW
+ * of each other may be competing - or just two blocks found in quick
+ * succession, which nothing without headers can rule out. Those races are
+ * marked inferred and shown as unconfirmed, with the block most peers had
+ * announced when the next one arrived as the likely winner.
+ *
+ * Decided races between blocks with headers go into a stale-block log in
+ * localStorage (per connection profile), which outlives the node's
+ * 100-block announcement buffer. Inferred races never do.
+ */
+
+import { writable, derived, get } from 'svelte/store';
+import type { Readable } from 'svelte/store';
+import type { ObservedBlock } from '$lib/rpc/types';
+import { activeProfileId } from './connection';
+import { scheduler, observedBlocks, blockHeaders, unsupportedLookups } from './scheduler';
+import { tabs } from './tabs';
+import { isReplaying } from './capture';
+
+/**
+ * An announced block taking part in a race
+ */
+export interface RaceBlock {
+	hash: string;
+	first_seen: number; // ms since epoch
+	peer_count: number;
+}
+
+/**
+ * One competitor and the blocks built on it, lowest first
+ */
+export interface RaceBranch {
+	blocks: RaceBlock[];
+	depth: number; // Heights the branch spans
+}
+
+/**
+ * Blocks competing for one height
+ */
+export interface BlockRace {
+	height: number | null; // null when inferred
+	parent: string | null; // Common parent (known from headers)
+	branches: RaceBranch[]; // One per competitor, by first_seen
+	winner: string | null; // Winning competitor's hash (null while undecided)
+	next: RaceBlock | null; // Inferred races: the announcement that ended the race
+	started: number; // First competitor seen (ms since epoch)
+	resolvedAt: number | null;
+	inferred: boolean; // Guessed from timing alone: unconfirmed
+}
+
+/**
+ * A block that lost a race
+ */
+export interface StaleBlock {
+	hash: string;
+	height: number | null;
+	winner: string; // Competitor that stayed on the chain
+	first_seen: number; // ms since epoch
+	race_seconds: number; // First competitor seen to race decided
+	depth: number; // Blocks orphaned on its branch
+}
+
+interface HeaderLink {
+	height: number;
+	parent: string | null;
+}
+
+interface HeaderState {
+	links: Map<string, HeaderLink>;
+	missing: Set<string>; // Hashes the node had no header for
+	unsupported: boolean; // Node has no getblockheader (observer builds)
+}
+
+/**
+ * Announcements closer than this count as competing when there are no headers (ms)
+ */
+export const RACE_WINDOW = 10_000;
+
+/**
+ * Blocks tracked
+ */
+const MAX_TRACKED = 200;
+
+/**
+ * Stale blocks kept in the log
+ */
+const MAX_LOG = 100;
+
+/**
+ * LocalStorage key (suffixed for non-default profiles, as in sessionHistory)
+ */
+const STORAGE_KEY = 'bitcoin-echo-stale-blocks';
+const DEFAULT_PROFILE_ID = 'default';
+
+let profileId = DEFAULT_PROFILE_ID;
+let replaying = false;
+
+/**
+ * Blocks whose headers are looked up through the scheduler, and how to stop
+ */
+let watching = new Set<string>();
+let unwatch: (() => void) | null = null;
+
+const seenState = writable<Map<string, RaceBlock>>(new Map());
+
+const headerState: Readable<HeaderState> = derived(
+	[blockHeaders, unsupportedLookups],
+	([$headers, $unsupported]) => {
+		const links = new Map<string, HeaderLink>();
+		const missing = new Set<string>();
+		for (const [hash, header] of Object.entries($headers)) {
+			if (header) {
+				links.set(hash, { height: header.height, parent: header.previousblockhash ?? null });
+			} else {
+				// Not on this node (an observer, or a block it never fetched)
+				missing.add(hash);
+			}
+		}
+		return { links, missing, unsupported: $unsupported.includes('blockHeader') };
+	}
+);
+
+function storageKey(): string {
+	return profileId === DEFAULT_PROFILE_ID ? STORAGE_KEY : `${STORAGE_KEY}:${profileId}`;
+}
+
+function loadLog(): StaleBlock[] {
+	if (typeof window === 'undefined') return [];
+	try {
+		const stored = localStorage.getItem(storageKey());
+		if (!stored) return [];
+		// Earlier versions also logged inferred races, which may have been no fork at all
+		return (JSON.parse(stored) as (StaleBlock & { inferred?: boolean })[]).filter((entry) => !entry.inferred);
+	} catch {
+		return [];
+	}
+}
+
+function saveLog(log: StaleBlock[]): void {
+	if (typeof window === 'undefined' || !tabs.isLeader()) return;
+	try {
+		localStorage.setItem(storageKey(), JSON.stringify(log));
+	} catch {
+		// Storage full or unavailable; the log lasts until reload
+	}
+}
+
+const logState = writable<StaleBlock[]>(loadLog());
+
+function record(blocks: ObservedBlock[]): void {
+	seenState.update((seen) => {
+		const next = new Map(seen);
+		for (const block of blocks) {
+			const entry = next.get(block.hash);
+			next.set(block.hash, {
+				hash: block.hash,
+				first_seen: Math.min(block.first_seen, entry?.first_seen ?? Infinity),
+				peer_count: Math.max(block.peer_count, entry?.peer_count ?? 0)
+			});
+		}
+		// Forget the oldest once past the limit
+		const byAge = [...next].sort(([, a], [, b]) => b.first_seen - a.first_seen);
+		return new Map(byAge.slice(0, MAX_TRACKED));
+	});
+}
+
+/**
+ * Look up the header of every tracked block (and stop for those no longer tracked)
+ */
+function watchHeaders(seen: Map<string, RaceBlock>): void {
+	if (seen.size === watching.size && [...seen.keys()].every((hash) => watching.has(hash))) return;
+
+	// Register the new set before dropping the old, so headers still wanted aren't forgotten
+	const previous = unwatch;
+	watching = new Set(seen.keys());
+	unwatch = watching.size > 0 ? scheduler.lookup('blockHeader', [...watching]) : null;
+	previous?.();
+}
+
+function byFirstSeen(a: RaceBlock, b: RaceBlock): number {
+	return a.first_seen - b.first_seen;
+}
+
+/**
+ * The block's ancestor at a height, if every header on the way is known
+ */
+function ancestorAt(hash: string, height: number, links: Map<string, HeaderLink>): string | null {
+	let current: string | null = hash;
+	while (current) {
+		const link = links.get(current);
+		if (!link || link.height < height) return null;
+		if (link.height === height) return current;
+		current = link.parent;
+	}
+	return null;
+}
+
+/**
+ * Races between blocks whose headers are known
+ */
+function headerRaces(tracked: RaceBlock[], links: Map<string, HeaderLink>): BlockRace[] {
+	const blocks = tracked.filter((block) => links.has(block.hash));
+	const byHeight = new Map<number, RaceBlock[]>();
+	for (const block of blocks) {
+		const { height } = links.get(block.hash)!;
+		byHeight.set(height, [...(byHeight.get(height) ?? []), block]);
+	}
+	const heightOf = (block: RaceBlock) => links.get(block.hash)!.height;
+
+	const races: BlockRace[] = [];
+	for (const height of [...byHeight.keys()].sort((a, b) => a - b)) {
+		const competitors = byHeight.get(height)!.sort(byFirstSeen);
+		if (competitors.length < 2) continue;
+
+		// Blocks on different branches of a lower race are that race going deeper, not a new one
+		const continues = races.some((race) => {
+			const roots = new Set(competitors.map((c) => ancestorAt(c.hash, race.height!, links)));
+			return race.branches.filter((b) => roots.has(b.blocks[0].hash)).length > 1;
+		});
+		if (continues) continue;
+
+		const branches = competitors.map((competitor) => ({ blocks: [competitor], depth: 1 }));
+		for (const block of blocks) {
+			if (heightOf(block) <= height) continue;
+			const root = ancestorAt(block.hash, height, links);
+			branches.find((b) => b.blocks[0].hash === root)?.blocks.push(block);
+		}
+		for (const branch of branches) {
+			branch.blocks.sort((a, b) => heightOf(a) - heightOf(b) || byFirstSeen(a, b));
+			branch.depth = heightOf(branch.blocks[branch.blocks.length - 1]) - height + 1;
+		}
+
+		// Decided once one branch is strictly ahead of all the others
+		const [leader, runnerUp] = [...branches].sort((a, b) => b.depth - a.depth);
+		let winner: string | null = null;
+		let resolvedAt: number | null = null;
+		if (leader.depth > runnerUp.depth) {
+			winner = leader.blocks[0].hash;
+			const ahead = leader.blocks.filter((b) => heightOf(b) - height + 1 > runnerUp.depth);
+			resolvedAt = Math.min(...ahead.map((b) => b.first_seen));
+		}
+
+		races.push({
+			height,
+			parent: links.get(competitors[0].hash)!.parent,
+			branches,
+			winner,
+			next: null,
+			started: competitors[0].first_seen,
+			resolvedAt,
+			inferred: false
+		});
+	}
+	return races;
+}
+
+/**
+ * Races guessed from announcement timing, for blocks without headers
+ */
+function inferredRaces(blocks: RaceBlock[], all: RaceBlock[]): BlockRace[] {
+	const races: BlockRace[] = [];
+	const sorted = [...blocks].sort(byFirstSeen);
+
+	let group: RaceBlock[] = [];
+	const close = () => {
+		if (group.length < 2) return;
+		const last = group[group.length - 1];
+		const next = all.filter((b) => b.first_seen > last.first_seen + RACE_WINDOW).sort(byFirstSeen)[0] ?? null;
+		// Peers settle on the winner, so it's the one most of them announced
+		const winner = next ? [...group].sort((a, b) => b.peer_count - a.peer_count || byFirstSeen(a, b))[0] : null;
+		races.push({
+			height: null,
+			parent: null,
+			branches: group.map((block) => ({ blocks: [block], depth: 1 })),
+			winner: winner?.hash ?? null,
+			next,
+			started: group[0].first_seen,
+			resolvedAt: next?.first_seen ?? null,
+			inferred: true
+		});
+	};
+
+	for (const block of sorted) {
+		const previous = group[group.length - 1];
+		if (previous && block.first_seen - previous.first_seen > RACE_WINDOW) {
+			close();
+			group = [];
+		}
+		group.push(block);
+	}
+	close();
+	return races;
+}
+
+/**
+ * Derived store: Races among tracked blocks, newest first
+ */
+export const blockRaces: Readable<BlockRace[]> = derived(
+	[seenState, headerState, isReplaying],
+	([$seen, $headers, $replaying]) => {
+		const blocks = [...$seen.values()];
+		// Still waiting on a header: neither kind of race yet
+		const headerless = blocks.filter(
+			(b) => !$headers.links.has(b.hash) && ($headers.unsupported || $replaying || $headers.missing.has(b.hash))
+		);
+		return [...headerRaces(blocks, $headers.links), ...inferredRaces(headerless, blocks)].sort(
+			(a, b) => b.started - a.started
+		);
+	}
+);
+
+/**
+ * Derived store: Confirmed races still undecided
+ */
+export const activeRaces: Readable<BlockRace[]> = derived(blockRaces, ($races) =>
+	$races.filter((race) => race.winner === null && !race.inferred)
+);
+
+/**
+ * Derived store: Can heights and parents be known (the node serves headers)?
+ */
+export const headersAvailable: Readable<boolean> = derived(
+	[headerState, isReplaying],
+	([$headers, $replaying]) => !$headers.unsupported && !$replaying
+);
+
+/**
+ * Log the losers of newly decided races (confirmed by headers only)
+ */
+function logStale(races: BlockRace[]): void {
+	const logged = new Set(get(logState).map((entry) => entry.hash));
+	const entries: StaleBlock[] = [];
+	for (const race of races) {
+		if (race.inferred || race.winner === null || race.resolvedAt === null) continue;
+		for (const branch of race.branches) {
+			const [block] = branch.blocks;
+			if (block.hash === race.winner || logged.has(block.hash)) continue;
+			entries.push({
+				hash: block.hash,
+				height: race.height,
+				winner: race.winner,
+				first_seen: block.first_seen,
+				race_seconds: (race.resolvedAt - race.started) / 1000,
+				depth: branch.depth
+			});
+		}
+	}
+	if (entries.length === 0) return;
+
+	entries.sort((a, b) => b.first_seen - a.first_seen);
+	logState.update((log) => [...entries, ...log].slice(0, MAX_LOG));
+	saveLog(get(logState));
+}
+
+/**
+ * Start over (another node, or a replay starting / ending)
+ */
+function reset(): void {
+	seenState.set(new Map());
+	logState.set(loadLog());
+}
+
+if (typeof window !== 'undefined') {
+	activeProfileId.subscribe((id) => {
+		if (id === profileId) return;
+		profileId = id;
+		reset();
+	});
+
+	isReplaying.subscribe((value) => {
+		if (value === replaying) return;
+		replaying = value;
+		reset();
+	});
+
+	observedBlocks.subscribe((data) => {
+		if (data) record(data.blocks);
+	});
+
+	seenState.subscribe(watchHeaders);
+
+	blockRaces.subscribe(logStale);
+}
+
+export const staleBlocks = {
+	subscribe: logState.subscribe,
+
+	clear(): void {
+		logState.set([]);
+		saveLog([]);
+	}
+};
@@ -0,0 +1,77 @@
+/**
+ * Bitcoin Echo GUI — Mempool History Store
+ *
+ * Samples the scheduler's getmempoolinfo results into a time series, so
+ * the Mempool page can chart growth and drain. Sampling starts the first
+ * time the Mempool page loads and continues whenever something requires
+ * 'mempoolInfo'; the series lives for the page session.
+ */
+
+import { writable, derived } from 'svelte/store';
+import type { Readable } from 'svelte/store';
+import type { MempoolInfo } from '$lib/rpc/types';
+import { mempoolInfo } from './scheduler';
+
+/**
+ * One getmempoolinfo reading
+ */
+export interface MempoolSample {
+	time: number; // ms since epoch
+	size: number; // Transactions
+	bytes: number; // Sum of vsizes
+	usage: number; // Memory, in bytes
+	minFee: number; // mempoolminfee, BTC/kvB
+}
+
+/**
+ * Samples kept (an hour at the 5s poll interval)
+ */
+const MAX_SAMPLES = 720;
+
+const historyState = writable<MempoolSample[]>([]);
+
+let lastInfo: MempoolInfo | null = null;
+
+// Each poll publishes a new object; the store also re-emits the same one
+// whenever other scheduler state changes, which isn't a new reading
+mempoolInfo.subscribe(($info) => {
+	if (!$info || $info === lastInfo) return;
+	lastInfo = $info;
+	historyState.update((samples) =>
+		[
+			...samples,
+			{
+				time: Date.now(),
+				size: $info.size,
+				bytes: $info.bytes,
+				usage: $info.usage,
+				minFee: $info.mempoolminfee
+			}
+		].slice(-MAX_SAMPLES)
+	);
+});
+
+export const mempoolHistory = {
+	subscribe: historyState.subscribe,
+
+	clear(): void {
+		historyState.set([]);
+	}
+};
+
+/**
+ * Derived store: Change in transaction count over the sampled window
+ */
+export const mempoolGrowth: Readable<{ size: number; bytes: number; seconds: number } | null> = derived(
+	historyState,
+	($samples) => {
+		if ($samples.length < 2) return null;
+		const first = $samples[0];
+		const last = $samples[$samples.length - 1];
+		return {
+			size: last.size - first.size,
+			bytes: last.bytes - first.bytes,
+			seconds: (last.time - first.time) / 1000
+		};
+	}
+);
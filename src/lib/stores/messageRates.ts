@@ -0,0 +1,292 @@
+/**
+ * Bitcoin Echo GUI — Message Rate Store
+ *
+ * Turns the cumulative messages_received counters from getobserverstats
+ * into per-type rates (messages/second), one sample per stats update.
+ * Raw samples cover the last hour; older ones are folded into per-minute
+ * averages kept for a day. Both are saved to localStorage per connection
+ * profile once a minute and when the page goes away, so charts survive a
+ * reload.
+ *
+ * When uptime_seconds goes backwards (or any counter drops) the node has
+ * restarted: the counters start again from zero, so that update is used
+ * as a new baseline instead of producing a huge negative rate.
+ *
+ * A replayed capture (see capture.ts) gets a series of its own, timed by
+ * when its frames were recorded rather than when they're shown.
+ */
+
+import { writable, derived, get } from 'svelte/store';
+import type { Readable } from 'svelte/store';
+import type { ObserverStats } from '$lib/rpc/types';
+import { activeProfileId, observerStats } from './connection';
+import { scheduler } from './scheduler';
+import { tabs } from './tabs';
+import { isReplaying } from './capture';
+
+/**
+ * Message types, in the order rates are stored
+ */
+export const MESSAGE_TYPES = [
+	'inv',
+	'tx',
+	'getdata',
+	'block',
+	'headers',
+	'getheaders',
+	'getblocks',
+	'addr',
+	'ping',
+	'pong',
+	'version',
+	'verack',
+	'other'
+] as const satisfies readonly (keyof ObserverStats['messages_received'])[];
+
+export type MessageType = (typeof MESSAGE_TYPES)[number];
+
+/**
+ * Rates over the interval ending at `time`
+ */
+export interface RateSample {
+	time: number; // ms since epoch
+	rates: number[]; // msgs/sec, indexed like MESSAGE_TYPES
+	count?: number; // Samples averaged into a minute bucket
+}
+
+export type RateWindow = '5m' | '1h' | '24h';
+
+/**
+ * Chart windows
+ */
+export const RATE_WINDOWS: Record<RateWindow, { label: string; ms: number }> = {
+	'5m': { label: '5 min', ms: 5 * 60_000 },
+	'1h': { label: '1 hour', ms: 60 * 60_000 },
+	'24h': { label: '24 hours', ms: 24 * 60 * 60_000 }
+};
+
+interface MessageRateState {
+	recent: RateSample[]; // Every update, last hour
+	minutes: RateSample[]; // Per-minute averages, last day
+	lastReset: number | null; // When a node restart was last detected (ms since epoch)
+}
+
+/**
+ * LocalStorage key (suffixed for non-default profiles, as in sessionHistory)
+ */
+const STORAGE_KEY = 'bitcoin-echo-message-rates';
+const DEFAULT_PROFILE_ID = 'default';
+
+const RECENT_MS = RATE_WINDOWS['1h'].ms;
+const MINUTES_MS = RATE_WINDOWS['24h'].ms;
+const MINUTE_MS = 60_000;
+
+/**
+ * How often the series is saved (ms)
+ */
+const SAVE_INTERVAL = 60_000;
+
+/**
+ * Points drawn per chart (longer windows are averaged down to this)
+ */
+const MAX_CHART_POINTS = 150;
+
+let profileId = DEFAULT_PROFILE_ID;
+let replaying = false;
+let lastStats: ObserverStats | null = null;
+
+/**
+ * Counters from the previous update, to take deltas from
+ */
+let baseline: { time: number; uptime: number; counters: number[] } | null = null;
+
+function storageKey(): string {
+	return profileId === DEFAULT_PROFILE_ID ? STORAGE_KEY : `${STORAGE_KEY}:${profileId}`;
+}
+
+function emptyState(): MessageRateState {
+	return { recent: [], minutes: [], lastReset: null };
+}
+
+function loadState(): MessageRateState {
+	if (typeof window === 'undefined') return emptyState();
+	try {
+		const stored = localStorage.getItem(storageKey());
+		if (!stored) return emptyState();
+		const parsed = JSON.parse(stored) as MessageRateState;
+		// Saved by a build with different message types: start over
+		const samples = [...parsed.recent, ...parsed.minutes];
+		if (samples.some((s) => s.rates.length !== MESSAGE_TYPES.length)) return emptyState();
+		return parsed;
+	} catch {
+		return emptyState();
+	}
+}
+
+function saveState(state: MessageRateState): void {
+	if (typeof window === 'undefined' || !tabs.isLeader()) return;
+	try {
+		localStorage.setItem(storageKey(), JSON.stringify(state));
+	} catch {
+		// Storage full or unavailable; the series lasts until reload
+	}
+}
+
+const rateState = writable<MessageRateState>(loadState());
+
+/**
+ * Save the node's series (a replay's isn't kept)
+ */
+function persist(): void {
+	if (!replaying) saveState(get(rateState));
+}
+
+/**
+ * Average samples into one, weighting minute buckets by their sample count
+ */
+function average(samples: RateSample[], time: number): RateSample {
+	const count = samples.reduce((sum, s) => sum + (s.count ?? 1), 0);
+	const rates = MESSAGE_TYPES.map(
+		(_, i) => samples.reduce((sum, s) => sum + s.rates[i] * (s.count ?? 1), 0) / count
+	);
+	return { time, rates, count };
+}
+
+/**
+ * Fold raw samples older than an hour into minute averages
+ */
+function rollUp(state: MessageRateState, now: number): MessageRateState {
+	const cutoff = now - RECENT_MS;
+	const expired = state.recent.filter((s) => s.time < cutoff);
+	if (expired.length === 0) return state;
+
+	const byMinute = new Map<number, RateSample[]>();
+	for (const sample of expired) {
+		const minute = Math.floor(sample.time / MINUTE_MS) * MINUTE_MS;
+		byMinute.set(minute, [...(byMinute.get(minute) ?? []), sample]);
+	}
+
+	const minutes = [...state.minutes];
+	for (const [minute, samples] of byMinute) {
+		const time = minute + MINUTE_MS;
+		// The rest of a minute already folded on an earlier update
+		const last = minutes[minutes.length - 1];
+		if (last?.time === time) minutes[minutes.length - 1] = average([last, ...samples], time);
+		else minutes.push(average(samples, time));
+	}
+
+	return {
+		...state,
+		recent: state.recent.filter((s) => s.time >= cutoff),
+		minutes: minutes.filter((s) => s.time >= now - MINUTES_MS)
+	};
+}
+
+function record(stats: ObserverStats): void {
+	// The store re-emits the same stats when other connection state changes
+	if (stats === lastStats || stats.uptime_seconds === baseline?.uptime) return;
+	lastStats = stats;
+
+	const now = scheduler.now();
+	const counters = MESSAGE_TYPES.map((type) => stats.messages_received[type] ?? 0);
+	const previous = baseline;
+	baseline = { time: now, uptime: stats.uptime_seconds, counters };
+	if (!previous) return;
+
+	// Seeking back in a replay: start its series over
+	if (replaying && now < previous.time) {
+		rateState.set(emptyState());
+		return;
+	}
+
+	const restarted =
+		stats.uptime_seconds < previous.uptime || counters.some((count, i) => count < previous.counters[i]);
+	if (restarted) {
+		rateState.update((s) => ({ ...s, lastReset: now }));
+		return;
+	}
+
+	const seconds = (now - previous.time) / 1000;
+	if (seconds <= 0) return;
+	const sample = { time: now, rates: counters.map((count, i) => (count - previous.counters[i]) / seconds) };
+
+	rateState.update((s) => rollUp({ ...s, recent: [...s.recent, sample] }, now));
+}
+
+if (typeof window !== 'undefined') {
+	activeProfileId.subscribe((id) => {
+		if (id === profileId) return;
+		persist();
+		profileId = id;
+		baseline = null;
+		lastStats = null;
+		rateState.set(loadState());
+	});
+
+	observerStats.subscribe((stats) => {
+		if (stats) record(stats);
+	});
+
+	// A replayed capture gets a series of its own; the node's comes back afterwards
+	isReplaying.subscribe((value) => {
+		if (value === replaying) return;
+		persist();
+		replaying = value;
+		baseline = null;
+		lastStats = null;
+		rateState.set(value ? emptyState() : loadState());
+	});
+
+	// Saving ~100 kB every few seconds would be wasteful; once a minute is plenty
+	setInterval(persist, SAVE_INTERVAL);
+	window.addEventListener('pagehide', persist);
+}
+
+export const messageRates = {
+	subscribe: rateState.subscribe,
+
+	clear(): void {
+		rateState.set(emptyState());
+		persist();
+	}
+};
+
+/**
+ * Average neighbouring samples until at most `points` remain
+ */
+function downsample(samples: RateSample[], points: number): RateSample[] {
+	if (samples.length <= points) return samples;
+	const size = Math.ceil(samples.length / points);
+	const result: RateSample[] = [];
+	for (let i = 0; i < samples.length; i += size) {
+		const chunk = samples.slice(i, i + size);
+		result.push(average(chunk, chunk[chunk.length - 1].time));
+	}
+	return result;
+}
+
+/**
+ * Samples covering a window, oldest first, ready to chart
+ */
+export function ratesInWindow(span: RateWindow): Readable<RateSample[]> {
+	return derived(rateState, ($state) => {
+		const since = scheduler.now() - RATE_WINDOWS[span].ms;
+		const samples =
+			span === '24h'
+				? [...$state.minutes, ...$state.recent].filter((s) => s.time >= since)
+				: $state.recent.filter((s) => s.time >= since);
+		return downsample(samples, MAX_CHART_POINTS);
+	});
+}
+
+/**
+ * Derived store: Latest rate of each message type (msgs/sec)
+ */
+export const currentRates: Readable<Record<MessageType, number> | null> = derived(rateState, ($state) => {
+	const latest = $state.recent[$state.recent.length - 1];
+	if (!latest) return null;
+	return Object.fromEntries(MESSAGE_TYPES.map((type, i) => [type, latest.rates[i]])) as Record<
+		MessageType,
+		number
+	>;
+});
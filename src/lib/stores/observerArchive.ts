@@ -0,0 +1,360 @@
+/**
+ * Bitcoin Echo GUI — Observer Archive Store
+ *
+ * The node only remembers its last 100 block and transaction
+ * announcements. This merges every heartbeat into an IndexedDB archive
+ * keyed by hash / txid, so observer sessions can be browsed, filtered by
+ * time and searched long after the node has forgotten them (and across
+ * reloads).
+ *
+ * Each connection profile gets its own database, like session history.
+ * Only the leader tab writes; follower tabs see the same feed.
+ */
+
+import { writable, derived } from 'svelte/store';
+import type { Readable } from 'svelte/store';
+import type { ObservedBlock, ObservedTx } from '$lib/rpc/types';
+import { activeProfileId } from './connection';
+import { scheduler, observedBlocks, observedTxs } from './scheduler';
+import { tabs } from './tabs';
+
+/**
+ * An archived block announcement
+ */
+export interface ArchivedBlock {
+	hash: string;
+	first_seen: number; // Earliest sighting (ms since epoch)
+	peer_count: number; // Most peers seen announcing it
+	last_seen: number; // Latest heartbeat that included it (ms since epoch)
+}
+
+/**
+ * An archived transaction announcement
+ */
+export interface ArchivedTx {
+	txid: string;
+	first_seen: number; // Earliest sighting (ms since epoch)
+}
+
+export type ArchiveKind = 'blocks' | 'txs';
+
+/**
+ * What to look up in the archive
+ */
+export interface ArchiveQuery {
+	from?: number; // Seen at or after (ms since epoch)
+	to?: number; // Seen at or before (ms since epoch)
+	search?: string; // Hash / txid prefix (lowercase hex)
+	offset?: number;
+	limit: number;
+}
+
+/**
+ * Archive size, for the history page header
+ */
+export interface ArchiveSummary {
+	blocks: number;
+	txs: number;
+	oldest: number | null; // Earliest first_seen across both (ms since epoch)
+}
+
+/**
+ * Database name; non-default profiles get a suffix (see storageKey in sessionHistory)
+ */
+const DB_NAME = 'bitcoin-echo-observer-archive';
+const DB_VERSION = 1;
+
+const DEFAULT_PROFILE_ID = 'default';
+
+/**
+ * Announcements older than this are pruned when the archive opens (30 days)
+ */
+const RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+let profileId = DEFAULT_PROFILE_ID;
+let database: Promise<IDBDatabase> | null = null;
+
+/**
+ * What each record looked like when last written, to skip unchanged
+ * entries (each heartbeat repeats the node's whole ring buffer)
+ */
+const writtenBlocks = new Map<string, number>(); // hash -> peer_count
+const writtenTxs = new Set<string>();
+
+/**
+ * Past this many remembered ids the cache starts over (it only saves rereads)
+ */
+const MAX_WRITTEN = 5000;
+
+/**
+ * Bumped after each write, so open history views can refresh
+ */
+const revisionState = writable(0);
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+	return new Promise((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+}
+
+/**
+ * Resolve when a transaction commits
+ */
+function committed(transaction: IDBTransaction): Promise<void> {
+	return new Promise((resolve, reject) => {
+		transaction.oncomplete = () => resolve();
+		transaction.onerror = () => reject(transaction.error);
+		transaction.onabort = () => reject(transaction.error ?? new Error('Archive transaction aborted'));
+	});
+}
+
+function databaseName(): string {
+	return profileId === DEFAULT_PROFILE_ID ? DB_NAME : `${DB_NAME}:${profileId}`;
+}
+
+/**
+ * Open (and on first use, create) the current profile's archive
+ */
+function openDatabase(): Promise<IDBDatabase> {
+	if (database) return database;
+
+	const opening = new Promise<IDBDatabase>((resolve, reject) => {
+		const request = indexedDB.open(databaseName(), DB_VERSION);
+		request.onupgradeneeded = () => {
+			const db = request.result;
+			db.createObjectStore('blocks', { keyPath: 'hash' }).createIndex('first_seen', 'first_seen');
+			db.createObjectStore('txs', { keyPath: 'txid' }).createIndex('first_seen', 'first_seen');
+		};
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+		request.onblocked = () => reject(new Error('Observer archive is open in an older tab'));
+	}).then(async (db) => {
+		await prune(db);
+		return db;
+	});
+
+	database = opening;
+	// A failed open (private browsing, storage disabled) is retried on next use
+	opening.catch(() => {
+		if (database === opening) database = null;
+	});
+	return opening;
+}
+
+/**
+ * Drop announcements past the retention window
+ */
+async function prune(db: IDBDatabase): Promise<void> {
+	const transaction = db.transaction(['blocks', 'txs'], 'readwrite');
+	const cutoff = IDBKeyRange.upperBound(Date.now() - RETENTION_MS, true);
+	for (const kind of ['blocks', 'txs'] as const) {
+		const request = transaction.objectStore(kind).index('first_seen').openCursor(cutoff);
+		request.onsuccess = () => {
+			const cursor = request.result;
+			if (!cursor) return;
+			cursor.delete();
+			cursor.continue();
+		};
+	}
+	await committed(transaction);
+}
+
+/**
+ * Merge a heartbeat's blocks: earliest first_seen, most peers
+ */
+async function mergeBlocks(blocks: ObservedBlock[]): Promise<boolean> {
+	if (writtenBlocks.size > MAX_WRITTEN) writtenBlocks.clear();
+	const changed = blocks.filter((block) => writtenBlocks.get(block.hash) !== block.peer_count);
+	if (changed.length === 0) return false;
+
+	const db = await openDatabase();
+	const transaction = db.transaction('blocks', 'readwrite');
+	const store = transaction.objectStore('blocks');
+	const now = Date.now();
+
+	for (const block of changed) {
+		const request = store.get(block.hash);
+		request.onsuccess = () => {
+			const existing = request.result as ArchivedBlock | undefined;
+			const merged: ArchivedBlock = {
+				hash: block.hash,
+				first_seen: Math.min(block.first_seen, existing?.first_seen ?? Infinity),
+				peer_count: Math.max(block.peer_count, existing?.peer_count ?? 0),
+				last_seen: now
+			};
+			store.put(merged);
+			writtenBlocks.set(block.hash, merged.peer_count);
+		};
+	}
+	await committed(transaction);
+	return true;
+}
+
+/**
+ * Merge a heartbeat's transactions: earliest first_seen
+ */
+async function mergeTxs(txs: ObservedTx[]): Promise<boolean> {
+	if (writtenTxs.size > MAX_WRITTEN) writtenTxs.clear();
+	const fresh = txs.filter((tx) => !writtenTxs.has(tx.txid));
+	if (fresh.length === 0) return false;
+
+	const db = await openDatabase();
+	const transaction = db.transaction('txs', 'readwrite');
+	const store = transaction.objectStore('txs');
+
+	for (const tx of fresh) {
+		const request = store.get(tx.txid);
+		request.onsuccess = () => {
+			const existing = request.result as ArchivedTx | undefined;
+			if (!existing || tx.first_seen < existing.first_seen) {
+				store.put({ txid: tx.txid, first_seen: tx.first_seen } satisfies ArchivedTx);
+			}
+			writtenTxs.add(tx.txid);
+		};
+	}
+	await committed(transaction);
+	return true;
+}
+
+/**
+ * Archive a heartbeat, logging rather than throwing (archiving is best-effort)
+ */
+function archive(write: () => Promise<boolean>): void {
+	if (typeof indexedDB === 'undefined' || !tabs.isLeader()) return;
+	write()
+		.then((changed) => {
+			if (changed) revisionState.update((n) => n + 1);
+		})
+		.catch((error) => console.warn('Observer archive: write failed:', error));
+}
+
+if (typeof window !== 'undefined') {
+	activeProfileId.subscribe((id) => {
+		if (id === profileId) return;
+		profileId = id;
+		database?.then((db) => db.close()).catch(() => {});
+		database = null;
+		writtenBlocks.clear();
+		writtenTxs.clear();
+		revisionState.update((n) => n + 1);
+	});
+
+	observedBlocks.subscribe((data) => {
+		if (data) archive(() => mergeBlocks(data.blocks));
+	});
+	observedTxs.subscribe((data) => {
+		if (data) archive(() => mergeTxs(data.transactions));
+	});
+}
+
+export const observerArchive = {
+	/**
+	 * Keep announcements flowing while the app is open (not just on the
+	 * Observer page), so the archive has no gaps
+	 *
+	 * @returns Stop function
+	 */
+	start(): () => void {
+		return scheduler.require(['observedBlocks', 'observedTxs']);
+	},
+
+	/**
+	 * Announcements in a time window, newest first
+	 *
+	 * A search prefix looks up by key, then applies the window; without one,
+	 * the window is walked through the first_seen index.
+	 */
+	async query<K extends ArchiveKind>(
+		kind: K,
+		query: ArchiveQuery
+	): Promise<{ items: (K extends 'blocks' ? ArchivedBlock : ArchivedTx)[]; total: number }> {
+		type Item = K extends 'blocks' ? ArchivedBlock : ArchivedTx;
+		const db = await openDatabase();
+		const store = db.transaction(kind, 'readonly').objectStore(kind);
+		const from = query.from ?? 0;
+		const to = query.to ?? Number.MAX_SAFE_INTEGER;
+		const offset = query.offset ?? 0;
+
+		if (query.search) {
+			const prefix = query.search.toLowerCase();
+			const matches = ((await settle(store.getAll(IDBKeyRange.bound(prefix, `${prefix}\uffff`)))) as Item[])
+				.filter((item) => item.first_seen >= from && item.first_seen <= to)
+				.sort((a, b) => b.first_seen - a.first_seen);
+			return { items: matches.slice(offset, offset + query.limit), total: matches.length };
+		}
+
+		const index = store.index('first_seen');
+		const range = IDBKeyRange.bound(from, to);
+		const total = await settle(index.count(range));
+		const items: Item[] = [];
+
+		await new Promise<void>((resolve, reject) => {
+			let skipped = offset === 0;
+			const request = index.openCursor(range, 'prev');
+			request.onerror = () => reject(request.error);
+			request.onsuccess = () => {
+				const cursor = request.result;
+				if (!cursor || items.length >= query.limit) return resolve();
+				if (!skipped) {
+					skipped = true;
+					cursor.advance(offset);
+					return;
+				}
+				items.push(cursor.value as Item);
+				cursor.continue();
+			};
+		});
+
+		return { items, total };
+	},
+
+	/**
+	 * How much is archived
+	 */
+	async summary(): Promise<ArchiveSummary> {
+		const db = await openDatabase();
+		const transaction = db.transaction(['blocks', 'txs'], 'readonly');
+		const oldest = async (kind: ArchiveKind) => {
+			const cursor = await settle(transaction.objectStore(kind).index('first_seen').openCursor());
+			return (cursor?.value as ArchivedBlock | ArchivedTx | undefined)?.first_seen ?? null;
+		};
+		const [blocks, txs, oldestBlock, oldestTx] = await Promise.all([
+			settle(transaction.objectStore('blocks').count()),
+			settle(transaction.objectStore('txs').count()),
+			oldest('blocks'),
+			oldest('txs')
+		]);
+		const oldestSeen = [oldestBlock, oldestTx].filter((t): t is number => t !== null);
+		return { blocks, txs, oldest: oldestSeen.length > 0 ? Math.min(...oldestSeen) : null };
+	},
+
+	/**
+	 * Forget everything archived for the current profile
+	 */
+	async clear(): Promise<void> {
+		const db = await openDatabase();
+		const transaction = db.transaction(['blocks', 'txs'], 'readwrite');
+		transaction.objectStore('blocks').clear();
+		transaction.objectStore('txs').clear();
+		await committed(transaction);
+		writtenBlocks.clear();
+		writtenTxs.clear();
+		revisionState.update((n) => n + 1);
+	}
+};
+
+/**
+ * Derived store: Changes whenever the archive is written or switches profile
+ */
+export const archiveRevision: Readable<number> = derived(revisionState, ($revision) => $revision);
+
+/**
+ * Whether this browser can keep an archive (IndexedDB may be disabled)
+ */
+export function isArchiveAvailable(): boolean {
+	return typeof indexedDB !== 'undefined';
+}
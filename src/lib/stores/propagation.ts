@@ -0,0 +1,199 @@
+/**
+ * Bitcoin Echo GUI — Block Propagation Store
+ *
+ * Follows how many peers have announced each observed block, heartbeat by
+ * heartbeat (or event by event while push is live), to estimate how long
+ * a block takes to reach half and most of our peers. Samples are as fine
+ * as the updates: about 5 seconds when polling.
+ *
+ * Tracking starts when this module is first loaded (the Observer page)
+ * and lasts for the page session. While a capture is replayed, samples are
+ * timed by the frame they came from rather than the wall clock.
+ */
+
+import { writable, derived, get } from 'svelte/store';
+import type { Readable } from 'svelte/store';
+import type { ObservedBlock } from '$lib/rpc/types';
+import { observerStats } from './connection';
+import { scheduler, observedBlocks } from './scheduler';
+import { isReplaying } from './capture';
+
+/**
+ * One reading of a block's announcement count
+ */
+export interface PropagationSample {
+	time: number; // ms since epoch
+	peers: number; // Peers that have announced the block
+	connected: number; // Peers connected at the time
+}
+
+/**
+ * Time for a block to reach a share of our peers
+ */
+export interface PropagationEstimate {
+	seconds: number;
+	upperBound: boolean; // Already reached when first sampled: took at most this long
+}
+
+/**
+ * A tracked block with its estimates
+ */
+export interface BlockPropagation {
+	hash: string;
+	first_seen: number; // ms since epoch
+	samples: PropagationSample[];
+	peers: number; // Latest announcement count
+	connected: number; // Latest connected peer count
+	toHalf: PropagationEstimate | null; // null until reached
+	toMost: PropagationEstimate | null;
+	slow: boolean;
+}
+
+/**
+ * Time between consecutive blocks' first sightings
+ */
+export interface BlockInterval {
+	hash: string; // The later block
+	seconds: number;
+}
+
+/**
+ * Shares of connected peers the estimates are for
+ */
+export const HALF_SHARE = 0.5;
+export const MOST_SHARE = 0.9;
+
+/**
+ * Block target spacing (seconds)
+ */
+export const TARGET_INTERVAL = 600;
+
+/**
+ * Blocks tracked
+ */
+const MAX_TRACKED = 50;
+
+/**
+ * A block is slow when reaching half its peers took this many times the
+ * median, and at least SLOW_FLOOR seconds (below that it's heartbeat noise)
+ */
+const SLOW_FACTOR = 2;
+const SLOW_FLOOR = 10;
+
+/**
+ * Measured blocks needed before any are called slow
+ */
+const MIN_FOR_MEDIAN = 3;
+
+const trackedState = writable<Map<string, { first_seen: number; samples: PropagationSample[] }>>(new Map());
+
+function record(blocks: ObservedBlock[]): void {
+	const connected = get(observerStats)?.peer_count ?? 0;
+	const now = scheduler.now();
+	// Replayed first_seen values are shifted to the present (see capture.ts); shift them back
+	const shift = Date.now() - now;
+
+	trackedState.update((tracked) => {
+		// Seeking back in a replay: the samples taken are from the replay's future
+		const seekedBack =
+			get(isReplaying) && [...tracked.values()].some((entry) => entry.samples[entry.samples.length - 1].time > now);
+		const next = seekedBack ? new Map() : new Map(tracked);
+		for (const block of blocks) {
+			const entry = next.get(block.hash);
+			const last = entry?.samples[entry.samples.length - 1];
+			if (last && last.peers === block.peer_count) continue;
+			const sample = { time: now, peers: block.peer_count, connected };
+			next.set(block.hash, {
+				// Fixed once set, so later readings can't move it
+				first_seen: entry?.first_seen ?? block.first_seen - shift,
+				samples: [...(entry?.samples ?? []), sample]
+			});
+		}
+		// Forget the oldest once past the limit
+		const byAge = [...next].sort(([, a], [, b]) => b.first_seen - a.first_seen);
+		return new Map(byAge.slice(0, MAX_TRACKED));
+	});
+}
+
+observedBlocks.subscribe((data) => {
+	if (data) record(data.blocks);
+});
+
+// Starting or leaving a replay (see capture.ts) starts tracking afresh
+isReplaying.subscribe(() => trackedState.set(new Map()));
+
+/**
+ * When a block first reached a share of the peers connected at the time
+ */
+function estimate(first_seen: number, samples: PropagationSample[], share: number): PropagationEstimate | null {
+	const index = samples.findIndex((s) => s.connected > 0 && s.peers >= Math.ceil(s.connected * share));
+	if (index === -1) return null;
+	return {
+		seconds: Math.max(0, (samples[index].time - first_seen) / 1000),
+		upperBound: index === 0
+	};
+}
+
+function median(values: number[]): number {
+	const sorted = [...values].sort((a, b) => a - b);
+	const mid = Math.floor(sorted.length / 2);
+	return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Derived store: Tracked blocks, newest first, with propagation estimates
+ */
+export const blockPropagation: Readable<BlockPropagation[]> = derived(trackedState, ($tracked) => {
+	const blocks = [...$tracked]
+		.map(([hash, { first_seen, samples }]) => {
+			const latest = samples[samples.length - 1];
+			return {
+				hash,
+				first_seen,
+				samples,
+				peers: latest.peers,
+				connected: latest.connected,
+				toHalf: estimate(first_seen, samples, HALF_SHARE),
+				toMost: estimate(first_seen, samples, MOST_SHARE),
+				slow: false
+			};
+		})
+		.sort((a, b) => b.first_seen - a.first_seen);
+
+	// Only exact measurements say what normal looks like
+	const measured = blocks.filter((b) => b.toHalf && !b.toHalf.upperBound).map((b) => b.toHalf!.seconds);
+	if (measured.length >= MIN_FOR_MEDIAN) {
+		const threshold = Math.max(SLOW_FLOOR, SLOW_FACTOR * median(measured));
+		for (const block of blocks) {
+			block.slow = !!block.toHalf && !block.toHalf.upperBound && block.toHalf.seconds > threshold;
+		}
+	}
+	return blocks;
+});
+
+/**
+ * Derived store: Intervals between tracked blocks, oldest first
+ */
+export const blockIntervals: Readable<BlockInterval[]> = derived(blockPropagation, ($blocks) => {
+	const oldestFirst = [...$blocks].reverse();
+	return oldestFirst.slice(1).map((block, i) => ({
+		hash: block.hash,
+		seconds: (block.first_seen - oldestFirst[i].first_seen) / 1000
+	}));
+});
+
+/**
+ * Derived store: Median time to reach half / most peers over exact measurements
+ */
+export const propagationSummary: Readable<{ toHalf: number | null; toMost: number | null; slow: number }> =
+	derived(blockPropagation, ($blocks) => {
+		const exact = (pick: (b: BlockPropagation) => PropagationEstimate | null) =>
+			$blocks.map(pick).filter((e): e is PropagationEstimate => !!e && !e.upperBound).map((e) => e.seconds);
+		const half = exact((b) => b.toHalf);
+		const most = exact((b) => b.toMost);
+		return {
+			toHalf: half.length > 0 ? median(half) : null,
+			toMost: most.length > 0 ? median(most) : null,
+			slow: $blocks.filter((b) => b.slow).length
+		};
+	});
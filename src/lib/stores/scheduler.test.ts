@@ -0,0 +1,265 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { get } from 'svelte/store';
+import type { Readable } from 'svelte/store';
+import type { SubscriptionStatus } from '$lib/rpc/subscriptions';
+
+/**
+ * What the mocked node and tab group see and do, shared with the mock factories
+ */
+const node = vi.hoisted(() => ({
+	batches: [] as string[][], // Methods of every batch sent, in order
+	missing: new Set<string>(), // Methods the node answers with "method not found"
+	observer: false,
+	latency: null as number | null, // Smoothed round-trip time the client reports
+	remoteVisible: false, // Another tab of the group is visible
+	onStatus: null as ((status: SubscriptionStatus) => void) | null // Event stream status handler
+}));
+
+/** Store that always holds one value */
+function constant<T>(value: () => T): Readable<T> {
+	return {
+		subscribe(run) {
+			run(value());
+			return () => {};
+		}
+	};
+}
+
+vi.mock('$lib/rpc/client', () => ({
+	getLatency: () => (node.latency === null ? null : { last: node.latency, average: node.latency, samples: 1 }),
+	resetLatency: () => {},
+	rpcBatchCallSettled: async (calls: { method: string }[]) => {
+		// Imported per call: the scheduler gets a fresh errors module for every test
+		const { RPCMethodError, RPC_METHOD_NOT_FOUND } = await import('$lib/rpc/errors');
+		node.batches.push(calls.map((call) => call.method));
+		return calls.map(({ method }) =>
+			node.missing.has(method)
+				? { ok: false, error: new RPCMethodError(method, RPC_METHOD_NOT_FOUND, 'Method not found') }
+				: { ok: true, result: {} }
+		);
+	}
+}));
+
+vi.mock('$lib/rpc/subscriptions', () => ({
+	openSubscription: (_config: unknown, _events: unknown, handlers: { onStatus: typeof node.onStatus }) => {
+		node.onStatus = handlers.onStatus;
+		return () => {};
+	}
+}));
+
+vi.mock('./tabs', () => ({
+	tabs: {
+		// The only tab: it leads as soon as it joins
+		join: (_group: string, handlers: { onLead(): void }) => handlers.onLead(),
+		leave: () => {},
+		takeover: () => {},
+		announce: () => {},
+		publish: () => {},
+		isLeader: () => true,
+		anyRemoteVisible: () => node.remoteVisible,
+		remoteNeeds: () => new Set(),
+		remoteLookups: () => new Set()
+	}
+}));
+
+vi.mock('./connection', () => {
+	const config = { endpoint: 'http://localhost:8332', timeout: 1000 };
+	const noop = () => {};
+	return {
+		connection: {
+			subscribe: constant(() => ({ config })).subscribe,
+			getConfig: () => config,
+			getActiveProfileId: () => 'default',
+			getSharedState: () => ({}),
+			applySharedState: noop,
+			markConnecting: noop,
+			markDisconnected: noop,
+			markError: noop,
+			reportAuthFailure: noop,
+			updateStatsFromBatch: noop,
+			fetchExternalData: noop
+		}
+	};
+});
+
+vi.mock('./nodeMode', () => ({
+	nodeMode: { updateFromStats: () => {} },
+	isObserverMode: constant(() => node.observer)
+}));
+
+vi.mock('./compatibility', () => ({
+	compatibility: {
+		subscribe: constant(() => ({ issues: {} })).subscribe,
+		report: () => {},
+		resolve: () => {},
+		reset: () => {},
+		getSharedState: () => ({}),
+		applySharedState: () => {}
+	}
+}));
+
+/** Fresh scheduler module, started and through its first tick */
+async function start() {
+	const module = await import('./scheduler');
+	module.scheduler.start();
+	await vi.advanceTimersByTimeAsync(0);
+	return module;
+}
+
+/** Methods of the last batch that included the health check */
+function lastTick(): string[] {
+	return node.batches.findLast((methods) => methods.includes('getobserverstats')) ?? [];
+}
+
+let stop: (() => void) | null = null;
+
+beforeEach(() => {
+	vi.useFakeTimers();
+	vi.resetModules();
+	node.batches = [];
+	node.missing.clear();
+	node.observer = false;
+	node.latency = null;
+	node.remoteVisible = false;
+	node.onStatus = null;
+});
+
+afterEach(() => {
+	stop?.();
+	stop = null;
+	vi.useRealTimers();
+	vi.unstubAllGlobals();
+});
+
+describe('need selection', () => {
+	it('always asks for the health check and the chain info', async () => {
+		const { scheduler } = await start();
+		stop = scheduler.stop;
+
+		expect(node.batches).toEqual([['getobserverstats', 'getblockchaininfo']]);
+	});
+
+	it('leaves out the chain info on an observer node', async () => {
+		node.observer = true;
+		const { scheduler } = await start();
+		stop = scheduler.stop;
+
+		expect(node.batches).toEqual([['getobserverstats']]);
+	});
+
+	it('asks for a need while it is registered', async () => {
+		const { scheduler } = await start();
+		stop = scheduler.stop;
+
+		const release = scheduler.require(['mempoolInfo', 'syncStatus']);
+		await vi.advanceTimersByTimeAsync(0);
+		expect(lastTick()).toEqual(['getobserverstats', 'getblockchaininfo', 'getsyncstatus', 'getmempoolinfo']);
+
+		release();
+		scheduler.refresh();
+		await vi.advanceTimersByTimeAsync(0);
+		expect(lastTick()).toEqual(['getobserverstats', 'getblockchaininfo']);
+	});
+
+	it('stops asking for a method the node does not have', async () => {
+		node.missing.add('getsyncstatus');
+		const { scheduler, unsupportedNeeds } = await start();
+		stop = scheduler.stop;
+
+		scheduler.require(['syncStatus']);
+		await vi.advanceTimersByTimeAsync(0);
+		expect(lastTick()).toContain('getsyncstatus');
+		expect(get(unsupportedNeeds)).toEqual(['syncStatus']);
+
+		scheduler.refresh();
+		await vi.advanceTimersByTimeAsync(0);
+		expect(lastTick()).not.toContain('getsyncstatus');
+	});
+});
+
+describe('poll interval', () => {
+	it('polls at the normal cadence', async () => {
+		const { scheduler, pollInterval, POLL_INTERVAL } = await start();
+		stop = scheduler.stop;
+
+		expect(get(pollInterval)).toBe(POLL_INTERVAL);
+	});
+
+	it('slows down while the event stream is open', async () => {
+		const { scheduler, pollInterval, PUSH_POLL_INTERVAL, POLL_INTERVAL } = await start();
+		stop = scheduler.stop;
+
+		node.onStatus!('open');
+		scheduler.refresh();
+		await vi.advanceTimersByTimeAsync(0);
+		expect(get(pollInterval)).toBe(PUSH_POLL_INTERVAL);
+
+		// Dropping the stream polls again at once, at the normal cadence
+		node.onStatus!('connecting');
+		await vi.advanceTimersByTimeAsync(0);
+		expect(get(pollInterval)).toBe(POLL_INTERVAL);
+	});
+
+	it('stretches the interval for a slow node, up to a cap', async () => {
+		const { scheduler, pollInterval, POLL_INTERVAL, MAX_POLL_INTERVAL } = await start();
+		stop = scheduler.stop;
+
+		const intervals: number[] = [];
+		for (const latency of [1000, 3000, 30000]) {
+			node.latency = latency;
+			scheduler.refresh();
+			await vi.advanceTimersByTimeAsync(0);
+			intervals.push(get(pollInterval));
+		}
+		expect(intervals).toEqual([POLL_INTERVAL, 15000, MAX_POLL_INTERVAL]);
+	});
+
+	it('drops to a trickle while no tab is visible', async () => {
+		vi.stubGlobal('document', { visibilityState: 'hidden', addEventListener() {}, removeEventListener() {} });
+		const { scheduler, pollInterval, HIDDEN_POLL_INTERVAL, POLL_INTERVAL } = await start();
+		stop = scheduler.stop;
+		expect(get(pollInterval)).toBe(HIDDEN_POLL_INTERVAL);
+
+		node.remoteVisible = true;
+		scheduler.refresh();
+		await vi.advanceTimersByTimeAsync(0);
+		expect(get(pollInterval)).toBe(POLL_INTERVAL);
+	});
+});
+
+describe('heavy needs', () => {
+	it('asks for them in a second request, after the health check', async () => {
+		const { scheduler } = await start();
+		stop = scheduler.stop;
+
+		scheduler.require(['mempoolInfo', 'rawMempool', 'peerInfo']);
+		await vi.advanceTimersByTimeAsync(0);
+		expect(node.batches.slice(-2)).toEqual([
+			['getobserverstats', 'getblockchaininfo', 'getmempoolinfo'],
+			['getrawmempool', 'getpeerinfo']
+		]);
+	});
+
+	it('skips them when the health check fails', async () => {
+		node.missing.add('getobserverstats');
+		const { scheduler } = await start();
+		stop = scheduler.stop;
+
+		scheduler.require(['rawMempool']);
+		await vi.advanceTimersByTimeAsync(0);
+		expect(node.batches.flat()).not.toContain('getrawmempool');
+	});
+
+	it('re-polls the verbose mempool at most every 30 seconds', async () => {
+		const { scheduler, POLL_INTERVAL } = await start();
+		stop = scheduler.stop;
+
+		scheduler.require(['rawMempool']);
+		await vi.advanceTimersByTimeAsync(0);
+		await vi.advanceTimersByTimeAsync(25000);
+		expect(node.batches.filter((methods) => methods.includes('getrawmempool'))).toHaveLength(1);
+
+		await vi.advanceTimersByTimeAsync(5000 + POLL_INTERVAL);
+		expect(node.batches.filter((methods) => methods.includes('getrawmempool'))).toHaveLength(2);
+	});
+});
@@ -0,0 +1,1189 @@
+/**
+ * Bitcoin Echo GUI — Polling Scheduler
+ *
+ * The single place that polls the node. Pages register the data they need
+ * and the scheduler merges every registered need into ONE batched RPC per
+ * tick, publishing the results to stores. The heavy needs (verbose mempool,
+ * peer list) follow in a second batch once the first has succeeded.
+ *
+ * getobserverstats is always polled: it doubles as the connection health
+ * check. Except on observer nodes, getblockchaininfo is too, for the
+ * network reference (see connection.fetchExternalData). Backoff, the
+ * consecutive-error threshold and auth handling all live here, so pages
+ * never run their own timers against the node.
+ *
+ * When the node's WebSocket event stream is available, block/tx/sync status
+ * updates arrive by push and are merged into the same stores. Polling then
+ * slows down and only re-fetches the pushed lists occasionally to reconcile.
+ * If the socket drops, polling resumes at the normal cadence immediately.
+ *
+ * The cadence also adapts: it stretches when the node answers slowly (the
+ * client measures the latency of the health-check batch) and drops to a
+ * trickle while the tab is hidden, catching up the moment it becomes
+ * visible again.
+ *
+ * Only one open tab polls. Tabs watching the same node elect a leader
+ * (see tabs.ts); the leader polls for every tab's needs and publishes its
+ * state, which follower tabs apply here and to the connection store.
+ *
+ * Pages can also register lookups: per-item data (a mempool entry by txid,
+ * a block header by hash) asked for one RPC per key in the same batch, and
+ * published and shared between tabs the same way.
+ *
+ * While a recorded observer session is replayed (see capture.ts) this tab
+ * leaves the tab group and stops polling; the capture's frames are
+ * published to the same stores instead, so pages can't tell the difference.
+ *
+ * Usage (in a page):
+ *   onMount(() => scheduler.require(['observedBlocks', 'observedTxs']));
+ */
+
+import { writable, derived, get } from 'svelte/store';
+import type { Writable, Readable } from 'svelte/store';
+import { getLatency, resetLatency, rpcBatchCallSettled } from '$lib/rpc/client';
+import type { RPCBatchResult } from '$lib/rpc/client';
+import { RPCAuthError, RPCMethodError, RPCSchemaError } from '$lib/rpc/errors';
+import { openSubscription } from '$lib/rpc/subscriptions';
+import type { NodeEvent, SubscriptionStatus } from '$lib/rpc/subscriptions';
+import type {
+	ObserverStats,
+	ObservedBlocksResponse,
+	ObservedTxsResponse,
+	BlockchainInfo,
+	SyncStatus,
+	MempoolInfo,
+	RawMempool,
+	MempoolEntry,
+	PeerInfo,
+	BlockHeader,
+	RPCConfig
+} from '$lib/rpc/types';
+import { bytesToHex, sha256 } from '$lib/bitcoin';
+import { connection } from './connection';
+import type { SharedConnectionState } from './connection';
+import { nodeMode, isObserverMode } from './nodeMode';
+import { compatibility } from './compatibility';
+import type { SharedCompatibilityState } from './compatibility';
+import { tabs } from './tabs';
+
+/**
+ * Data a page can ask the scheduler to keep fresh
+ */
+export type DataNeed =
+	| 'observerStats'
+	| 'observedBlocks'
+	| 'observedTxs'
+	| 'chainInfo'
+	| 'syncStatus'
+	| 'mempoolInfo'
+	| 'rawMempool'
+	| 'peerInfo';
+
+/**
+ * RPC method that satisfies each need
+ */
+const NEED_METHODS: Record<DataNeed, string> = {
+	observerStats: 'getobserverstats',
+	observedBlocks: 'getobservedblocks',
+	observedTxs: 'getobservedtxs',
+	chainInfo: 'getblockchaininfo',
+	syncStatus: 'getsyncstatus',
+	mempoolInfo: 'getmempoolinfo',
+	rawMempool: 'getrawmempool',
+	peerInfo: 'getpeerinfo'
+};
+
+/**
+ * Parameters for needs whose method takes any
+ */
+const NEED_PARAMS: Partial<Record<DataNeed, unknown[]>> = {
+	rawMempool: [true] // verbose
+};
+
+/**
+ * Heavy needs are re-polled at most this often (ms), however short the tick
+ */
+const NEED_MIN_INTERVALS: Partial<Record<DataNeed, number>> = {
+	rawMempool: 30000
+};
+
+/**
+ * Needs too large to hold or share when no page is using them: they're
+ * dropped once the last registration goes, and only sent to other tabs
+ * that registered them. They're also requested on their own, after the
+ * health check, so a slow answer can't fail the tick.
+ */
+const HEAVY_NEEDS: Exclude<DataNeed, 'observerStats'>[] = ['rawMempool', 'peerInfo'];
+
+/**
+ * Order needs are requested in (observerStats first - it's the health check)
+ */
+const NEED_ORDER: DataNeed[] = [
+	'observerStats',
+	'chainInfo',
+	'syncStatus',
+	'mempoolInfo',
+	'rawMempool',
+	'peerInfo',
+	'observedBlocks',
+	'observedTxs'
+];
+
+/**
+ * Needs that the event stream can keep fresh by push
+ */
+const PUSHED_NEEDS: DataNeed[] = ['observedBlocks', 'observedTxs', 'syncStatus'];
+
+/**
+ * Per-item data a page can ask the scheduler to look up (by txid, block hash)
+ */
+export type LookupKind = 'mempoolEntry' | 'blockHeader';
+
+/**
+ * What each kind of lookup returns
+ */
+export interface LookupResults {
+	mempoolEntry: MempoolEntry;
+	blockHeader: BlockHeader;
+}
+
+/**
+ * Answers by kind and key (null: the node doesn't have it)
+ */
+export type LookupState = { [K in LookupKind]: Record<string, LookupResults[K] | null> };
+
+/**
+ * RPC call that answers each kind of lookup
+ */
+const LOOKUP_CALLS: Record<LookupKind, (key: string) => { method: string; params: unknown[] }> = {
+	mempoolEntry: (txid) => ({ method: 'getmempoolentry', params: [txid] }),
+	blockHeader: (hash) => ({ method: 'getblockheader', params: [hash, true] })
+};
+
+/**
+ * When each kind is asked again
+ *
+ * refresh: re-ask this long after an answer (ms; null = answers never change)
+ * retry, attempts: a key the node doesn't have is asked `attempts` times,
+ * `retry` apart, before it's published as null
+ */
+const LOOKUP_POLICIES: Record<LookupKind, { refresh: number | null; retry: number; attempts: number }> = {
+	// A transaction can enter or leave the mempool at any time
+	mempoolEntry: { refresh: 0, retry: 0, attempts: 1 },
+	// A header can lag the block's announcement a little
+	blockHeader: { refresh: null, retry: 30000, attempts: 2 }
+};
+
+/**
+ * RPC error code for an unknown txid or block hash (RPC_INVALID_ADDRESS_OR_KEY)
+ */
+const RPC_NOT_FOUND = -5;
+
+/**
+ * Poll interval (5s) - reduced from 1.618s to minimize RPC load during IBD
+ */
+export const POLL_INTERVAL = 5000;
+
+/**
+ * Poll interval while the event stream is live (stats / chain info only)
+ */
+export const PUSH_POLL_INTERVAL = 15000;
+
+/**
+ * Poll interval while the tab is hidden (keeps status and session history roughly current)
+ */
+export const HIDDEN_POLL_INTERVAL = 60000;
+
+/**
+ * Average latency above which the node counts as struggling (1 second)
+ */
+const SLOW_NODE_LATENCY = 1000;
+
+/**
+ * When struggling, wait this many round trips between polls
+ */
+const LATENCY_INTERVAL_FACTOR = 5;
+
+/**
+ * Upper bound for a latency-stretched interval
+ */
+export const MAX_POLL_INTERVAL = 60000;
+
+/**
+ * How often pushed needs are re-polled anyway to reconcile missed events
+ */
+const RECONCILE_INTERVAL = 60000;
+
+/**
+ * Size of the node's announcement ring buffers (getobservedblocks / getobservedtxs)
+ */
+const OBSERVED_LIMIT = 100;
+
+/**
+ * Coalesce state changes for this long before publishing them to other tabs
+ */
+const FEED_DEBOUNCE = 100;
+
+/**
+ * Backoff interval when the node isn't answering (10 seconds)
+ */
+export const ERROR_BACKOFF_INTERVAL = 10000;
+
+/**
+ * Number of consecutive errors before showing disconnected state
+ * This prevents brief network blips from disrupting the UI
+ */
+export const ERROR_THRESHOLD = 3;
+
+/**
+ * Scheduler state
+ */
+interface SchedulerState {
+	running: boolean;
+	observedBlocks: ObservedBlocksResponse | null;
+	observedTxs: ObservedTxsResponse | null;
+	chainInfo: BlockchainInfo | null;
+	syncStatus: SyncStatus | null;
+	mempoolInfo: MempoolInfo | null;
+	rawMempool: RawMempool | null;
+	peerInfo: PeerInfo[] | null;
+	lookups: LookupState;
+	unsupported: DataNeed[]; // Needs the node answered with "method not found"
+	unsupportedLookups: LookupKind[];
+	push: SubscriptionStatus; // Event stream state ('open' = live push updates)
+	hidden: boolean; // Tab hidden (Page Visibility API)
+	latency: number | null; // Smoothed RPC round-trip time (ms)
+	interval: number; // Current poll interval (ms)
+	lastTick: number | null; // Timestamp of last successful tick
+	consecutiveErrors: number;
+	lastError: string | null; // Most recent failure (even below threshold)
+}
+
+/**
+ * State the leader tab publishes to follower tabs
+ */
+interface SharedFeed {
+	scheduler: Partial<SchedulerState>;
+	connection: SharedConnectionState;
+	compatibility: SharedCompatibilityState;
+}
+
+const INITIAL_STATE: SchedulerState = {
+	running: false,
+	observedBlocks: null,
+	observedTxs: null,
+	chainInfo: null,
+	syncStatus: null,
+	mempoolInfo: null,
+	rawMempool: null,
+	peerInfo: null,
+	lookups: { mempoolEntry: {}, blockHeader: {} },
+	unsupported: [],
+	unsupportedLookups: [],
+	push: 'unavailable',
+	hidden: false,
+	latency: null,
+	interval: POLL_INTERVAL,
+	lastTick: null,
+	consecutiveErrors: 0,
+	lastError: null
+};
+
+/**
+ * Internal scheduler state store
+ */
+const schedulerState: Writable<SchedulerState> = writable({ ...INITIAL_STATE });
+
+/**
+ * Reference counts for registered needs
+ */
+const needCounts = new Map<DataNeed, number>();
+
+/**
+ * Reference counts for registered lookups, by id ("kind:key")
+ */
+const lookupCounts = new Map<string, number>();
+
+/**
+ * When each lookup was last asked, and how many times the node hasn't had it since it last did
+ */
+const lookupAttempts = new Map<string, { count: number; last: number }>();
+
+let pollTimer: ReturnType<typeof setTimeout> | null = null;
+let inFlight = false;
+let pendingTick = false; // A tick was requested while one was in flight
+let pausedForAuth = false;
+let configUnsubscribe: (() => void) | null = null;
+let lastConfig: RPCConfig | null = null;
+let closeSubscription: (() => void) | null = null;
+let lastReconcile = 0; // When pushed needs were last polled
+const lastPolled = new Map<DataNeed, number>(); // When each throttled need last succeeded
+let feedTimer: ReturnType<typeof setTimeout> | null = null;
+let feedUnsubscribers: (() => void)[] = [];
+let replaying = false; // Stores are fed by a capture replay, not the node
+let replayTime: number | null = null; // When the frame being shown was recorded
+
+/**
+ * Needs to request this tick
+ */
+function activeNeeds(): DataNeed[] {
+	const state = get(schedulerState);
+	const reconcile = state.push !== 'open' || Date.now() - lastReconcile >= RECONCILE_INTERVAL;
+	const remoteNeeds = tabs.remoteNeeds();
+	const observer = get(isObserverMode);
+
+	return NEED_ORDER.filter((need) => {
+		if (need === 'observerStats') return true;
+		if (state.unsupported.includes(need)) return false;
+		// Chain info names the chain and gives the network reference its height: keep it if there is any
+		const always = need === 'chainInfo' && !observer;
+		if (!always && (needCounts.get(need) ?? 0) === 0 && !remoteNeeds.has(need)) return false;
+		// Pushed needs only need polling for a baseline or periodic reconciliation
+		if (PUSHED_NEEDS.includes(need) && state[need] !== null && !reconcile) return false;
+		const minInterval = NEED_MIN_INTERVALS[need];
+		if (minInterval && state[need] !== null && Date.now() - (lastPolled.get(need) ?? 0) < minInterval) {
+			return false;
+		}
+		return true;
+	});
+}
+
+function lookupId(kind: LookupKind, key: string): string {
+	return `${kind}:${key}`;
+}
+
+function parseLookupId(id: string): { kind: LookupKind; key: string } {
+	const separator = id.indexOf(':');
+	return { kind: id.slice(0, separator) as LookupKind, key: id.slice(separator + 1) };
+}
+
+/**
+ * Lookups to ask this tick
+ */
+function activeLookups(): { kind: LookupKind; key: string }[] {
+	const state = get(schedulerState);
+	const now = Date.now();
+	const ids = new Set([...lookupCounts.keys(), ...tabs.remoteLookups()]);
+
+	return [...ids].map(parseLookupId).filter(({ kind, key }) => {
+		if (state.unsupportedLookups.includes(kind)) return false;
+		const { refresh, retry } = LOOKUP_POLICIES[kind];
+		const last = lookupAttempts.get(lookupId(kind, key))?.last ?? 0;
+		if (key in state.lookups[kind]) return refresh !== null && now - last >= refresh;
+		return now - last >= retry;
+	});
+}
+
+/**
+ * Fold a tick's lookup answers into the published ones
+ */
+function applyLookups(
+	asked: { kind: LookupKind; key: string }[],
+	results: RPCBatchResult<unknown>[],
+	current: LookupState
+): { lookups: LookupState; unsupported: LookupKind[] } {
+	const lookups = { ...current };
+	const unsupported: LookupKind[] = [];
+	const publish = (kind: LookupKind, key: string, value: unknown) => {
+		// Copy each kind's answers once, and only if something changed
+		if (lookups[kind] === current[kind]) lookups[kind] = { ...current[kind] } as never;
+		(lookups[kind] as Record<string, unknown>)[key] = value;
+	};
+
+	asked.forEach(({ kind, key }, index) => {
+		const result = results[index];
+		const id = lookupId(kind, key);
+		const now = Date.now();
+		const { method } = LOOKUP_CALLS[kind](key);
+
+		if (result.ok) {
+			compatibility.resolve(method);
+			lookupAttempts.set(id, { count: 0, last: now });
+			publish(kind, key, result.result);
+			return;
+		}
+		if (result.error instanceof RPCSchemaError) compatibility.report(result.error);
+
+		const count = (lookupAttempts.get(id)?.count ?? 0) + 1;
+		lookupAttempts.set(id, { count, last: now });
+		if (result.error instanceof RPCMethodError && result.error.isMethodNotFound) {
+			// Observer builds have neither a mempool nor headers - stop asking
+			if (!unsupported.includes(kind)) unsupported.push(kind);
+		} else if (result.error instanceof RPCMethodError && result.error.code === RPC_NOT_FOUND) {
+			if (count >= LOOKUP_POLICIES[kind].attempts && current[kind][key] !== null) publish(kind, key, null);
+		} else {
+			console.warn(`Scheduler: ${method} failed:`, result.error.message);
+		}
+	});
+
+	return { lookups, unsupported };
+}
+
+/**
+ * Interval until the next regular tick
+ *
+ * Starts from the push/poll cadence, stretches it for a slow node, and
+ * replaces it entirely while no tab is visible.
+ */
+function pollDelay(): number {
+	const state = get(schedulerState);
+	if (state.hidden && !tabs.anyRemoteVisible()) return HIDDEN_POLL_INTERVAL;
+
+	const base = state.push === 'open' ? PUSH_POLL_INTERVAL : POLL_INTERVAL;
+	const latency = getLatency()?.average ?? 0;
+	if (latency <= SLOW_NODE_LATENCY) return base;
+
+	return Math.min(MAX_POLL_INTERVAL, Math.max(base, latency * LATENCY_INTERVAL_FACTOR));
+}
+
+/**
+ * Schedule the next tick
+ */
+function scheduleNext(delay: number): void {
+	if (pollTimer) clearTimeout(pollTimer);
+	pollTimer = setTimeout(tick, delay);
+}
+
+/**
+ * Record a failed tick, applying the error threshold and backoff
+ */
+function handleFailure(error: unknown): void {
+	if (error instanceof RPCAuthError) {
+		// Bad credentials won't fix themselves - wait for a config change
+		pausedForAuth = true;
+		connection.reportAuthFailure(error);
+		schedulerState.update((s) => ({ ...s, consecutiveErrors: 0, lastError: error.message }));
+		return;
+	}
+
+	if (error instanceof RPCSchemaError) {
+		compatibility.report(error);
+	}
+
+	const message = error instanceof Error ? error.message : 'Unknown error';
+	const consecutiveErrors = get(schedulerState).consecutiveErrors + 1;
+
+	schedulerState.update((s) => ({ ...s, consecutiveErrors, lastError: message }));
+
+	if (consecutiveErrors >= ERROR_THRESHOLD) {
+		connection.markError(message);
+	}
+
+	scheduleNext(ERROR_BACKOFF_INTERVAL);
+}
+
+/**
+ * Request the heavy needs due this tick, separately from the health check
+ *
+ * A failure only warns: the node answered the health check, so it's reachable.
+ *
+ * @returns Results by need (empty if the request failed)
+ */
+async function fetchHeavy(
+	needs: DataNeed[],
+	config: RPCConfig
+): Promise<[DataNeed, RPCBatchResult<unknown>][]> {
+	if (needs.length === 0) return [];
+	try {
+		const results = await rpcBatchCallSettled(
+			needs.map((need) => ({ method: NEED_METHODS[need], params: NEED_PARAMS[need] })),
+			config
+		);
+		return needs.map((need, index) => [need, results[index]]);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		console.warn(`Scheduler: ${needs.map((need) => NEED_METHODS[need]).join(', ')} failed:`, message);
+		return [];
+	}
+}
+
+/**
+ * Run one poll: a batch RPC covering every registered need (heavy ones in a second request)
+ */
+async function tick(): Promise<void> {
+	pollTimer = null;
+	if (inFlight) {
+		pendingTick = true;
+		return;
+	}
+	if (replaying || pausedForAuth || !get(schedulerState).running || !tabs.isLeader()) return;
+	inFlight = true;
+
+	const needs = activeNeeds();
+	const heavy = needs.filter((need) => (HEAVY_NEEDS as DataNeed[]).includes(need));
+	const light = needs.filter((need) => !heavy.includes(need));
+	const lookups = activeLookups();
+	const config = connection.getConfig();
+
+	if (get(schedulerState).lastTick === null) {
+		connection.markConnecting();
+	}
+
+	try {
+		const results = await rpcBatchCallSettled(
+			[
+				...light.map((need) => ({ method: NEED_METHODS[need], params: NEED_PARAMS[need] })),
+				...lookups.map(({ kind, key }) => LOOKUP_CALLS[kind](key))
+			],
+			config,
+			{ measureLatency: true }
+		);
+
+		// Config changed (or a replay started) mid-request: discard results
+		if (config !== connection.getConfig() || replaying) return;
+
+		const byNeed = new Map(light.map((need, index) => [need, results[index]]));
+
+		// Observer stats is the health check - its failure fails the tick
+		const statsResult = byNeed.get('observerStats')!;
+		if (!statsResult.ok) throw statsResult.error;
+
+		for (const [need, result] of await fetchHeavy(heavy, config)) byNeed.set(need, result);
+		if (config !== connection.getConfig() || replaying) return;
+
+		const stats = statsResult.result as ObserverStats;
+		const update: Partial<SchedulerState> = {};
+		const newlyUnsupported: DataNeed[] = [];
+
+		for (const [need, result] of byNeed) {
+			if (result.ok) {
+				compatibility.resolve(NEED_METHODS[need]);
+			} else if (result.error instanceof RPCSchemaError) {
+				compatibility.report(result.error);
+			}
+
+			if (need === 'observerStats') continue;
+			if (result.ok) {
+				(update as Record<DataNeed, unknown>)[need] = result.result;
+				if (NEED_MIN_INTERVALS[need]) lastPolled.set(need, Date.now());
+			} else if (result.error instanceof RPCMethodError && result.error.isMethodNotFound) {
+				// Older node builds lack some methods - stop asking
+				newlyUnsupported.push(need);
+				(update as Record<DataNeed, unknown>)[need] = null;
+			} else {
+				console.warn(`Scheduler: ${NEED_METHODS[need]} failed:`, result.error.message);
+			}
+		}
+
+		if (needs.some((need) => PUSHED_NEEDS.includes(need))) {
+			lastReconcile = Date.now();
+		}
+
+		const answered = applyLookups(lookups, results.slice(light.length), get(schedulerState).lookups);
+
+		schedulerState.update((s) => ({
+			...s,
+			...update,
+			lookups: answered.lookups,
+			unsupported: [...s.unsupported, ...newlyUnsupported],
+			unsupportedLookups: [...s.unsupportedLookups, ...answered.unsupported],
+			latency: getLatency()?.average ?? null,
+			lastTick: Date.now(),
+			consecutiveErrors: 0,
+			lastError: null
+		}));
+
+		connection.updateStatsFromBatch(stats);
+		nodeMode.updateFromStats(stats, update.chainInfo);
+
+		// Network height / hashrate - respects its own 30-second refresh interval
+		connection.fetchExternalData(get(schedulerState).chainInfo);
+
+		const interval = pollDelay();
+		schedulerState.update((s) => ({ ...s, interval }));
+		scheduleNext(interval);
+	} catch (error) {
+		if (config === connection.getConfig() && !replaying) handleFailure(error);
+	} finally {
+		inFlight = false;
+		if (pendingTick) {
+			pendingTick = false;
+			scheduleNext(0);
+		}
+	}
+}
+
+/**
+ * Merge an announcement into a ring buffer (oldest first, like the node returns it)
+ */
+function mergeAnnouncement<T>(
+	list: T[],
+	item: T,
+	matches: (existing: T) => boolean,
+	merge: (existing: T, incoming: T) => T = (_existing, incoming) => incoming
+): T[] {
+	const index = list.findIndex(matches);
+	if (index !== -1) {
+		const next = [...list];
+		next[index] = merge(list[index], item);
+		return next;
+	}
+	return [...list, item].slice(-OBSERVED_LIMIT);
+}
+
+/**
+ * Apply a pushed event to the published stores
+ */
+function handleEvent(event: NodeEvent): void {
+	schedulerState.update((s) => {
+		switch (event.type) {
+			case 'block': {
+				if (!s.observedBlocks) return s;
+				const { block } = event;
+				const blocks = mergeAnnouncement(
+					s.observedBlocks.blocks,
+					block,
+					(b) => b.hash === block.hash,
+					// Re-announcements keep the original first_seen and the highest peer count
+					(existing, incoming) => ({
+						...existing,
+						peer_count: Math.max(existing.peer_count, incoming.peer_count)
+					})
+				);
+				return { ...s, observedBlocks: { blocks } };
+			}
+			case 'tx': {
+				if (!s.observedTxs) return s;
+				const { tx } = event;
+				const transactions = mergeAnnouncement(
+					s.observedTxs.transactions,
+					tx,
+					(t) => t.txid === tx.txid,
+					(existing) => existing
+				);
+				return { ...s, observedTxs: { transactions } };
+			}
+			case 'syncstatus':
+				// Deltas need a polled baseline to apply to
+				if (!s.syncStatus) return s;
+				return { ...s, syncStatus: { ...s.syncStatus, ...event.delta } };
+		}
+	});
+}
+
+/**
+ * Track event stream state, falling back to polling when it drops
+ */
+function handlePushStatus(status: SubscriptionStatus): void {
+	const previous = get(schedulerState).push;
+	schedulerState.update((s) => ({ ...s, push: status }));
+
+	if (previous === 'open' && status !== 'open') {
+		// Events may have been missed - reconcile and resume normal polling now
+		lastReconcile = 0;
+		scheduleNext(0);
+	}
+}
+
+/**
+ * (Re)open the event stream for the current config
+ */
+function subscribe(config: RPCConfig): void {
+	closeSubscription?.();
+	closeSubscription = openSubscription(config, ['block', 'tx', 'syncstatus'], {
+		onEvent: handleEvent,
+		onStatus: handlePushStatus
+	});
+}
+
+/**
+ * Publish this tab's state to the follower tabs (debounced)
+ */
+function queueFeed(): void {
+	if (feedTimer || !tabs.isLeader()) return;
+	feedTimer = setTimeout(() => {
+		feedTimer = null;
+		const shared: Partial<SchedulerState> = { ...get(schedulerState) };
+		// Running and visibility are per tab
+		delete shared.running;
+		delete shared.hidden;
+		const remoteNeeds = tabs.remoteNeeds();
+		for (const need of HEAVY_NEEDS) {
+			if (!remoteNeeds.has(need)) delete shared[need];
+		}
+		tabs.publish({
+			scheduler: shared,
+			connection: connection.getSharedState(),
+			compatibility: compatibility.getSharedState()
+		});
+	}, FEED_DEBOUNCE);
+}
+
+/**
+ * Apply state published by the leader tab
+ */
+function applyFeed(feed: unknown): void {
+	const { scheduler: shared, connection: sharedConnection, compatibility: sharedCompatibility } =
+		feed as SharedFeed;
+	schedulerState.update((s) => ({ ...s, ...shared }));
+	connection.applySharedState(sharedConnection);
+	compatibility.applySharedState(sharedCompatibility);
+	if (sharedConnection.stats) {
+		nodeMode.updateFromStats(sharedConnection.stats, shared.chainInfo);
+	}
+}
+
+/**
+ * Forget heavy results no tab has registered any more
+ */
+function dropUnusedNeeds(): void {
+	const remoteNeeds = tabs.remoteNeeds();
+	const unused = HEAVY_NEEDS.filter(
+		(need) => !needCounts.has(need) && !remoteNeeds.has(need) && get(schedulerState)[need] !== null
+	);
+	if (unused.length === 0) return;
+
+	for (const need of unused) lastPolled.delete(need);
+	schedulerState.update((s) => ({ ...s, ...Object.fromEntries(unused.map((need) => [need, null])) }));
+}
+
+/**
+ * Forget answers to lookups no tab has registered any more
+ */
+function dropUnusedLookups(): void {
+	const remoteLookups = tabs.remoteLookups();
+	const { lookups } = get(schedulerState);
+	const unused = (Object.keys(lookups) as LookupKind[]).flatMap((kind) =>
+		Object.keys(lookups[kind])
+			.filter((key) => !lookupCounts.has(lookupId(kind, key)) && !remoteLookups.has(lookupId(kind, key)))
+			.map((key) => ({ kind, key }))
+	);
+	if (unused.length === 0) return;
+
+	const next = { ...lookups };
+	for (const { kind, key } of unused) {
+		lookupAttempts.delete(lookupId(kind, key));
+		if (next[kind] === lookups[kind]) next[kind] = { ...lookups[kind] } as never;
+		delete next[kind][key];
+	}
+	schedulerState.update((s) => ({ ...s, lookups: next }));
+}
+
+/**
+ * What this tab's pages need, for the leader tab
+ */
+function announcePresence(): void {
+	tabs.announce({
+		needs: [...needCounts.keys()],
+		lookups: [...lookupCounts.keys()],
+		hidden: get(schedulerState).hidden
+	});
+}
+
+/**
+ * Key of the tab group for the current connection (see tabs.ts)
+ *
+ * Tabs share a leader only when they'd poll as the same user of the same
+ * node, so a tab with missing or wrong credentials can't pause polling for
+ * the others.
+ */
+function tabGroup(): string {
+	const { endpoint, auth } = connection.getConfig();
+	// Hashed: channel names shouldn't carry the credentials themselves
+	const credentials = new TextEncoder().encode(JSON.stringify(auth ?? { type: 'none' }));
+	const fingerprint = bytesToHex(sha256(credentials)).slice(0, 16);
+	return `${connection.getActiveProfileId()}:${endpoint}:${fingerprint}`;
+}
+
+/**
+ * Tab coordination callbacks
+ */
+const tabHandlers = {
+	onLead(): void {
+		if (!get(schedulerState).running) return;
+		subscribe(connection.getConfig());
+		scheduleNext(0);
+	},
+
+	onFollow(): void {
+		if (pollTimer) clearTimeout(pollTimer);
+		pollTimer = null;
+		closeSubscription?.();
+		closeSubscription = null;
+	},
+
+	onFeed: applyFeed,
+
+	onPresence(added: boolean): void {
+		// Another tab needs something new (or is being looked at again) - don't make it wait
+		if (added && get(schedulerState).running) scheduleNext(0);
+		if (!added) {
+			dropUnusedNeeds();
+			dropUnusedLookups();
+		}
+	}
+};
+
+/**
+ * Watch for config changes (endpoint / credentials) and re-poll immediately
+ *
+ * The tab where the config changed takes over polling, so the new
+ * credentials are the ones used.
+ */
+function watchConfig(): () => void {
+	return connection.subscribe(($connection) => {
+		if (lastConfig === null) {
+			lastConfig = $connection.config;
+			return;
+		}
+		if ($connection.config === lastConfig) return;
+
+		lastConfig = $connection.config;
+		pausedForAuth = false;
+		compatibility.reset();
+		resetLatency();
+		resetState();
+		if (get(schedulerState).running && !replaying) {
+			tabs.join(tabGroup(), tabHandlers);
+			tabs.takeover();
+		}
+	});
+}
+
+/**
+ * Slow down while the tab is hidden; catch up as soon as it's visible again
+ */
+function handleVisibilityChange(): void {
+	const hidden = document.visibilityState === 'hidden';
+	schedulerState.update((s) => ({ ...s, hidden }));
+	announcePresence();
+
+	if (!hidden && tabs.isLeader()) {
+		scheduleNext(0);
+	}
+}
+
+/**
+ * Forget everything learned from the node (or the capture)
+ */
+function resetState(): void {
+	lastReconcile = 0;
+	lastPolled.clear();
+	lookupAttempts.clear();
+	schedulerState.update((s) => ({
+		...INITIAL_STATE,
+		running: s.running,
+		hidden: s.hidden
+	}));
+}
+
+/**
+ * Public scheduler interface
+ */
+export const scheduler = {
+	subscribe: schedulerState.subscribe,
+
+	/**
+	 * Start polling (call once from the root layout)
+	 */
+	start(): void {
+		if (get(schedulerState).running) return;
+		const hidden = typeof document !== 'undefined' && document.visibilityState === 'hidden';
+		schedulerState.update((s) => ({ ...s, running: true, hidden }));
+		if (typeof document !== 'undefined') {
+			document.addEventListener('visibilitychange', handleVisibilityChange);
+		}
+		configUnsubscribe = watchConfig();
+		feedUnsubscribers = [
+			schedulerState.subscribe(queueFeed),
+			connection.subscribe(queueFeed),
+			compatibility.subscribe(queueFeed)
+		];
+
+		// Polling starts once this tab wins the election (onLead)
+		announcePresence();
+		tabs.join(tabGroup(), tabHandlers);
+	},
+
+	/**
+	 * Stop polling entirely
+	 */
+	stop(): void {
+		if (pollTimer) clearTimeout(pollTimer);
+		pollTimer = null;
+		if (typeof document !== 'undefined') {
+			document.removeEventListener('visibilitychange', handleVisibilityChange);
+		}
+		configUnsubscribe?.();
+		configUnsubscribe = null;
+		tabs.leave();
+		for (const unsubscribe of feedUnsubscribers) unsubscribe();
+		feedUnsubscribers = [];
+		if (feedTimer) clearTimeout(feedTimer);
+		feedTimer = null;
+		closeSubscription?.();
+		closeSubscription = null;
+		lastConfig = null;
+		schedulerState.update((s) => ({ ...s, running: false, push: 'unavailable' }));
+		connection.markDisconnected();
+	},
+
+	/**
+	 * Register data needs for the lifetime of a page or component
+	 *
+	 * Triggers an immediate tick when this adds a need nobody else had,
+	 * so the page doesn't wait a full interval for its first data.
+	 *
+	 * @returns Unregister function (return it from onMount)
+	 */
+	require(needs: DataNeed[]): () => void {
+		let added = false;
+		for (const need of needs) {
+			const count = needCounts.get(need) ?? 0;
+			if (count === 0) added = true;
+			needCounts.set(need, count + 1);
+		}
+
+		announcePresence();
+		if (added && get(schedulerState).running) {
+			scheduleNext(0);
+		}
+
+		return () => {
+			for (const need of needs) {
+				const count = (needCounts.get(need) ?? 1) - 1;
+				if (count <= 0) {
+					needCounts.delete(need);
+				} else {
+					needCounts.set(need, count);
+				}
+			}
+			announcePresence();
+			dropUnusedNeeds();
+		};
+	},
+
+	/**
+	 * Register lookups (e.g. the mempool entries of some txids) for as long as they're needed
+	 *
+	 * Like require, a key nobody else had triggers an immediate tick - or
+	 * one right after the current tick, when registered from its results.
+	 *
+	 * @returns Unregister function
+	 */
+	lookup(kind: LookupKind, keys: string[]): () => void {
+		let added = false;
+		for (const key of keys) {
+			const id = lookupId(kind, key);
+			const count = lookupCounts.get(id) ?? 0;
+			if (count === 0) added = true;
+			lookupCounts.set(id, count + 1);
+		}
+
+		announcePresence();
+		if (added && get(schedulerState).running) {
+			if (inFlight) {
+				pendingTick = true;
+			} else {
+				scheduleNext(0);
+			}
+		}
+
+		return () => {
+			for (const key of keys) {
+				const id = lookupId(kind, key);
+				const count = (lookupCounts.get(id) ?? 1) - 1;
+				if (count <= 0) {
+					lookupCounts.delete(id);
+				} else {
+					lookupCounts.set(id, count);
+				}
+			}
+			announcePresence();
+			dropUnusedLookups();
+		};
+	},
+
+	/**
+	 * Poll now instead of waiting for the next interval
+	 */
+	refresh(): void {
+		if (get(schedulerState).running && tabs.isLeader()) scheduleNext(0);
+	},
+
+	/**
+	 * Stop polling and leave the tab group so a capture can be replayed
+	 * Another tab (if any) takes over polling for the rest.
+	 */
+	startReplay(): void {
+		if (replaying) return;
+		replaying = true;
+		if (pollTimer) clearTimeout(pollTimer);
+		pollTimer = null;
+		closeSubscription?.();
+		closeSubscription = null;
+		tabs.leave();
+		resetState();
+		connection.markDisconnected();
+	},
+
+	/**
+	 * Publish one replayed frame (recorded at `time`) in place of a tick's results
+	 */
+	replayFrame(
+		time: number,
+		stats: ObserverStats,
+		blocks: ObservedBlocksResponse,
+		txs: ObservedTxsResponse
+	): void {
+		if (!replaying) return;
+		replayTime = time;
+		schedulerState.update((s) => ({
+			...s,
+			observedBlocks: blocks,
+			observedTxs: txs,
+			lastTick: Date.now()
+		}));
+		connection.updateStatsFromBatch(stats);
+		nodeMode.updateFromStats(stats);
+	},
+
+	/**
+	 * Back to the node: rejoin the tab group and poll again
+	 */
+	stopReplay(): void {
+		if (!replaying) return;
+		replaying = false;
+		replayTime = null;
+		resetState();
+		connection.markDisconnected();
+		if (!get(schedulerState).running) return;
+		announcePresence();
+		tabs.join(tabGroup(), tabHandlers);
+	},
+
+	/**
+	 * Are the stores showing a replayed capture?
+	 */
+	isReplaying(): boolean {
+		return replaying;
+	},
+
+	/**
+	 * Time the published data is from: now, or when the replayed frame was recorded
+	 */
+	now(): number {
+		return replaying && replayTime !== null ? replayTime : Date.now();
+	}
+};
+
+/**
+ * Derived store: Latest observed blocks (getobservedblocks)
+ */
+export const observedBlocks: Readable<ObservedBlocksResponse | null> = derived(
+	schedulerState,
+	($state) => $state.observedBlocks
+);
+
+/**
+ * Derived store: Latest observed transactions (getobservedtxs)
+ */
+export const observedTxs: Readable<ObservedTxsResponse | null> = derived(
+	schedulerState,
+	($state) => $state.observedTxs
+);
+
+/**
+ * Derived store: Latest blockchain info (getblockchaininfo)
+ */
+export const chainInfo: Readable<BlockchainInfo | null> = derived(
+	schedulerState,
+	($state) => $state.chainInfo
+);
+
+/**
+ * Derived store: Latest sync status (getsyncstatus)
+ * Stays null on older nodes that don't implement the method.
+ */
+export const syncStatus: Readable<SyncStatus | null> = derived(
+	schedulerState,
+	($state) => $state.syncStatus
+);
+
+/**
+ * Derived store: Latest mempool summary (getmempoolinfo)
+ */
+export const mempoolInfo: Readable<MempoolInfo | null> = derived(
+	schedulerState,
+	($state) => $state.mempoolInfo
+);
+
+/**
+ * Derived store: Every mempool entry (getrawmempool verbose, refreshed every 30s at most)
+ */
+export const rawMempool: Readable<RawMempool | null> = derived(
+	schedulerState,
+	($state) => $state.rawMempool
+);
+
+/**
+ * Derived store: Connected peers (getpeerinfo)
+ */
+export const peerInfo: Readable<PeerInfo[] | null> = derived(
+	schedulerState,
+	($state) => $state.peerInfo
+);
+
+/**
+ * Derived store: Registered mempool entries by txid (getmempoolentry; null = not in the mempool)
+ */
+export const mempoolEntries: Readable<Record<string, MempoolEntry | null>> = derived(
+	schedulerState,
+	($state) => $state.lookups.mempoolEntry
+);
+
+/**
+ * Derived store: Registered block headers by hash (getblockheader; null = the node doesn't have it)
+ */
+export const blockHeaders: Readable<Record<string, BlockHeader | null>> = derived(
+	schedulerState,
+	($state) => $state.lookups.blockHeader
+);
+
+/**
+ * Derived store: Lookups the node doesn't implement (answered "method not found")
+ */
+export const unsupportedLookups: Readable<LookupKind[]> = derived(
+	schedulerState,
+	($state) => $state.unsupportedLookups
+);
+
+/**
+ * Derived store: Needs the node doesn't implement (answered "method not found")
+ */
+export const unsupportedNeeds: Readable<DataNeed[]> = derived(
+	schedulerState,
+	($state) => $state.unsupported
+);
+
+/**
+ * Derived store: Are live updates arriving by push (vs. polling)?
+ */
+export const isPushLive: Readable<boolean> = derived(
+	schedulerState,
+	($state) => $state.push === 'open'
+);
+
+/**
+ * Derived store: Timestamp of the last successful tick
+ */
+export const lastTick: Readable<number | null> = derived(
+	schedulerState,
+	($state) => $state.lastTick
+);
+
+/**
+ * Derived store: Smoothed RPC latency in milliseconds (null before the first tick)
+ */
+export const nodeLatency: Readable<number | null> = derived(
+	schedulerState,
+	($state) => $state.latency
+);
+
+/**
+ * Derived store: Current poll interval in milliseconds
+ */
+export const pollInterval: Readable<number> = derived(
+	schedulerState,
+	($state) => $state.interval
+);
@@ -0,0 +1,286 @@
+/**
+ * Bitcoin Echo GUI — Search Store
+ *
+ * Works out what a search query is (block height, block hash or txid,
+ * address, script) and where it leads, asking the node when the answer
+ * isn't obvious from the text alone. Recent successful searches are kept
+ * in localStorage.
+ */
+
+import { writable } from 'svelte/store';
+import { rpcBatchCallSettled, getBlockHash } from '$lib/rpc/client';
+import { RPCMethodError } from '$lib/rpc/errors';
+import type { BlockHeader, ObservedBlock, ObservedTx, RawTransaction, RPCConfig } from '$lib/rpc/types';
+import { DecodeError, decodeAddress, hexToBytes, parseScript } from '$lib/bitcoin';
+
+/**
+ * What a query looks like
+ */
+export type SearchKind = 'height' | 'hash' | 'address' | 'script';
+
+/**
+ * A query with its kind, normalized
+ */
+export interface ClassifiedQuery {
+	kind: SearchKind;
+	value: string; // Height digits, lowercase hex, or the address as typed
+}
+
+/**
+ * Where a search leads, or why it leads nowhere
+ */
+export type SearchOutcome =
+	| { ok: true; href: string; label: string }
+	| { ok: false; message: string };
+
+/**
+ * A search that found something
+ */
+export interface RecentSearch {
+	query: string;
+	href: string;
+	label: string; // e.g. "Block 840,000", "Transaction 3b8f…"
+}
+
+/**
+ * What the resolver needs to know about the node
+ */
+export interface SearchContext {
+	config: Partial<RPCConfig>;
+	observerMode: boolean;
+	pruneHeight: number | null; // Lowest height with block data (null when not pruned)
+	observedBlocks: ObservedBlock[];
+	observedTxs: ObservedTx[];
+}
+
+/**
+ * LocalStorage key
+ */
+const STORAGE_KEY = 'bitcoin-echo-recent-searches';
+
+/**
+ * Recent searches kept
+ */
+const MAX_RECENT = 8;
+
+/**
+ * Largest script accepted (MAX_SCRIPT_SIZE)
+ */
+const MAX_SCRIPT_SIZE = 10000;
+
+/**
+ * RPC error codes for "not found" (RPC_INVALID_ADDRESS_OR_KEY) and a height past the tip (RPC_INVALID_PARAMETER)
+ */
+const RPC_INVALID_ADDRESS_OR_KEY = -5;
+const RPC_INVALID_PARAMETER = -8;
+
+function loadRecent(): RecentSearch[] {
+	if (typeof window === 'undefined') return [];
+	try {
+		const stored = localStorage.getItem(STORAGE_KEY);
+		return stored ? (JSON.parse(stored) as RecentSearch[]) : [];
+	} catch {
+		return [];
+	}
+}
+
+const recentState = writable<RecentSearch[]>(loadRecent());
+
+if (typeof window !== 'undefined') {
+	recentState.subscribe((recent) => {
+		try {
+			localStorage.setItem(STORAGE_KEY, JSON.stringify(recent));
+		} catch {
+			// Storage full or unavailable; recent searches last until reload
+		}
+	});
+}
+
+export const recentSearches = {
+	subscribe: recentState.subscribe,
+
+	/**
+	 * Remember a search (most recent first, without duplicates)
+	 */
+	add(search: RecentSearch): void {
+		recentState.update((recent) =>
+			[search, ...recent.filter((r) => r.href !== search.href)].slice(0, MAX_RECENT)
+		);
+	},
+
+	clear(): void {
+		recentState.set([]);
+	}
+};
+
+/**
+ * Recognize a query from its text alone
+ *
+ * @returns null when it doesn't look like anything searchable
+ */
+export function classifyQuery(query: string): ClassifiedQuery | null {
+	const trimmed = query.trim();
+	if (!trimmed) return null;
+
+	// Heights may be typed with separators: 840,000 or 840_000
+	const digits = trimmed.replace(/[,_]/g, '');
+	if (/^\d{1,9}$/.test(digits)) return { kind: 'height', value: String(Number(digits)) };
+
+	if (/^[0-9a-fA-F]{64}$/.test(trimmed)) return { kind: 'hash', value: trimmed.toLowerCase() };
+
+	try {
+		decodeAddress(trimmed);
+		return { kind: 'address', value: trimmed };
+	} catch {
+		// Not an address
+	}
+
+	if (/^([0-9a-fA-F]{2})+$/.test(trimmed) && trimmed.length / 2 <= MAX_SCRIPT_SIZE) {
+		if (!parseScript(hexToBytes(trimmed)).truncated) {
+			return { kind: 'script', value: trimmed.toLowerCase() };
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Why an address-like query didn't decode (for feedback)
+ */
+function addressProblem(query: string): string | null {
+	try {
+		decodeAddress(query);
+		return null;
+	} catch (error) {
+		return error instanceof DecodeError ? error.message : null;
+	}
+}
+
+function shortHash(hash: string): string {
+	return `${hash.slice(0, 8)}…${hash.slice(-8)}`;
+}
+
+/**
+ * Label for a found block, noting when only its header is left
+ */
+function blockLabel(height: number, context: SearchContext): string {
+	const label = `Block ${height.toLocaleString()}`;
+	return context.pruneHeight !== null && height < context.pruneHeight ? `${label} (pruned, header only)` : label;
+}
+
+async function resolveHeight(height: number, context: SearchContext): Promise<SearchOutcome> {
+	try {
+		const hash = await getBlockHash(height, context.config);
+		return { ok: true, href: `/blocks/${hash}`, label: blockLabel(height, context) };
+	} catch (error) {
+		if (error instanceof RPCMethodError && error.code === RPC_INVALID_PARAMETER) {
+			return { ok: false, message: `No block at height ${height.toLocaleString()} yet` };
+		}
+		throw error;
+	}
+}
+
+/**
+ * Ask the node whether a 64-hex id is a block or a transaction, in one batch
+ */
+async function resolveHash(hash: string, context: SearchContext): Promise<SearchOutcome> {
+	const [header, tx] = await rpcBatchCallSettled<[BlockHeader, RawTransaction]>(
+		[
+			{ method: 'getblockheader', params: [hash, true] },
+			{ method: 'getrawtransaction', params: [hash, true] }
+		],
+		context.config
+	);
+
+	if (header.ok) {
+		return { ok: true, href: `/blocks/${hash}`, label: blockLabel(header.result.height, context) };
+	}
+	if (tx.ok) {
+		return { ok: true, href: `/tx/${hash}`, label: `Transaction ${shortHash(hash)}` };
+	}
+
+	const isNotFound = (error: Error) =>
+		error instanceof RPCMethodError && error.code === RPC_INVALID_ADDRESS_OR_KEY;
+
+	// Something other than "not found" went wrong; report that
+	if (!isNotFound(header.error)) throw header.error;
+	if (!isNotFound(tx.error)) throw tx.error;
+
+	if (context.pruneHeight !== null) {
+		return {
+			ok: false,
+			message:
+				"Not a block, and not in the mempool. Pruned nodes can't keep a transaction index, so confirmed transactions open from their block page."
+		};
+	}
+	// Core's message mentions -txindex when the node can only search its mempool
+	if (tx.error.message.includes('-txindex')) {
+		return {
+			ok: false,
+			message:
+				'Not a block, and not in the mempool. This node has no transaction index (-txindex), so confirmed transactions open from their block page.'
+		};
+	}
+	return { ok: false, message: 'No block or transaction with this id' };
+}
+
+/**
+ * Observer mode keeps no chain: only recent announcements can be found
+ */
+function resolveObserved(hash: string, context: SearchContext): SearchOutcome {
+	if (context.observedTxs.some((tx) => tx.txid === hash)) {
+		return { ok: true, href: `/tx/${hash}`, label: `Transaction ${shortHash(hash)}` };
+	}
+	const block = context.observedBlocks.find((b) => b.hash === hash);
+	if (block) {
+		return { ok: true, href: '/observer', label: `Announced block ${shortHash(hash)}` };
+	}
+	return {
+		ok: false,
+		message: 'Observer mode only knows recently announced blocks and transactions, and this isn’t one of them'
+	};
+}
+
+/**
+ * Work out where a query leads
+ *
+ * @throws RPCClientError if the node couldn't be asked
+ */
+export async function resolveSearch(query: string, context: SearchContext): Promise<SearchOutcome> {
+	const classified = classifyQuery(query);
+
+	if (!classified) {
+		const problem = addressProblem(query.trim());
+		return {
+			ok: false,
+			message:
+				problem && /^(bc|tb|bcrt)1|^[13mn2]/i.test(query.trim())
+					? `Not a valid address: ${problem}`
+					: 'Enter a block height, block hash, txid, address or script'
+		};
+	}
+
+	switch (classified.kind) {
+		case 'height':
+			if (context.observerMode) {
+				return { ok: false, message: 'Looking up blocks by height needs validation mode' };
+			}
+			return resolveHeight(Number(classified.value), context);
+		case 'hash':
+			return context.observerMode
+				? resolveObserved(classified.value, context)
+				: resolveHash(classified.value, context);
+		case 'address':
+			return {
+				ok: true,
+				href: `/address/${encodeURIComponent(classified.value)}`,
+				label: `Address ${classified.value.length > 20 ? shortHash(classified.value) : classified.value}`
+			};
+		case 'script':
+			return {
+				ok: true,
+				href: `/script/${classified.value}`,
+				label: `Script ${classified.value.length > 20 ? shortHash(classified.value) : classified.value}`
+			};
+	}
+}
@@ -46,12 +46,33 @@ interface SessionHistoryState {
 
 /**
  * LocalStorage keys
+ *
+ * History is kept per connection profile so one node's sync sessions never
+ * mix with another's. The default profile uses the unsuffixed keys, which
+ * keeps history recorded before profiles existed.
  */
 const STORAGE_KEY_SESSIONS = 'bitcoin-echo-sessions';
 const STORAGE_KEY_COMPLETION = 'bitcoin-echo-sync-completion';
 const STORAGE_KEY_LAST_HEIGHT = 'bitcoin-echo-last-height';
 const STORAGE_KEY_LAST_PROGRESS = 'bitcoin-echo-last-progress';
 
+/**
+ * Profile whose history uses the unsuffixed storage keys
+ */
+const DEFAULT_PROFILE_ID = 'default';
+
+/**
+ * Connection profile the store is currently recording for
+ */
+let profileId = DEFAULT_PROFILE_ID;
+
+/**
+ * Storage key scoped to the current profile
+ */
+function storageKey(key: string): string {
+	return profileId === DEFAULT_PROFILE_ID ? key : `${key}:${profileId}`;
+}
+
 /**
  * Load initial state from localStorage
  */
@@ -72,22 +93,22 @@ function loadInitialState(): SessionHistoryState {
 	let lastKnownProgress = 0;
 
 	try {
-		const savedSessions = localStorage.getItem(STORAGE_KEY_SESSIONS);
+		const savedSessions = localStorage.getItem(storageKey(STORAGE_KEY_SESSIONS));
 		if (savedSessions) {
 			sessions = JSON.parse(savedSessions);
 		}
 
-		const savedCompletion = localStorage.getItem(STORAGE_KEY_COMPLETION);
+		const savedCompletion = localStorage.getItem(storageKey(STORAGE_KEY_COMPLETION));
 		if (savedCompletion) {
 			completion = JSON.parse(savedCompletion);
 		}
 
-		const savedHeight = localStorage.getItem(STORAGE_KEY_LAST_HEIGHT);
+		const savedHeight = localStorage.getItem(storageKey(STORAGE_KEY_LAST_HEIGHT));
 		if (savedHeight) {
 			lastKnownHeight = parseInt(savedHeight, 10);
 		}
 
-		const savedProgress = localStorage.getItem(STORAGE_KEY_LAST_PROGRESS);
+		const savedProgress = localStorage.getItem(storageKey(STORAGE_KEY_LAST_PROGRESS));
 		if (savedProgress) {
 			lastKnownProgress = parseFloat(savedProgress);
 		}
@@ -111,14 +132,14 @@ function saveState(state: SessionHistoryState): void {
 	if (typeof window === 'undefined') return;
 
 	try {
-		localStorage.setItem(STORAGE_KEY_SESSIONS, JSON.stringify(state.sessions));
+		localStorage.setItem(storageKey(STORAGE_KEY_SESSIONS), JSON.stringify(state.sessions));
 
 		if (state.completion) {
-			localStorage.setItem(STORAGE_KEY_COMPLETION, JSON.stringify(state.completion));
+			localStorage.setItem(storageKey(STORAGE_KEY_COMPLETION), JSON.stringify(state.completion));
 		}
 
-		localStorage.setItem(STORAGE_KEY_LAST_HEIGHT, String(state.lastKnownHeight));
-		localStorage.setItem(STORAGE_KEY_LAST_PROGRESS, String(state.lastKnownProgress));
+		localStorage.setItem(storageKey(STORAGE_KEY_LAST_HEIGHT), String(state.lastKnownHeight));
+		localStorage.setItem(storageKey(STORAGE_KEY_LAST_PROGRESS), String(state.lastKnownProgress));
 	} catch {
 		console.warn('Failed to save session history to localStorage');
 	}
@@ -293,14 +314,30 @@ export const sessionHistory = {
 	},
 
 	/**
-	 * Reset all session history (for testing/debugging)
+	 * Switch to another connection profile's history
+	 * Ends the active session under the old profile first, then loads the new one.
+	 */
+	useProfile(id: string): void {
+		if (id === profileId) return;
+
+		const state = get(sessionHistoryState);
+		if (state.currentSession) {
+			this.endSession(state.lastKnownHeight);
+		}
+
+		profileId = id;
+		sessionHistoryState.set(loadInitialState());
+	},
+
+	/**
+	 * Reset all session history for the current profile (for testing/debugging)
 	 */
 	reset(): void {
 		if (typeof window !== 'undefined') {
-			localStorage.removeItem(STORAGE_KEY_SESSIONS);
-			localStorage.removeItem(STORAGE_KEY_COMPLETION);
-			localStorage.removeItem(STORAGE_KEY_LAST_HEIGHT);
-			localStorage.removeItem(STORAGE_KEY_LAST_PROGRESS);
+			localStorage.removeItem(storageKey(STORAGE_KEY_SESSIONS));
+			localStorage.removeItem(storageKey(STORAGE_KEY_COMPLETION));
+			localStorage.removeItem(storageKey(STORAGE_KEY_LAST_HEIGHT));
+			localStorage.removeItem(storageKey(STORAGE_KEY_LAST_PROGRESS));
 		}
 
 		sessionHistoryState.set({
@@ -0,0 +1,469 @@
+/**
+ * Bitcoin Echo GUI — Tab Coordination
+ *
+ * Several open GUI tabs share one poller. Tabs watching the same node, with
+ * the same connection profile and credentials, join a BroadcastChannel and
+ * elect a leader; only the leader polls the node and
+ * holds the event stream. Everything it learns is published to the other
+ * tabs (followers), which apply it to their own stores instead of polling.
+ *
+ * Election:
+ * - A tab that hears no leader heartbeat for LEADER_TIMEOUT claims
+ *   leadership for the next term. If several claim at once, the lowest
+ *   tab id wins; an existing leader answers any claim with a heartbeat.
+ * - The leader resigns on pagehide, so a follower takes over at once
+ *   rather than after the timeout.
+ * - Each leadership has a term number. When two leaders meet, the higher
+ *   term wins (ties go to the lower id), which lets a tab take over
+ *   deliberately, e.g. after the user changes its connection settings.
+ * - Hidden tabs are throttled by the browser, so a visible tab takes over
+ *   from a hidden leader.
+ *
+ * Followers tell the leader which data their pages need and whether they're
+ * visible, so the leader polls for every tab's needs.
+ *
+ * Without BroadcastChannel (SSR, very old browsers) every tab leads.
+ */
+
+import { writable, derived, get } from 'svelte/store';
+import type { Writable, Readable } from 'svelte/store';
+
+/**
+ * This tab's part in the election
+ */
+export type TabRole = 'leader' | 'follower' | 'electing';
+
+/**
+ * What a tab tells the leader about itself
+ */
+export interface TabPresence {
+	needs: string[]; // Data needs registered by the tab's pages
+	lookups: string[]; // Per-item lookups registered by the tab's pages ("kind:key")
+	hidden: boolean; // Page Visibility API
+}
+
+/**
+ * Callbacks into the poller
+ */
+export interface TabHandlers {
+	onLead(): void; // This tab (re)started leading: poll with the current config
+	onFollow(): void; // This tab stopped leading: stop polling
+	onFeed(feed: unknown): void; // Follower: the leader published new state
+	onPresence(added: boolean): void; // Leader: a tab's presence changed (added = new tab, need or visibility)
+}
+
+/**
+ * Messages exchanged between tabs
+ */
+type TabMessage =
+	| { type: 'heartbeat'; from: string; term: number; hidden: boolean }
+	| { type: 'claim'; from: string; term: number }
+	| { type: 'resign'; from: string }
+	| { type: 'presence'; from: string; presence: TabPresence }
+	| { type: 'feed'; from: string; feed: unknown };
+
+/**
+ * Coordination state
+ */
+interface TabState {
+	role: TabRole;
+	leaderId: string | null;
+	term: number; // Term of the current (or last known) leadership
+	peers: number; // Other tabs sharing this tab's feed (leader only)
+}
+
+/**
+ * How often the leader sends heartbeats and followers report presence (1 second)
+ */
+const HEARTBEAT_INTERVAL = 1000;
+
+/**
+ * Silence after which followers elect a new leader (3 seconds)
+ */
+const LEADER_TIMEOUT = 3000;
+
+/**
+ * Silence after which the leader forgets a follower's needs (5 seconds)
+ */
+const PEER_TIMEOUT = 5000;
+
+/**
+ * How long a claim waits for an existing leader or a lower-id claimant
+ */
+const CLAIM_WINDOW = 250;
+
+/**
+ * Channel name prefix (the tab group key is appended)
+ */
+const CHANNEL_PREFIX = 'bitcoin-echo-tabs:';
+
+const INITIAL_STATE: TabState = {
+	role: 'electing',
+	leaderId: null,
+	term: 0,
+	peers: 0
+};
+
+/**
+ * This tab's id - time-ordered, so older tabs win tied elections
+ */
+const tabId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Internal coordination state store
+ */
+const tabState: Writable<TabState> = writable({ ...INITIAL_STATE });
+
+let channel: BroadcastChannel | null = null;
+let channelKey: string | null = null;
+let handlers: TabHandlers | null = null;
+let presence: TabPresence = { needs: [], lookups: [], hidden: false };
+let watchdog: ReturnType<typeof setInterval> | null = null;
+let claimTimer: ReturnType<typeof setTimeout> | null = null;
+let lastHeartbeat = 0; // When the leader was last heard from
+let leaderHidden = false;
+let lastFeed: unknown = null; // Latest published feed, replayed to new followers
+
+/**
+ * Presence of each follower (leader only)
+ */
+const remoteTabs = new Map<string, TabPresence & { seen: number }>();
+
+/**
+ * Send a message to the other tabs on the channel
+ */
+function post(message: TabMessage): void {
+	channel?.postMessage(message);
+}
+
+/**
+ * Announce this tab's leadership
+ */
+function heartbeat(): void {
+	post({ type: 'heartbeat', from: tabId, term: get(tabState).term, hidden: presence.hidden });
+}
+
+/**
+ * Become leader for a term
+ */
+function lead(term: number): void {
+	if (claimTimer) clearTimeout(claimTimer);
+	claimTimer = null;
+	remoteTabs.clear();
+	tabState.set({ role: 'leader', leaderId: tabId, term, peers: 0 });
+	heartbeat();
+	handlers?.onLead();
+}
+
+/**
+ * Give up leadership (to a known leader, or to whoever wins the next election)
+ */
+function stepDown(leaderId: string | null, term: number): void {
+	remoteTabs.clear();
+	tabState.set({ role: 'follower', leaderId, term, peers: 0 });
+	handlers?.onFollow();
+}
+
+/**
+ * Accept another tab as leader
+ */
+function follow(leaderId: string, term: number): void {
+	const state = get(tabState);
+	if (claimTimer) clearTimeout(claimTimer);
+	claimTimer = null;
+	lastHeartbeat = Date.now();
+
+	if (state.role === 'follower' && state.leaderId === leaderId && state.term === term) return;
+
+	if (state.role === 'leader') {
+		stepDown(leaderId, term);
+	} else {
+		tabState.set({ role: 'follower', leaderId, term, peers: 0 });
+	}
+	// A new leader doesn't know what this tab needs yet
+	post({ type: 'presence', from: tabId, presence });
+}
+
+/**
+ * Claim leadership of the next term, unless a leader or lower-id claimant answers
+ */
+function elect(): void {
+	if (claimTimer) return;
+	const term = get(tabState).term + 1;
+
+	tabState.update((s) => ({ ...s, role: 'electing', leaderId: null }));
+	post({ type: 'claim', from: tabId, term });
+	claimTimer = setTimeout(() => {
+		claimTimer = null;
+		lead(term);
+	}, CLAIM_WINDOW);
+}
+
+/**
+ * Lead now, outranking any current leader
+ */
+function takeover(): void {
+	lead(get(tabState).term + 1);
+}
+
+/**
+ * Does a heartbeat outrank this tab's own leadership?
+ */
+function outranks(message: { from: string; term: number }, term: number): boolean {
+	return message.term > term || (message.term === term && message.from < tabId);
+}
+
+/**
+ * Handle a message from another tab
+ */
+function handleMessage(message: TabMessage): void {
+	const state = get(tabState);
+
+	switch (message.type) {
+		case 'heartbeat':
+			if (state.role === 'leader') {
+				if (outranks(message, state.term)) {
+					follow(message.from, message.term);
+				} else {
+					heartbeat();
+				}
+				return;
+			}
+			// Stale heartbeats from a deposed leader are ignored
+			if (message.term < state.term) return;
+			leaderHidden = message.hidden;
+			follow(message.from, message.term);
+			if (leaderHidden && !presence.hidden) takeover();
+			return;
+
+		case 'claim':
+			if (state.role === 'leader') {
+				heartbeat();
+			} else if (state.role === 'electing' && claimTimer && message.from < tabId) {
+				// Lower id wins - wait for its first heartbeat
+				clearTimeout(claimTimer);
+				claimTimer = null;
+				lastHeartbeat = Date.now();
+			} else {
+				lastHeartbeat = Date.now();
+			}
+			return;
+
+		case 'resign':
+			if (state.role === 'leader') {
+				remoteTabs.delete(message.from);
+				tabState.update((s) => ({ ...s, peers: remoteTabs.size }));
+				handlers?.onPresence(false);
+			} else if (message.from === state.leaderId) {
+				elect();
+			}
+			return;
+
+		case 'presence': {
+			if (state.role !== 'leader') return;
+			const previous = remoteTabs.get(message.from);
+			remoteTabs.set(message.from, { ...message.presence, seen: Date.now() });
+			tabState.update((s) => ({ ...s, peers: remoteTabs.size }));
+
+			if (!previous) {
+				if (lastFeed !== null) post({ type: 'feed', from: tabId, feed: lastFeed });
+				handlers?.onPresence(true);
+				return;
+			}
+			const addedNeed =
+				message.presence.needs.some((need) => !previous.needs.includes(need)) ||
+				message.presence.lookups.some((lookup) => !previous.lookups.includes(lookup));
+			const becameVisible = previous.hidden && !message.presence.hidden;
+			const changed =
+				addedNeed ||
+				previous.hidden !== message.presence.hidden ||
+				previous.needs.length !== message.presence.needs.length ||
+				previous.lookups.length !== message.presence.lookups.length;
+			if (changed) handlers?.onPresence(addedNeed || becameVisible);
+			return;
+		}
+
+		case 'feed':
+			if (state.role === 'leader' || message.from !== state.leaderId) return;
+			lastHeartbeat = Date.now();
+			handlers?.onFeed(message.feed);
+			return;
+	}
+}
+
+/**
+ * Periodic duties: heartbeats and peer expiry as leader, presence and
+ * leader timeout as follower
+ */
+function watch(): void {
+	const state = get(tabState);
+	const now = Date.now();
+
+	if (state.role === 'leader') {
+		heartbeat();
+		let expired = false;
+		for (const [id, peer] of remoteTabs) {
+			if (now - peer.seen > PEER_TIMEOUT) {
+				remoteTabs.delete(id);
+				expired = true;
+			}
+		}
+		if (expired) {
+			tabState.update((s) => ({ ...s, peers: remoteTabs.size }));
+			handlers?.onPresence(false);
+		}
+		return;
+	}
+
+	post({ type: 'presence', from: tabId, presence });
+	if (now - lastHeartbeat > LEADER_TIMEOUT) {
+		elect();
+	}
+}
+
+/**
+ * Hand leadership off when the tab closes (or enters the back/forward cache)
+ */
+function handlePageHide(): void {
+	if (get(tabState).role !== 'leader') return;
+	post({ type: 'resign', from: tabId });
+	lastHeartbeat = Date.now();
+	stepDown(null, get(tabState).term);
+}
+
+/**
+ * Public tab coordination interface
+ */
+export const tabs = {
+	subscribe: tabState.subscribe,
+
+	/**
+	 * Join the tabs watching a node and start the election
+	 * Re-joining the current channel only updates the handlers.
+	 *
+	 * @param key - Identifies the profile, node and credentials (tabs with the same key share a leader)
+	 */
+	join(key: string, tabHandlers: TabHandlers): void {
+		handlers = tabHandlers;
+		if (key === channelKey) return;
+
+		this.leave();
+		channelKey = key;
+		tabState.set({ ...INITIAL_STATE });
+
+		if (typeof BroadcastChannel === 'undefined') {
+			lead(1);
+			return;
+		}
+
+		channel = new BroadcastChannel(CHANNEL_PREFIX + key);
+		channel.onmessage = (event: MessageEvent<TabMessage>) => handleMessage(event.data);
+		watchdog = setInterval(watch, HEARTBEAT_INTERVAL);
+		window.addEventListener('pagehide', handlePageHide);
+		elect();
+	},
+
+	/**
+	 * Leave the channel, resigning leadership if held
+	 */
+	leave(): void {
+		const wasLeader = get(tabState).role === 'leader';
+		if (wasLeader) post({ type: 'resign', from: tabId });
+
+		if (claimTimer) clearTimeout(claimTimer);
+		claimTimer = null;
+		if (watchdog) clearInterval(watchdog);
+		watchdog = null;
+		if (typeof window !== 'undefined') {
+			window.removeEventListener('pagehide', handlePageHide);
+		}
+		channel?.close();
+		channel = null;
+		channelKey = null;
+		lastFeed = null;
+		remoteTabs.clear();
+		tabState.set({ ...INITIAL_STATE });
+
+		if (wasLeader) handlers?.onFollow();
+	},
+
+	/**
+	 * Lead from this tab now (e.g. after its connection settings changed)
+	 */
+	takeover(): void {
+		if (channelKey !== null) takeover();
+	},
+
+	/**
+	 * Report this tab's needs and visibility to the leader
+	 */
+	announce(next: TabPresence): void {
+		const becameVisible = presence.hidden && !next.hidden;
+		presence = next;
+
+		const state = get(tabState);
+		if (state.role === 'leader') return;
+		post({ type: 'presence', from: tabId, presence });
+
+		// A hidden leader is throttled by the browser - the tab being looked at should poll
+		if (becameVisible && leaderHidden && state.role === 'follower') takeover();
+	},
+
+	/**
+	 * Publish state to the followers (leader only)
+	 */
+	publish(feed: unknown): void {
+		if (get(tabState).role !== 'leader') return;
+		lastFeed = feed;
+		post({ type: 'feed', from: tabId, feed });
+	},
+
+	/**
+	 * Is this tab the one polling the node?
+	 */
+	isLeader(): boolean {
+		return get(tabState).role === 'leader';
+	},
+
+	/**
+	 * Data needs registered by follower tabs (leader only)
+	 */
+	remoteNeeds(): Set<string> {
+		const needs = new Set<string>();
+		for (const peer of remoteTabs.values()) {
+			for (const need of peer.needs) needs.add(need);
+		}
+		return needs;
+	},
+
+	/**
+	 * Lookups ("kind:key") registered by follower tabs (leader only)
+	 */
+	remoteLookups(): Set<string> {
+		const lookups = new Set<string>();
+		for (const peer of remoteTabs.values()) {
+			for (const lookup of peer.lookups) lookups.add(lookup);
+		}
+		return lookups;
+	},
+
+	/**
+	 * Is any follower tab visible? (leader only)
+	 */
+	anyRemoteVisible(): boolean {
+		return [...remoteTabs.values()].some((peer) => !peer.hidden);
+	}
+};
+
+/**
+ * Derived store: Does this tab poll the node?
+ */
+export const isLeaderTab: Readable<boolean> = derived(
+	tabState,
+	($state) => $state.role === 'leader'
+);
+
+/**
+ * Derived store: Number of other tabs this tab is polling for (leader only)
+ */
+export const sharedTabCount: Readable<number> = derived(tabState, ($state) => $state.peers);
@@ -1,5 +1,5 @@
 import { sveltekit } from '@sveltejs/kit/vite';
-import { defineConfig } from 'vite';
+import { defineConfig } from 'vitest/config';
 
 export default defineConfig({
   plugins: [
@@ -16,5 +16,8 @@ export default defineConfig({
         };
       }
     }
-  ]
+  ],
+  test: {
+    include: ['src/**/*.test.ts']
+  }
 });